@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "Card" ADD COLUMN "position" INTEGER NOT NULL DEFAULT 0;
+
+-- Backfill: keep the previous createdAt ordering inside each section
+UPDATE "Card" SET "position" = (
+    SELECT COUNT(*) FROM "Card" AS "other"
+    WHERE "other"."sectionId" = "Card"."sectionId"
+      AND ("other"."createdAt" < "Card"."createdAt"
+           OR ("other"."createdAt" = "Card"."createdAt" AND "other"."id" < "Card"."id"))
+);
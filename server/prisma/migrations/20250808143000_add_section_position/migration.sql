@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Section" ADD COLUMN "position" INTEGER NOT NULL DEFAULT 0;
+
+-- Backfill: sections have no timestamp, so use insertion order (Backlog, To Do, Review, Done, then custom ones)
+UPDATE "Section" SET "position" = (
+    SELECT COUNT(*) FROM "Section" AS "other"
+    WHERE "other"."projectId" = "Section"."projectId"
+      AND "other"."rowid" < "Section"."rowid"
+);
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "ProjectMember" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "role" TEXT NOT NULL DEFAULT 'editor',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "projectId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    CONSTRAINT "ProjectMember_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "ProjectMember_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProjectMember_projectId_userId_key" ON "ProjectMember"("projectId", "userId");
+
+-- Backfill: boards used to be open to everyone, so keep existing users on existing boards.
+-- The earliest registered user owns them, everybody else can edit.
+INSERT INTO "ProjectMember" ("id", "role", "projectId", "userId")
+SELECT
+    lower(hex(randomblob(12))),
+    CASE WHEN "User"."id" = (SELECT "id" FROM "User" ORDER BY "createdAt" LIMIT 1) THEN 'owner' ELSE 'editor' END,
+    "Project"."id",
+    "User"."id"
+FROM "Project" CROSS JOIN "User";
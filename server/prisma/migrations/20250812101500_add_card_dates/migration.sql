@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Card" ADD COLUMN "dueDate" DATETIME;
+ALTER TABLE "Card" ADD COLUMN "startDate" DATETIME;
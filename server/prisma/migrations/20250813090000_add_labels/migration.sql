@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "Label" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "color" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "projectId" TEXT NOT NULL,
+    CONSTRAINT "Label_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "_CardLabels" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+    CONSTRAINT "_CardLabels_A_fkey" FOREIGN KEY ("A") REFERENCES "Card" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "_CardLabels_B_fkey" FOREIGN KEY ("B") REFERENCES "Label" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Label_projectId_name_key" ON "Label"("projectId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "_CardLabels_AB_unique" ON "_CardLabels"("A", "B");
+
+-- CreateIndex
+CREATE INDEX "_CardLabels_B_index" ON "_CardLabels"("B");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Card" ADD COLUMN "archivedAt" DATETIME;
+
+-- AlterTable
+ALTER TABLE "Section" ADD COLUMN "archivedAt" DATETIME;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Section" ADD COLUMN "wipLimit" INTEGER;
+ALTER TABLE "Section" ADD COLUMN "wipStrict" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "CardTransition" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "fromSectionId" TEXT,
+    "toSectionId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "cardId" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "actorId" TEXT,
+    CONSTRAINT "CardTransition_cardId_fkey" FOREIGN KEY ("cardId") REFERENCES "Card" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "CardTransition_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "CardTransition_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "CardTransition_projectId_createdAt_idx" ON "CardTransition"("projectId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "CardTransition_cardId_createdAt_idx" ON "CardTransition"("cardId", "createdAt");
+
+-- Existing cards start their history in their current section, as of their creation
+INSERT INTO "CardTransition" ("id", "fromSectionId", "toSectionId", "createdAt", "cardId", "projectId")
+SELECT 'backfill_' || "Card"."id", NULL, "Card"."sectionId", "Card"."createdAt", "Card"."id", "Section"."projectId"
+FROM "Card" JOIN "Section" ON "Section"."id" = "Card"."sectionId";
@@ -0,0 +1,84 @@
+import { Activity, Prisma } from '@prisma/client';
+
+import { prisma } from './db';
+
+type ActivityInput = {
+  projectId: string;
+  actorId?: string;
+  type: string;
+  summary: string;
+  cardId?: string;
+  sectionId?: string;
+  before?: unknown;
+  after?: unknown;
+};
+
+/**
+ * Append an entry to the project's audit trail.
+ * Failures are logged and swallowed: the change itself already happened and must not be reported as failed.
+ */
+export const recordActivity = async (input: ActivityInput) => {
+  try {
+    await prisma.activity.create({
+      data: {
+        projectId: input.projectId,
+        actorId: input.actorId,
+        type: input.type,
+        summary: input.summary,
+        cardId: input.cardId,
+        sectionId: input.sectionId,
+        before: input.before === undefined ? null : JSON.stringify(input.before),
+        after: input.after === undefined ? null : JSON.stringify(input.after),
+      },
+    });
+  } catch (e) {
+    console.error('Failed to record activity', e);
+  }
+};
+
+/**
+ * Keep only the fields that differ between two snapshots, for before/after pairs
+ */
+export const diffFields = <T extends Record<string, unknown>>(before: T, after: Partial<T>) => {
+  const changedBefore: Partial<T> = {};
+  const changedAfter: Partial<T> = {};
+  for (const key of Object.keys(after) as (keyof T)[]) {
+    if (after[key] !== undefined && after[key] !== before[key]) {
+      changedBefore[key] = before[key];
+      changedAfter[key] = after[key];
+    }
+  }
+  return { before: changedBefore, after: changedAfter, changed: Object.keys(changedAfter) as (keyof T)[] };
+};
+
+const parseJson = (value: string | null) => (value === null ? null : JSON.parse(value));
+
+type ActivityWithActor = Activity & { actor: { id: string; name: string; email: string } | null };
+
+const toActivity = (a: ActivityWithActor) => ({
+  id: a.id,
+  type: a.type,
+  summary: a.summary,
+  before: parseJson(a.before),
+  after: parseJson(a.after),
+  cardId: a.cardId,
+  sectionId: a.sectionId,
+  createdAt: a.createdAt.toISOString(),
+  actor: a.actor,
+});
+
+/**
+ * Newest-first page of activity; `cursor` is the id of the last entry of the previous page
+ */
+export const activityPage = async (where: Prisma.ActivityWhereInput, cursor?: string, limit = 30) => {
+  const rows = await prisma.activity.findMany({
+    where,
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: limit + 1,
+    ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    include: { actor: { select: { id: true, name: true, email: true } } },
+  });
+  const hasMore = rows.length > limit;
+  const items = rows.slice(0, limit);
+  return { items: items.map(toActivity), nextCursor: hasMore ? items[items.length - 1].id : null };
+};
@@ -0,0 +1,85 @@
+import { Request, Response, NextFunction } from 'express';
+import jwt from 'jsonwebtoken';
+
+import { prisma } from './db';
+
+/**
+ * Auth/JWT
+ * Simple JWT secret (in production, move to env)
+ */
+export const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret';
+
+// Board roles, weakest first: viewers read, editors change cards/sections, owners run destructive operations
+export const PROJECT_ROLES = ['viewer', 'editor', 'owner'] as const;
+export type ProjectRole = (typeof PROJECT_ROLES)[number];
+
+export type AuthReq = Request & {
+  user?: { id: string; email?: string };
+  // Set by requireRole for the project in the route params
+  member?: { role: ProjectRole };
+};
+
+// Stream tickets are signed like session tokens, but only open the event stream of one board
+const STREAM_TICKET_PURPOSE = 'events';
+
+export const authMiddleware = (req: AuthReq, res: Response, next: NextFunction) => {
+  const hdr = req.headers.authorization || '';
+  const token = hdr.startsWith('Bearer ') ? hdr.slice(7) : null;
+  if (!token) return res.status(401).json({ message: 'Missing token' });
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as any;
+    if (decoded.purpose) return res.status(401).json({ message: 'Invalid token' });
+    req.user = { id: decoded.sub as string, email: decoded.email as string | undefined };
+    return next();
+  } catch {
+    return res.status(401).json({ message: 'Invalid token' });
+  }
+};
+
+/**
+ * EventSource cannot set headers, so the board event stream takes a ticket in its URL instead of the
+ * session token: it is valid for a minute and for nothing but opening that board's stream.
+ */
+export const issueStreamTicket = (userId: string, projectId: string) =>
+  jwt.sign({ sub: userId, pid: projectId, purpose: STREAM_TICKET_PURPOSE }, JWT_SECRET, { expiresIn: '60s' });
+
+// Stands in for authMiddleware on the event stream route
+export const streamTicketMiddleware = (req: AuthReq, res: Response, next: NextFunction) => {
+  const ticket = typeof req.query.ticket === 'string' ? req.query.ticket : null;
+  if (!ticket) return res.status(401).json({ message: 'Missing stream ticket' });
+  try {
+    const decoded = jwt.verify(ticket, JWT_SECRET) as any;
+    if (decoded.purpose !== STREAM_TICKET_PURPOSE || decoded.pid !== req.params.projectId) {
+      return res.status(401).json({ message: 'Invalid stream ticket' });
+    }
+    req.user = { id: decoded.sub as string };
+    return next();
+  } catch {
+    return res.status(401).json({ message: 'Invalid stream ticket' });
+  }
+};
+
+export const hasRole = (role: string, minimum: ProjectRole) =>
+  PROJECT_ROLES.indexOf(role as ProjectRole) >= PROJECT_ROLES.indexOf(minimum);
+
+/**
+ * Project access check, to be used after authMiddleware on routes with a :projectId param.
+ * Non-members get a 404 so private boards are not revealed; members below `minimum` get a 403.
+ */
+export const requireRole = (minimum: ProjectRole) => async (req: AuthReq, res: Response, next: NextFunction) => {
+  const { projectId } = req.params;
+  try {
+    const member = await prisma.projectMember.findUnique({
+      where: { projectId_userId: { projectId, userId: req.user!.id } },
+    });
+    if (!member) return res.status(404).json({ message: 'Project not found' });
+    if (!hasRole(member.role, minimum)) {
+      return res.status(403).json({ message: `This action requires the ${minimum} role` });
+    }
+    req.member = { role: member.role as ProjectRole };
+    return next();
+  } catch (e) {
+    console.error(e);
+    return res.status(500).json({ message: 'Failed to check project access' });
+  }
+};
@@ -0,0 +1,133 @@
+import { z } from 'zod';
+
+import { prisma } from './db';
+
+export const duplicateOptionsSchema = z.object({
+  // Defaults to the source title with " (copy)"
+  title: z.string().trim().min(1).max(200).optional(),
+  includeComments: z.boolean().optional().default(false),
+  // Keeps the assignments of the copy's members and invites the source board's other members
+  includeAssignees: z.boolean().optional().default(false),
+  // Clears start and due dates
+  resetDates: z.boolean().optional().default(false),
+});
+
+export type DuplicateOptions = z.infer<typeof duplicateOptionsSchema>;
+
+/**
+ * Copies a board's live sections (with WIP limits), labels and live cards with their checklists into
+ * a new project owned by `userId`, in a single transaction. Archived items, attachments and history are
+ * left behind: the copied cards start their transitions in their section at the time of the copy.
+ * Returns null when the source project does not exist.
+ */
+export const duplicateBoard = async (projectId: string, userId: string, options: DuplicateOptions) => {
+  const source = await prisma.project.findUnique({
+    where: { id: projectId },
+    include: {
+      members: { select: { userId: true, role: true } },
+      labels: { select: { id: true, name: true, color: true } },
+      sections: {
+        where: { archivedAt: null },
+        orderBy: [{ position: 'asc' }, { id: 'asc' }],
+        include: {
+          cards: {
+            where: { archivedAt: null },
+            orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+            include: {
+              assignees: { select: { id: true } },
+              labels: { select: { id: true } },
+              comments: { orderBy: { createdAt: 'asc' }, select: { text: true, authorId: true, createdAt: true } },
+              checklists: {
+                orderBy: { position: 'asc' },
+                include: { items: { orderBy: { position: 'asc' }, select: { text: true, done: true } } },
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+  if (!source) return null;
+
+  // The duplicating user is the copy's only member and owns it, whatever their role on the source. As with
+  // imports, nobody else is added without accepting: the source's members are invited, capped at editor
+  const invitations = new Map<string, string>();
+  if (options.includeAssignees) {
+    source.members.forEach(m => m.userId !== userId && invitations.set(m.userId, m.role === 'owner' ? 'editor' : m.role));
+  }
+
+  const project = await prisma.$transaction(
+    async tx => {
+      const project = await tx.project.create({
+        data: {
+          title: options.title ?? `${source.title} (copy)`,
+          members: { create: { userId, role: 'owner' } },
+          invitations: {
+            create: [...invitations].map(([inviteeId, role]) => ({ inviteeId, role, invitedById: userId })),
+          },
+        },
+        select: { id: true, title: true },
+      });
+
+      const labelIds = new Map<string, string>();
+      for (const label of source.labels) {
+        const created = await tx.label.create({ data: { projectId: project.id, name: label.name, color: label.color } });
+        labelIds.set(label.id, created.id);
+      }
+
+      for (const [sectionPosition, section] of source.sections.entries()) {
+        const createdSection = await tx.section.create({
+          data: {
+            projectId: project.id,
+            title: section.title,
+            // The first column is the board's fixed Backlog
+            canDelete: sectionPosition === 0 ? false : section.canDelete,
+            position: sectionPosition,
+            wipLimit: section.wipLimit,
+            wipStrict: section.wipStrict,
+          },
+        });
+
+        for (const [position, card] of section.cards.entries()) {
+          await tx.card.create({
+            data: {
+              sectionId: createdSection.id,
+              title: card.title,
+              description: card.description,
+              priority: card.priority,
+              executor: card.executor,
+              position,
+              startDate: options.resetDates ? null : card.startDate,
+              dueDate: options.resetDates ? null : card.dueDate,
+              assignees: {
+                // Only members can be assigned; invited people have not accepted yet
+                connect: options.includeAssignees && card.assignees.some(a => a.id === userId) ? [{ id: userId }] : [],
+              },
+              labels: { connect: card.labels.map(l => ({ id: labelIds.get(l.id)! })) },
+              comments: {
+                create: options.includeComments
+                  ? card.comments.map(cm => ({ text: cm.text, authorId: cm.authorId, createdAt: cm.createdAt }))
+                  : [],
+              },
+              checklists: {
+                create: card.checklists.map((cl, clPosition) => ({
+                  title: cl.title,
+                  position: clPosition,
+                  items: { create: cl.items.map((item, itemPosition) => ({ text: item.text, done: item.done, position: itemPosition })) },
+                })),
+              },
+              transitions: { create: { projectId: project.id, toSectionId: createdSection.id, actorId: userId } },
+            },
+          });
+        }
+      }
+
+      return project;
+    },
+    // Large boards create many rows
+    { timeout: 60_000 }
+  );
+
+  const cards = source.sections.reduce((n, s) => n + s.cards.length, 0);
+  return { project, source: { id: source.id, title: source.title }, sections: source.sections.length, cards, invited: invitations.size };
+};
@@ -0,0 +1,308 @@
+import { z } from 'zod';
+
+import { prisma } from './db';
+import { PROJECT_ROLES, ProjectRole } from './auth';
+import { labelSchema } from './routes/labels';
+
+/**
+ * Portable JSON form of a whole board, used by export/import.
+ * People are referenced by email so a document can move between servers; attachments are not included.
+ * Bump BOARD_DOCUMENT_VERSION and keep reading older versions when the shape changes.
+ */
+export const BOARD_DOCUMENT_FORMAT = 'task-flow-board';
+export const BOARD_DOCUMENT_VERSION = 1;
+
+const isoDate = z.string().datetime({ offset: true });
+const email = z.string().trim().email();
+
+const documentCardSchema = z
+  .object({
+    title: z.string().trim().min(1).max(500),
+    description: z.string().max(20000).default(''),
+    priority: z.enum(['low', 'normal', 'high']).default('normal'),
+    executor: z.string().max(200).default(''),
+    createdAt: isoDate.optional(),
+    startDate: isoDate.nullable().default(null),
+    dueDate: isoDate.nullable().default(null),
+    assignees: z.array(email).default([]),
+    // Label names from the document's labels
+    labels: z.array(z.string().trim()).default([]),
+    comments: z
+      .array(
+        z.object({
+          text: z.string().min(1).max(10000),
+          // Who wrote it, by email and display name. Imported comments are credited to the importing user,
+          // with the original author's name in their text: a document must not speak for an existing account
+          author: email.nullable().default(null),
+          authorName: z.string().trim().max(200).nullable().default(null),
+          createdAt: isoDate.optional(),
+        })
+      )
+      .default([]),
+    checklists: z
+      .array(
+        z.object({
+          title: z.string().trim().min(1).max(100),
+          items: z.array(z.object({ text: z.string().trim().min(1).max(500), done: z.boolean().default(false) })).default([]),
+        })
+      )
+      .default([]),
+  })
+  .refine(c => !c.startDate || !c.dueDate || new Date(c.startDate) <= new Date(c.dueDate), {
+    message: 'Start date must not be after the due date',
+    path: ['startDate'],
+  });
+
+export const boardDocumentSchema = z
+  .object({
+    format: z.literal(BOARD_DOCUMENT_FORMAT),
+    version: z.literal(BOARD_DOCUMENT_VERSION),
+    exportedAt: isoDate.optional(),
+    project: z.object({ title: z.string().trim().min(1).max(200) }),
+    members: z.array(z.object({ email, role: z.enum(PROJECT_ROLES) })).default([]),
+    labels: z.array(labelSchema).default([]),
+    sections: z
+      .array(
+        z.object({
+          title: z.string().trim().min(1).max(200),
+          canDelete: z.boolean().default(true),
+          // Absent from documents exported before WIP limits existed
+          wipLimit: z.number().int().min(1).max(999).nullable().default(null),
+          wipStrict: z.boolean().default(false),
+          cards: z.array(documentCardSchema).default([]),
+        })
+      )
+      .min(1)
+      .max(100),
+  })
+  .refine(d => new Set(d.labels.map(l => l.name)).size === d.labels.length, {
+    message: 'Label names must be unique',
+    path: ['labels'],
+  });
+
+export type BoardDocument = z.infer<typeof boardDocumentSchema>;
+
+/**
+ * Builds the document for a project; null when the project does not exist
+ */
+export const exportBoard = async (projectId: string): Promise<BoardDocument | null> => {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    include: {
+      members: { include: { user: { select: { email: true } } }, orderBy: { createdAt: 'asc' } },
+      labels: { orderBy: { name: 'asc' } },
+      // The archive stays behind: exports carry what is on the board
+      sections: {
+        where: { archivedAt: null },
+        orderBy: { position: 'asc' },
+        include: {
+          cards: {
+            where: { archivedAt: null },
+            orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+            include: {
+              assignees: { select: { email: true } },
+              labels: { select: { name: true } },
+              comments: { orderBy: { createdAt: 'asc' }, include: { author: { select: { email: true, name: true } } } },
+              checklists: {
+                orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+                include: { items: { orderBy: [{ position: 'asc' }, { createdAt: 'asc' }] } },
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+  if (!project) return null;
+
+  return {
+    format: BOARD_DOCUMENT_FORMAT,
+    version: BOARD_DOCUMENT_VERSION,
+    exportedAt: new Date().toISOString(),
+    project: { title: project.title },
+    members: project.members.map(m => ({ email: m.user.email, role: m.role as ProjectRole })),
+    labels: project.labels.map(l => ({ name: l.name, color: l.color })),
+    sections: project.sections.map(s => ({
+      title: s.title,
+      canDelete: s.canDelete,
+      wipLimit: s.wipLimit,
+      wipStrict: s.wipStrict,
+      cards: s.cards.map(c => ({
+        title: c.title,
+        description: c.description,
+        priority: c.priority as 'low' | 'normal' | 'high',
+        executor: c.executor,
+        createdAt: c.createdAt.toISOString(),
+        startDate: c.startDate?.toISOString() ?? null,
+        dueDate: c.dueDate?.toISOString() ?? null,
+        assignees: c.assignees.map(a => a.email),
+        labels: c.labels.map(l => l.name),
+        comments: c.comments.map(cm => ({
+          text: cm.text,
+          author: cm.author.email,
+          authorName: cm.author.name,
+          createdAt: cm.createdAt.toISOString(),
+        })),
+        checklists: c.checklists.map(cl => ({
+          title: cl.title,
+          items: cl.items.map(i => ({ text: i.text, done: i.done })),
+        })),
+      })),
+    })),
+  };
+};
+
+export type ImportReport = {
+  title: string;
+  sections: number;
+  cards: number;
+  comments: number;
+  checklists: number;
+  labels: number;
+  // People with an account who are invited to the new board; they get access once they accept
+  invited: string[];
+  // Member and assignee emails without an account here: nobody is invited or assigned for them
+  unknownEmails: string[];
+  // Assignees with an account other than the importer: only members can be assigned, and the importer is the only one
+  skippedAssignees: string[];
+};
+
+// Matches every email in the document against existing accounts
+const resolvePeople = async (doc: BoardDocument, importerId: string) => {
+  const cards = doc.sections.flatMap(s => s.cards);
+  const emails = new Set([
+    ...doc.members.map(m => m.email),
+    ...cards.flatMap(c => c.assignees),
+  ]);
+  const users = await prisma.user.findMany({ where: { email: { in: [...emails] } }, select: { id: true, email: true } });
+  const userIds = new Map(users.map(u => [u.email, u.id]));
+
+  // The importer is the only member. Nobody is added to a board without accepting, so exported members
+  // get an invitation for their role instead, capped at editor: an import never hands out ownership
+  const invitations = new Map<string, ProjectRole>();
+  for (const m of doc.members) {
+    const id = userIds.get(m.email);
+    if (id && id !== importerId && !invitations.has(id)) invitations.set(id, m.role === 'owner' ? 'editor' : m.role);
+  }
+
+  const assignable = (address: string) => (userIds.get(address) === importerId ? importerId : undefined);
+
+  const report: ImportReport = {
+    title: doc.project.title,
+    sections: doc.sections.length,
+    cards: cards.length,
+    comments: cards.reduce((n, c) => n + c.comments.length, 0),
+    checklists: cards.reduce((n, c) => n + c.checklists.length, 0),
+    labels: doc.labels.length,
+    invited: [...new Set(doc.members.map(m => m.email))].filter(e => userIds.has(e) && userIds.get(e) !== importerId),
+    unknownEmails: [...emails].filter(e => !userIds.has(e)).sort(),
+    skippedAssignees: [...new Set(cards.flatMap(c => c.assignees))].filter(e => userIds.has(e) && !assignable(e)).sort(),
+  };
+
+  return { invitations, assignable, report };
+};
+
+/**
+ * What importing the document would create, without writing anything
+ */
+export const previewImport = async (doc: BoardDocument, importerId: string) =>
+  (await resolvePeople(doc, importerId)).report;
+
+/**
+ * Recreates the document as a new project owned by the importer, in a single transaction
+ */
+// Comments by anyone but the importer name their original author, e.g. "Jane Doe wrote:"
+const importedCommentText = (comment: BoardDocument['sections'][number]['cards'][number]['comments'][number], importerEmail: string) => {
+  const author = comment.authorName || comment.author;
+  if (!author || comment.author === importerEmail) return comment.text;
+  return `${author} wrote:\n${comment.text}`;
+};
+
+export const importBoard = async (doc: BoardDocument, importerId: string) => {
+  const { invitations, assignable, report } = await resolvePeople(doc, importerId);
+  const importer = await prisma.user.findUniqueOrThrow({ where: { id: importerId }, select: { email: true } });
+
+  const project = await prisma.$transaction(
+    async tx => {
+      const project = await tx.project.create({
+        data: {
+          title: doc.project.title,
+          members: { create: { userId: importerId, role: 'owner' } },
+          invitations: {
+            create: [...invitations].map(([inviteeId, role]) => ({ inviteeId, role, invitedById: importerId })),
+          },
+        },
+        select: { id: true, title: true },
+      });
+
+      const labelIds = new Map<string, string>();
+      for (const label of doc.labels) {
+        const created = await tx.label.create({ data: { projectId: project.id, name: label.name, color: label.color } });
+        labelIds.set(label.name, created.id);
+      }
+
+      for (const [sectionPosition, section] of doc.sections.entries()) {
+        const createdSection = await tx.section.create({
+          data: {
+            projectId: project.id,
+            title: section.title,
+            // The first column is the board's fixed Backlog
+            canDelete: sectionPosition === 0 ? false : section.canDelete,
+            position: sectionPosition,
+            wipLimit: section.wipLimit,
+            wipStrict: section.wipLimit ? section.wipStrict : false,
+          },
+        });
+
+        for (const [position, card] of section.cards.entries()) {
+          const assigneeIds = [...new Set(card.assignees.map(assignable).filter((id): id is string => !!id))];
+          const cardLabelIds = [...new Set(card.labels.map(name => labelIds.get(name)).filter((id): id is string => !!id))];
+          await tx.card.create({
+            data: {
+              sectionId: createdSection.id,
+              title: card.title,
+              description: card.description,
+              priority: card.priority,
+              executor: card.executor,
+              position,
+              createdAt: card.createdAt ? new Date(card.createdAt) : undefined,
+              startDate: card.startDate ? new Date(card.startDate) : null,
+              dueDate: card.dueDate ? new Date(card.dueDate) : null,
+              assignees: { connect: assigneeIds.map(id => ({ id })) },
+              labels: { connect: cardLabelIds.map(id => ({ id })) },
+              comments: {
+                create: card.comments.map(cm => ({
+                  text: importedCommentText(cm, importer.email),
+                  authorId: importerId,
+                  createdAt: cm.createdAt ? new Date(cm.createdAt) : undefined,
+                })),
+              },
+              checklists: {
+                create: card.checklists.map((cl, clPosition) => ({
+                  title: cl.title,
+                  position: clPosition,
+                  items: { create: cl.items.map((item, itemPosition) => ({ text: item.text, done: item.done, position: itemPosition })) },
+                })),
+              },
+              // History starts at the import: the card entered its section when it was created
+              transitions: {
+                create: {
+                  projectId: project.id,
+                  toSectionId: createdSection.id,
+                  actorId: importerId,
+                  createdAt: card.createdAt ? new Date(card.createdAt) : undefined,
+                },
+              },
+            },
+          });
+        }
+      }
+
+      return project;
+    },
+    // Large boards create many rows
+    { timeout: 60_000 }
+  );
+
+  return { project, report };
+};
@@ -0,0 +1,83 @@
+import { z } from 'zod';
+
+/**
+ * Server-side copy of the board's FilterState (src/hooks/useFilters.ts) and of the way Index applies it,
+ * so exports contain exactly the cards the user is looking at. Keep both in step.
+ */
+
+// Single query values arrive as strings, repeated ones as arrays
+const list = z.preprocess(v => (v === undefined ? [] : Array.isArray(v) ? v : [v]), z.array(z.string()));
+
+export const cardFilterSchema = z.object({
+  priority: list.pipe(z.array(z.enum(['low', 'normal', 'high']))),
+  executor: list,
+  label: list,
+  multiFilter: z.enum(['0', '1', 'true', 'false']).optional().transform(v => v === '1' || v === 'true'),
+  due: z.enum(['all', 'overdue', 'due-this-week']).default('all'),
+  sortBy: z
+    .enum(['manual', 'date', 'due-date', 'priority-low-high', 'priority-high-low', 'priority-normal-first'])
+    .default('manual'),
+  // Browser's Date#getTimezoneOffset(), so "overdue" and "this week" follow the user's calendar
+  tzOffset: z.coerce.number().int().min(-840).max(840).default(0),
+});
+
+export type CardFilter = z.infer<typeof cardFilterSchema>;
+
+type FilterableCard = {
+  priority: string;
+  executor: string;
+  createdAt: Date;
+  dueDate: Date | null;
+  labels: { id: string }[];
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days since the epoch on the user's wall clock
+const localDay = (date: Date, tzOffset: number) => Math.floor((date.getTime() - tzOffset * 60 * 1000) / DAY_MS);
+
+const matchesDue = (card: FilterableCard, filter: CardFilter, now: Date) => {
+  if (filter.due === 'all') return true;
+  if (!card.dueDate) return false;
+  const due = localDay(card.dueDate, filter.tzOffset);
+  const today = localDay(now, filter.tzOffset);
+  if (filter.due === 'overdue') return due < today;
+  // Weeks start on Monday; day 0 of the epoch was a Thursday
+  const monday = today - ((today + 3) % 7);
+  return due >= monday && due < monday + 7;
+};
+
+export const matchesCardFilter = (card: FilterableCard, filter: CardFilter, now = new Date()) => {
+  // Only the criteria that are set take part; multiFilter ANDs them, otherwise any one is enough
+  const matches: boolean[] = [];
+  if (filter.priority.length) matches.push(filter.priority.includes(card.priority as 'low' | 'normal' | 'high'));
+  if (filter.executor.length) matches.push(filter.executor.includes(card.executor));
+  if (filter.label.length) matches.push(card.labels.some(l => filter.label.includes(l.id)));
+  if (matches.length && !(filter.multiFilter ? matches.every(Boolean) : matches.some(Boolean))) return false;
+  return matchesDue(card, filter, now);
+};
+
+const priorityOrder: Record<string, number> = { low: 1, normal: 2, high: 3 };
+
+// Sorts one section's cards, which arrive in manual (position) order
+export const sortCards = <T extends FilterableCard>(cards: T[], sortBy: CardFilter['sortBy']) => {
+  const sorted = [...cards];
+  switch (sortBy) {
+    case 'date':
+      return sorted.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    case 'due-date':
+      return sorted.sort((a, b) => (a.dueDate?.getTime() ?? Infinity) - (b.dueDate?.getTime() ?? Infinity));
+    case 'priority-low-high':
+      return sorted.sort((a, b) => priorityOrder[a.priority] - priorityOrder[b.priority]);
+    case 'priority-high-low':
+      return sorted.sort((a, b) => priorityOrder[b.priority] - priorityOrder[a.priority]);
+    case 'priority-normal-first':
+      return sorted.sort((a, b) => {
+        if (a.priority === 'normal' && b.priority !== 'normal') return -1;
+        if (a.priority !== 'normal' && b.priority === 'normal') return 1;
+        return priorityOrder[a.priority] - priorityOrder[b.priority];
+      });
+    default:
+      return sorted;
+  }
+};
@@ -0,0 +1,4 @@
+import { PrismaClient } from '@prisma/client';
+
+// Shared Prisma instance for all routers
+export const prisma = new PrismaClient();
@@ -10,9 +10,11 @@ dotenv.config();
 const PORT = Number(process.env.PORT ?? 4001);
 const app = express();
 
-app.use(cors({ origin: true }));
+// Downloads name their file in Content-Disposition, which the web app reads from another origin
+app.use(cors({ origin: true, exposedHeaders: ["Content-Disposition"] }));
 app.use(helmet());
-app.use(express.json());
+// Board imports carry a whole board in one request
+app.use(express.json({ limit: "10mb" }));
 app.use(morgan("dev"));
 
 app.get("/", (_req, res) => res.send("API up"));
@@ -0,0 +1,50 @@
+import { Response } from 'express';
+
+/**
+ * Per-project Server-Sent Events hub.
+ * Routes publish an event after each successful mutation; every open board of that
+ * project receives it and applies it locally (see applyBoardEvent in useBoardData).
+ */
+export type BoardEvent = { type: string } & Record<string, unknown>;
+
+type Subscriber = { userId: string; res: Response };
+
+const subscribers = new Map<string, Set<Subscriber>>();
+
+// Keeps proxies from closing idle streams
+const HEARTBEAT_MS = 25_000;
+
+export const subscribe = (projectId: string, userId: string, res: Response) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.write(': connected\n\n');
+
+  const sub: Subscriber = { userId, res };
+  if (!subscribers.has(projectId)) subscribers.set(projectId, new Set());
+  subscribers.get(projectId)!.add(sub);
+
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+  res.on('close', () => {
+    clearInterval(heartbeat);
+    const set = subscribers.get(projectId);
+    set?.delete(sub);
+    if (set && set.size === 0) subscribers.delete(projectId);
+  });
+};
+
+export const publish = (projectId: string, event: BoardEvent) => {
+  const set = subscribers.get(projectId);
+  if (!set) return;
+  const payload = `data: ${JSON.stringify(event)}\n\n`;
+  set.forEach(sub => sub.res.write(payload));
+};
+
+// Close the streams of a user who lost access to the project
+export const disconnectUser = (projectId: string, userId: string) => {
+  subscribers.get(projectId)?.forEach(sub => {
+    if (sub.userId === userId) sub.res.end();
+  });
+};
@@ -0,0 +1,79 @@
+import { Router } from 'express';
+import { z } from 'zod';
+
+import { prisma } from '../db';
+import { requireRole } from '../auth';
+import { activityPage } from '../activity';
+
+/**
+ * Audit trail reads: whole project and single card, newest first, cursor paged.
+ * Also a card's section transitions, oldest first, for its timeline.
+ * Mounted behind authMiddleware by the api router.
+ */
+export const router = Router();
+
+const pageSchema = z.object({
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(30),
+});
+
+router.get('/projects/:projectId/activity', requireRole('viewer'), async (req, res) => {
+  const { projectId } = req.params;
+  const parsed = pageSchema.safeParse(req.query);
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  try {
+    res.json(await activityPage({ projectId }, parsed.data.cursor, parsed.data.limit));
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to load activity' });
+  }
+});
+
+// Works for deleted cards too: their history stays in the project
+router.get('/projects/:projectId/cards/:cardId/activity', requireRole('viewer'), async (req, res) => {
+  const { projectId, cardId } = req.params;
+  const parsed = pageSchema.safeParse(req.query);
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  try {
+    const exists = await prisma.activity.findFirst({ where: { projectId, cardId }, select: { id: true } });
+    const card = exists ? null : await prisma.card.findFirst({ where: { id: cardId, section: { projectId } } });
+    if (!exists && !card) return res.status(404).json({ message: 'Card not found' });
+
+    res.json(await activityPage({ projectId, cardId }, parsed.data.cursor, parsed.data.limit));
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to load activity' });
+  }
+});
+
+// Sections are resolved by id, archived ones included; purged sections keep a placeholder title
+router.get('/projects/:projectId/cards/:cardId/transitions', requireRole('viewer'), async (req, res) => {
+  const { projectId, cardId } = req.params;
+  try {
+    const card = await prisma.card.findFirst({ where: { id: cardId, section: { projectId } }, select: { id: true } });
+    if (!card) return res.status(404).json({ message: 'Card not found' });
+
+    const transitions = await prisma.cardTransition.findMany({
+      where: { cardId },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      include: { actor: { select: { id: true, name: true, email: true } } },
+    });
+    const sectionIds = [...new Set(transitions.flatMap(t => [t.fromSectionId, t.toSectionId]).filter((id): id is string => !!id))];
+    const sections = await prisma.section.findMany({ where: { id: { in: sectionIds }, projectId }, select: { id: true, title: true } });
+    const titles = new Map(sections.map(s => [s.id, s.title]));
+    const sectionOf = (id: string) => ({ id, title: titles.get(id) ?? 'Deleted section' });
+
+    res.json(
+      transitions.map(t => ({
+        id: t.id,
+        from: t.fromSectionId ? sectionOf(t.fromSectionId) : null,
+        to: sectionOf(t.toSectionId),
+        actor: t.actor,
+        createdAt: t.createdAt.toISOString(),
+      }))
+    );
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to load transitions' });
+  }
+});
@@ -1,43 +1,112 @@
-import { Router, Request, Response, NextFunction } from 'express';
+import { Router } from 'express';
 import { z } from 'zod';
+import { Prisma, Section } from '@prisma/client';
 
-import { PrismaClient } from '@prisma/client';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 
+import { prisma } from '../db';
+import { AuthReq, JWT_SECRET, authMiddleware, hasRole, issueStreamTicket, requireRole, streamTicketMiddleware } from '../auth';
+import { router as membersRouter } from './members';
+import { publish, subscribe } from '../realtime';
+import { diffFields, recordActivity } from '../activity';
+import { router as activityRouter } from './activity';
+import { labelSelect, router as labelsRouter } from './labels';
+import { checklistProgress, router as checklistsRouter } from './checklists';
+import { attachmentCounts, router as attachmentsRouter } from './attachments';
+import { router as searchRouter } from './search';
+import { router as transferRouter } from './transfer';
+import { purgeCards, router as archiveRouter } from './archive';
+import { router as insightsRouter } from './insights';
+import { DEFAULT_TEMPLATE_ID, findTemplate, router as templatesRouter, seedBoard } from './templates';
+import { rememberUndo, takeUndo } from '../undo';
+import { recordTransitions } from '../transitions';
+
 export const router = Router();
 
-/**
- * Auth/JWT
- * Simple JWT secret (in production, move to env)
- */
-const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret';
+// Utility types to keep API responses compatible with existing frontend
+type Priority = 'low' | 'normal' | 'high';
+const nowISO = () => new Date().toISOString();
 
-type AuthReq = Request & { user?: { id: string; email?: string } };
+// Helpers; archived sections and cards are treated as absent by the board routes
+const findSectionById = async (projectId: string, sectionId: string) => {
+  return prisma.section.findFirst({ where: { id: sectionId, projectId, archivedAt: null } });
+};
 
-const authMiddleware = (req: AuthReq, res: Response, next: NextFunction) => {
-  const hdr = req.headers.authorization || '';
-  const token = hdr.startsWith('Bearer ') ? hdr.slice(7) : null;
-  if (!token) return res.status(401).json({ message: 'Missing token' });
-  try {
-    const decoded = jwt.verify(token, JWT_SECRET) as any;
-    req.user = { id: decoded.sub as string, email: decoded.email as string | undefined };
-    return next();
-  } catch {
-    return res.status(401).json({ message: 'Invalid token' });
+// Cards are ranked by `position` inside their section; createdAt breaks ties left by bulk moves
+const cardOrder = [{ position: 'asc' as const }, { createdAt: 'asc' as const }];
+
+const nextCardPosition = async (sectionId: string) => {
+  const last = await prisma.card.aggregate({ where: { sectionId }, _max: { position: true } });
+  return (last._max.position ?? -1) + 1;
+};
+
+// Strict WIP limits refuse cards beyond the limit (409); other limits only show a warning on the board
+const wipLimitError = async (section: Section, incoming = 1) => {
+  if (!section.wipStrict || section.wipLimit === null) return null;
+  const count = await prisma.card.count({ where: { sectionId: section.id, archivedAt: null } });
+  if (count + incoming <= section.wipLimit) return null;
+  return `"${section.title}" has reached its WIP limit of ${section.wipLimit} card(s)`;
+};
+
+// The same for operations that bring cards into several sections at once: incoming cards per section id
+const wipLimitsError = async (incoming: Map<string, number>) => {
+  const sections = await prisma.section.findMany({ where: { id: { in: [...incoming.keys()] } } });
+  for (const section of sections) {
+    const overLimit = await wipLimitError(section, incoming.get(section.id));
+    if (overLimit) return overLimit;
   }
+  return null;
 };
 
-// Prisma instance
-const prisma = new PrismaClient();
+const countBySection = (cards: { sectionId: string }[]) =>
+  cards.reduce((m, c) => m.set(c.sectionId, (m.get(c.sectionId) ?? 0) + 1), new Map<string, number>());
 
-// Utility types to keep API responses compatible with existing frontend
-type Priority = 'low' | 'normal' | 'high';
-const nowISO = () => new Date().toISOString();
+// Section fields the board works with
+const sectionJson = (s: Section) => ({
+  id: s.id,
+  title: s.title,
+  canDelete: s.canDelete,
+  wipLimit: s.wipLimit,
+  wipStrict: s.wipStrict,
+});
 
-// Helpers
-const findSectionById = async (projectId: string, sectionId: string) => {
-  return prisma.section.findFirst({ where: { id: sectionId, projectId } });
+type CardPlacement = { index?: number; beforeCardId?: string; afterCardId?: string };
+
+/**
+ * Put a card into a section at the requested place and re-rank the section.
+ * `index` counts the other cards of the section (the moved card excluded);
+ * neighbour ids win over it, and with neither the card goes to the end.
+ */
+const placeCard = async (cardId: string, sectionId: string, placement: CardPlacement = {}) => {
+  const siblings = await prisma.card.findMany({
+    where: { sectionId, id: { not: cardId }, archivedAt: null },
+    orderBy: cardOrder,
+    select: { id: true, position: true },
+  });
+  const ids = siblings.map(c => c.id);
+
+  let index = ids.length;
+  if (placement.afterCardId && ids.includes(placement.afterCardId)) {
+    index = ids.indexOf(placement.afterCardId) + 1;
+  } else if (placement.beforeCardId && ids.includes(placement.beforeCardId)) {
+    index = ids.indexOf(placement.beforeCardId);
+  } else if (placement.index !== undefined) {
+    index = Math.min(Math.max(placement.index, 0), ids.length);
+  }
+  ids.splice(index, 0, cardId);
+
+  // Only touch rows whose rank actually changes
+  const current = new Map(siblings.map(c => [c.id, c.position]));
+  await prisma.$transaction(
+    ids
+      .map((id, position) => ({ id, position }))
+      .filter(({ id, position }) => id === cardId || current.get(id) !== position)
+      .map(({ id, position }) =>
+        prisma.card.update({ where: { id }, data: id === cardId ? { sectionId, position } : { position } })
+      )
+  );
+  return ids;
 };
 
 /**
@@ -93,6 +162,30 @@ router.post('/auth/login', async (req, res) => {
   }
 });
 
+/**
+ * Live board updates (Server-Sent Events); mutations below publish to this stream.
+ * Registered ahead of authMiddleware: the stream authenticates with a ticket instead of the session token
+ */
+router.get('/projects/:projectId/events', streamTicketMiddleware, requireRole('viewer'), (req: AuthReq, res) => {
+  subscribe(req.params.projectId, req.user!.id, res);
+});
+
+/**
+ * Everything below requires a signed-in user; project routes add a role check per route
+ */
+router.use(['/users', '/projects', '/invitations', '/search', '/templates'], authMiddleware);
+
+router.use(membersRouter);
+router.use(activityRouter);
+router.use(labelsRouter);
+router.use(checklistsRouter);
+router.use(attachmentsRouter);
+router.use(searchRouter);
+router.use(transferRouter);
+router.use(archiveRouter);
+router.use(insightsRouter);
+router.use(templatesRouter);
+
 /**
  * Users listing for assignment
  */
@@ -109,60 +202,90 @@ router.get('/users', async (_req, res) => {
 /**
  * Projects listing/creation (persisted via Prisma)
  */
-router.get('/projects', async (_req, res) => {
+router.get('/projects', async (req: AuthReq, res) => {
   try {
-    const projects = await prisma.project.findMany({ select: { id: true, title: true } });
-    res.json(projects);
+    // Only boards the user is a member of, with the user's role on each
+    const memberships = await prisma.projectMember.findMany({
+      where: { userId: req.user!.id },
+      include: { project: { select: { id: true, title: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+    res.json(memberships.map(m => ({ id: m.project.id, title: m.project.title, role: m.role })));
   } catch (e) {
     console.error(e);
     res.status(500).json({ message: 'Failed to list projects' });
   }
 });
 
-router.post('/projects', async (req, res) => {
+const createProjectSchema = z.object({
+  title: z.string().trim().max(200).optional(),
+  // Built-in or one of the user's saved templates; the basic board when omitted
+  templateId: z.string().optional().default(DEFAULT_TEMPLATE_ID),
+});
+
+router.post('/projects', async (req: AuthReq, res) => {
+  const parsed = createProjectSchema.safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json(parsed.error);
+
   try {
-    const { title } = (req.body ?? {}) as { title?: string };
-    const proj = await prisma.project.create({
-      data: { title: title || `project-${Date.now()}` },
-      select: { id: true, title: true },
+    const template = await findTemplate(parsed.data.templateId, req.user!.id);
+    if (!template) return res.status(404).json({ message: 'Template not found' });
+
+    const proj = await prisma.$transaction(async tx => {
+      // The creator owns the new board
+      const created = await tx.project.create({
+        data: {
+          title: parsed.data.title || `project-${Date.now()}`,
+          members: { create: { userId: req.user!.id, role: 'owner' } },
+        },
+        select: { id: true, title: true },
+      });
+      await seedBoard(tx, created.id, template.sections, req.user!.id);
+      return created;
     });
 
-    // Seed default sections
-    const createdSections = await prisma.$transaction([
-      prisma.section.create({ data: { title: 'Backlog', canDelete: false, projectId: proj.id } }),
-      prisma.section.create({ data: { title: 'To Do', canDelete: true, projectId: proj.id } }),
-      prisma.section.create({ data: { title: 'Review', canDelete: true, projectId: proj.id } }),
-      prisma.section.create({ data: { title: 'Done', canDelete: true, projectId: proj.id } }),
-    ]);
-
-    res.status(201).json({ id: proj.id, title: proj.title });
+    await recordActivity({
+      projectId: proj.id,
+      actorId: req.user!.id,
+      type: 'project.created',
+      summary: `created board "${proj.title}" from template "${template.name}"`,
+    });
+    res.status(201).json({ id: proj.id, title: proj.title, role: 'owner' });
   } catch (e) {
     console.error(e);
     res.status(500).json({ message: 'Failed to create project' });
   }
 });
 
+// A fresh ticket for opening the board's event stream (see issueStreamTicket)
+router.post('/projects/:projectId/events/ticket', requireRole('viewer'), (req: AuthReq, res) => {
+  res.json({ ticket: issueStreamTicket(req.user!.id, req.params.projectId) });
+});
+
 /**
  * Board routes, namespaced by project
  * Compose a Board shape from DB
  */
-router.get('/projects/:projectId/board', async (req, res) => {
+router.get('/projects/:projectId/board', requireRole('viewer'), async (req: AuthReq, res) => {
   const { projectId } = req.params;
   try {
     const project = await prisma.project.findUnique({ where: { id: projectId } });
     if (!project) return res.status(404).json({ message: 'Project not found' });
 
     const sections = await prisma.section.findMany({
-      where: { projectId },
-      orderBy: { title: 'asc' },
+      where: { projectId, archivedAt: null },
+      orderBy: { position: 'asc' },
     });
 
     const cards = await prisma.card.findMany({
-      where: { section: { projectId } },
-      orderBy: { createdAt: 'asc' },
-      include: { comments: true, section: true, assignees: { select: { id: true, name: true, email: true } } } as any,
+      where: { archivedAt: null, section: { projectId, archivedAt: null } },
+      orderBy: cardOrder,
+      include: { comments: true, section: true, assignees: { select: { id: true, name: true, email: true } }, labels: { select: labelSelect } } as any,
     });
 
+    const progress = await checklistProgress(cards.map(c => c.id));
+    const attachments = await attachmentCounts(cards.map(c => c.id));
+
     const bySection: Record<string, any[]> = {};
     sections.forEach(s => (bySection[s.id] = []));
     for (const c of cards) {
@@ -178,18 +301,24 @@ router.get('/projects/:projectId/board', async (req, res) => {
           createdAt: new Date(cm.createdAt).toISOString(),
         })),
         createdAt: new Date(c.createdAt).toISOString(),
+        startDate: c.startDate?.toISOString() ?? null,
+        dueDate: c.dueDate?.toISOString() ?? null,
         sectionId: c.sectionId,
         assignees: c.assignees,
+        labels: c.labels,
+        checklist: progress.get(c.id) ?? { done: 0, total: 0 },
+        attachmentCount: attachments.get(c.id) ?? 0,
       });
     }
 
     const board = {
       id: `${projectId}-board`,
       title: project.title,
+      // Caller's role, so the UI can hide actions it is not allowed to run
+      role: req.member!.role,
+      labels: await prisma.label.findMany({ where: { projectId }, orderBy: { name: 'asc' }, select: labelSelect }),
       sections: sections.map(s => ({
-        id: s.id,
-        title: s.title,
-        canDelete: s.canDelete,
+        ...sectionJson(s),
         cards: (bySection[s.id] || []),
       })),
     };
@@ -203,7 +332,7 @@ router.get('/projects/:projectId/board', async (req, res) => {
 
 const createSectionSchema = z.object({ title: z.string().min(1) });
 
-router.post('/projects/:projectId/sections', async (req, res) => {
+router.post('/projects/:projectId/sections', requireRole('editor'), async (req: AuthReq, res) => {
   const { projectId } = req.params;
   const parsed = createSectionSchema.safeParse(req.body);
   if (!parsed.success) return res.status(400).json(parsed.error);
@@ -212,94 +341,332 @@ router.post('/projects/:projectId/sections', async (req, res) => {
     const project = await prisma.project.findUnique({ where: { id: projectId } });
     if (!project) return res.status(404).json({ message: 'Project not found' });
 
+    // New sections are appended as the right-most column
+    const last = await prisma.section.aggregate({ where: { projectId }, _max: { position: true } });
     const created = await prisma.section.create({
-      data: { title: parsed.data.title, canDelete: true, projectId },
+      data: { title: parsed.data.title, canDelete: true, position: (last._max.position ?? -1) + 1, projectId },
     });
-    res.status(201).json({ id: created.id, title: created.title, cards: [], canDelete: created.canDelete });
+    const section = { ...sectionJson(created), cards: [] };
+    publish(projectId, { type: 'section.created', section });
+    await recordActivity({
+      projectId,
+      actorId: req.user!.id,
+      type: 'section.created',
+      summary: `added section "${created.title}"`,
+      sectionId: created.id,
+      after: { title: created.title },
+    });
+    res.status(201).json(section);
   } catch (e) {
     console.error(e);
     res.status(500).json({ message: 'Failed to create section' });
   }
 });
 
-router.delete('/projects/:projectId/sections/:id', async (req, res) => {
+const updateSectionSchema = z
+  .object({
+    wipLimit: z.number().int().min(1).max(999).nullable().optional(),
+    wipStrict: z.boolean().optional(),
+  })
+  .refine(v => v.wipLimit !== undefined || v.wipStrict !== undefined, { message: 'Nothing to update' });
+
+// Section settings: the WIP limit and whether it is enforced. Editors set them, as they work the flow they limit
+router.patch('/projects/:projectId/sections/:id', requireRole('editor'), async (req: AuthReq, res) => {
   const { projectId, id } = req.params;
+  const parsed = updateSectionSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  try {
+    const section = await findSectionById(projectId, id);
+    if (!section) return res.status(404).json({ message: 'Section not found' });
+
+    const updated = await prisma.section.update({
+      where: { id },
+      data: { wipLimit: parsed.data.wipLimit, wipStrict: parsed.data.wipStrict },
+    });
+    const json = sectionJson(updated);
+    publish(projectId, { type: 'section.updated', section: json });
+
+    const before = { wipLimit: section.wipLimit, wipStrict: section.wipStrict };
+    const after = { wipLimit: updated.wipLimit, wipStrict: updated.wipStrict };
+    const diff = diffFields(before, after);
+    if (diff.changed.length) {
+      await recordActivity({
+        projectId,
+        actorId: req.user!.id,
+        type: 'section.updated',
+        summary: updated.wipLimit === null
+          ? `removed the WIP limit of "${updated.title}"`
+          : `set the WIP limit of "${updated.title}" to ${updated.wipLimit}${updated.wipStrict ? ' (strict)' : ''}`,
+        sectionId: id,
+        before: diff.before,
+        after: diff.after,
+      });
+    }
+    res.json(json);
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to update section' });
+  }
+});
+
+const moveSectionSchema = z.object({ index: z.number().int().min(0) });
+
+/**
+ * Reorder columns: put the section at `index` among the other sections of the project
+ */
+router.post('/projects/:projectId/sections/:id/move', requireRole('editor'), async (req: AuthReq, res) => {
+  const { projectId, id } = req.params;
+  const parsed = moveSectionSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  try {
+    const section = await findSectionById(projectId, id);
+    if (!section) return res.status(404).json({ message: 'Section not found' });
+
+    const others = await prisma.section.findMany({
+      where: { projectId, id: { not: id }, archivedAt: null },
+      orderBy: { position: 'asc' },
+      select: { id: true, position: true },
+    });
+    const ids = others.map(s => s.id);
+    ids.splice(Math.min(parsed.data.index, ids.length), 0, id);
+
+    const current = new Map([...others, section].map(s => [s.id, s.position]));
+    await prisma.$transaction(
+      ids
+        .map((sectionId, position) => ({ sectionId, position }))
+        .filter(({ sectionId, position }) => current.get(sectionId) !== position)
+        .map(({ sectionId, position }) => prisma.section.update({ where: { id: sectionId }, data: { position } }))
+    );
+
+    publish(projectId, { type: 'section.moved', sectionIds: ids });
+    const newIndex = ids.indexOf(id);
+    if (newIndex !== section.position) {
+      await recordActivity({
+        projectId,
+        actorId: req.user!.id,
+        type: 'section.moved',
+        summary: `moved section "${section.title}" to column ${newIndex + 1}`,
+        sectionId: id,
+        before: { position: section.position },
+        after: { position: newIndex },
+      });
+    }
+    res.json({ sectionIds: ids });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to move section' });
+  }
+});
+
+const deleteSectionSchema = z.object({
+  // What happens to the section's cards: moved to another section, archived with it, or deleted for good
+  cards: z.enum(['move', 'archive', 'delete']).default('archive'),
+  targetSectionId: z.string().min(1).optional(),
+});
+
+// The section itself always goes to the archive (see archive.ts); the body decides about its cards
+router.delete('/projects/:projectId/sections/:id', requireRole('owner'), async (req: AuthReq, res) => {
+  const { projectId, id } = req.params;
+  const parsed = deleteSectionSchema.safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json(parsed.error);
+
   try {
-    const section = await prisma.section.findFirst({ where: { id, projectId } });
+    const section = await findSectionById(projectId, id);
     if (!section) return res.status(404).json({ message: 'Section not found' });
     if (!section.canDelete) return res.status(400).json({ message: 'Backlog cannot be deleted' });
 
-    // Delete all cards (and their comments) that belong to this section, then delete the section
-    const cardsInSection = await prisma.card.findMany({ where: { sectionId: id }, select: { id: true } });
-    const cardIds = cardsInSection.map(c => c.id);
+    const mode = parsed.data.cards;
+    let target: Awaited<ReturnType<typeof findSectionById>> = null;
+    if (mode === 'move') {
+      if (!parsed.data.targetSectionId) return res.status(400).json({ message: 'targetSectionId required to move the cards' });
+      target = await findSectionById(projectId, parsed.data.targetSectionId);
+      if (!target || target.id === id) return res.status(400).json({ message: 'Target section not found' });
+    }
 
-    await prisma.$transaction([
-      prisma.comment.deleteMany({ where: { cardId: { in: cardIds } } }),
-      prisma.card.deleteMany({ where: { id: { in: cardIds } } }),
-      prisma.section.delete({ where: { id } }),
-    ]);
+    const cardsInSection = await prisma.card.findMany({
+      where: { sectionId: id, archivedAt: null },
+      orderBy: cardOrder,
+      select: { id: true, title: true, sectionId: true, position: true },
+    });
+    if (target && cardsInSection.length) {
+      const overLimit = await wipLimitError(target, cardsInSection.length);
+      if (overLimit) return res.status(409).json({ message: overLimit });
+    }
 
-    res.json({ ok: true });
+    if (target) {
+      // Appended to the target in their current order
+      const start = await nextCardPosition(target.id);
+      await prisma.$transaction([
+        ...cardsInSection.map((c, i) =>
+          prisma.card.update({ where: { id: c.id }, data: { sectionId: target.id, position: start + i } })
+        ),
+        prisma.section.update({ where: { id }, data: { archivedAt: new Date() } }),
+      ]);
+    } else {
+      if (mode === 'delete') await purgeCards(cardsInSection.map(c => c.id));
+      await prisma.section.update({ where: { id }, data: { archivedAt: new Date() } });
+    }
+
+    const count = cardsInSection.length;
+    const outcome = {
+      move: `its ${count} card(s) moved to ${target?.title}`,
+      archive: `its ${count} card(s) archived with it`,
+      delete: `its ${count} card(s) deleted permanently`,
+    }[mode];
+
+    // Moved cards have new positions in the target: clients reload
+    publish(projectId, target && count ? { type: 'board.invalidated' } : { type: 'section.deleted', sectionId: id });
+    await recordActivity({
+      projectId,
+      actorId: req.user!.id,
+      type: 'section.archived',
+      summary: `archived section "${section.title}", ${outcome}`,
+      sectionId: id,
+      before: { title: section.title, cards: cardsInSection.map(c => ({ id: c.id, title: c.title })) },
+      after: { cards: mode, targetSectionId: target?.id },
+    });
+    if (target) {
+      await recordTransitions(
+        cardsInSection.map(c => ({ projectId, cardId: c.id, fromSectionId: id, toSectionId: target.id, actorId: req.user!.id }))
+      );
+    }
+    // Deleted cards cannot come back, so only the other choices can be undone
+    const undoId =
+      mode === 'delete'
+        ? undefined
+        : rememberUndo(projectId, req.user!.id, 'owner', `archive section "${section.title}"`, {
+            type: 'sections.archived',
+            sectionIds: [id],
+            targetSectionId: target?.id,
+            cards: target ? cardsInSection.map(c => ({ id: c.id, sectionId: c.sectionId, position: c.position })) : [],
+          });
+    res.json({ ok: true, archived: true, cards: mode, count, targetSectionId: target?.id, undoId });
   } catch (e) {
     console.error(e);
     res.status(500).json({ message: 'Failed to delete section' });
   }
 });
 
-router.post('/projects/:projectId/sections/:id/clear', async (req, res) => {
+router.post('/projects/:projectId/sections/:id/clear', requireRole('owner'), async (req: AuthReq, res) => {
   const { projectId, id } = req.params;
   try {
-    const section = await prisma.section.findFirst({ where: { id, projectId } });
+    const section = await findSectionById(projectId, id);
     if (!section) return res.status(404).json({ message: 'Section not found' });
 
-    // Hard-delete all cards in the section and their comments
-    const cardsInSection = await prisma.card.findMany({ where: { sectionId: id }, select: { id: true } });
+    // Archive every card of the section; they can be restored from the archive
+    const cardsInSection = await prisma.card.findMany({
+      where: { sectionId: id, archivedAt: null },
+      select: { id: true, title: true },
+    });
     const cardIds = cardsInSection.map(c => c.id);
     if (cardIds.length) {
-      await prisma.$transaction([
-        prisma.comment.deleteMany({ where: { cardId: { in: cardIds } } }),
-        prisma.card.deleteMany({ where: { id: { in: cardIds } } }),
-      ]);
+      await prisma.card.updateMany({ where: { id: { in: cardIds } }, data: { archivedAt: new Date() } });
     }
 
-    res.json({ id: section.id, title: section.title, canDelete: section.canDelete, cards: [] });
+    publish(projectId, { type: 'section.cleared', sectionId: id });
+    await recordActivity({
+      projectId,
+      actorId: req.user!.id,
+      type: 'section.cleared',
+      summary: `cleared section "${section.title}" (${cardIds.length} card(s) archived)`,
+      sectionId: id,
+      before: { cards: cardsInSection },
+    });
+    const undoId = cardIds.length
+      ? rememberUndo(projectId, req.user!.id, 'owner', `clear section "${section.title}"`, { type: 'cards.archived', cardIds })
+      : undefined;
+    res.json({ id: section.id, title: section.title, canDelete: section.canDelete, cards: [], archived: cardIds.length, undoId });
   } catch (e) {
     console.error(e);
     res.status(500).json({ message: 'Failed to clear section' });
   }
 });
 
-router.post('/projects/:projectId/sections/delete-all', async (req, res) => {
+router.post('/projects/:projectId/sections/delete-all', requireRole('owner'), async (req: AuthReq, res) => {
   const { projectId } = req.params;
   try {
-    const sections = await prisma.section.findMany({ where: { projectId } });
-    const backlog = sections.find(s => s.title === 'Backlog');
+    const sections = await prisma.section.findMany({ where: { projectId, archivedAt: null }, orderBy: { position: 'asc' } });
+    // The board's fixed first column: the Backlog, or whatever its template named it
+    const backlog = sections.find(s => !s.canDelete);
     if (!backlog) return res.status(400).json({ message: 'Backlog section missing' });
 
+    // Live cards move to the Backlog; the emptied sections (and cards archived earlier) go to the archive
     const deletable = sections.filter(s => s.canDelete);
+    const columnOf = new Map(deletable.map((s, i) => [s.id, i]));
+    // In board order: column by column, then by rank inside each column
+    const movedCards = (
+      await prisma.card.findMany({
+        where: { sectionId: { in: deletable.map(s => s.id) }, archivedAt: null },
+        orderBy: cardOrder,
+        select: { id: true, sectionId: true, position: true },
+      })
+    ).sort((a, b) => columnOf.get(a.sectionId)! - columnOf.get(b.sectionId)!);
+    const movedCount = movedCards.length;
+    if (movedCount) {
+      const overLimit = await wipLimitError(backlog, movedCount);
+      if (overLimit) return res.status(409).json({ message: overLimit });
+    }
+    // Appended to the Backlog, like the cards of a single deleted section
+    const start = await nextCardPosition(backlog.id);
     await prisma.$transaction([
-      prisma.card.updateMany({
-        where: { sectionId: { in: deletable.map(s => s.id) } },
-        data: { sectionId: backlog.id },
-      }),
-      prisma.section.deleteMany({ where: { id: { in: deletable.map(s => s.id) } } }),
+      ...movedCards.map((c, i) => prisma.card.update({ where: { id: c.id }, data: { sectionId: backlog.id, position: start + i } })),
+      prisma.section.updateMany({ where: { id: { in: deletable.map(s => s.id) } }, data: { archivedAt: new Date() } }),
     ]);
 
-    res.json([{ id: backlog.id, title: backlog.title, canDelete: backlog.canDelete, cards: [] }]);
+    // Too many moving parts for a patch: clients reload the board
+    publish(projectId, { type: 'board.invalidated' });
+    await recordActivity({
+      projectId,
+      actorId: req.user!.id,
+      type: 'sections.deleted-all',
+      summary: `archived all sections, ${movedCount} card(s) moved to ${backlog.title}`,
+      before: { sections: deletable.map(s => ({ id: s.id, title: s.title })) },
+    });
+    await recordTransitions(
+      movedCards.map(c => ({ projectId, cardId: c.id, fromSectionId: c.sectionId, toSectionId: backlog.id, actorId: req.user!.id }))
+    );
+    const undoId = rememberUndo(projectId, req.user!.id, 'owner', 'archive all sections', {
+      type: 'sections.archived',
+      sectionIds: deletable.map(s => s.id),
+      targetSectionId: backlog.id,
+      cards: movedCards,
+    });
+    res.json({ sections: [{ id: backlog.id, title: backlog.title, canDelete: backlog.canDelete, cards: [] }], undoId });
   } catch (e) {
     console.error(e);
     res.status(500).json({ message: 'Failed to delete all sections' });
   }
 });
 
+// ISO timestamp or null to clear; omitted keeps the current value on update
+const cardDate = z.string().datetime({ offset: true }).nullable().optional();
+
+const startsAfterDue = (startDate?: Date | null, dueDate?: Date | null) =>
+  !!startDate && !!dueDate && startDate.getTime() > dueDate.getTime();
+
+const toDate = (value: string | null | undefined) => (value === undefined ? undefined : value === null ? null : new Date(value));
+
+// Day part only, for activity summaries
+const dayOf = (date: Date | null) => (date ? date.toISOString().slice(0, 10) : '');
+
 const createCardSchema = z.object({
   title: z.string().min(1),
   description: z.string().optional().default(''),
   priority: z.enum(['low', 'normal', 'high']),
   executor: z.string().optional().default(''),
+  startDate: cardDate,
+  dueDate: cardDate,
+  labelIds: z.array(z.string()).optional(),
 });
 
-router.post('/projects/:projectId/sections/:sectionId/cards', async (req, res) => {
+// Labels picked for a card must be defined on the same board
+const unknownLabels = async (projectId: string, labelIds?: string[]) => {
+  if (!labelIds?.length) return false;
+  const found = await prisma.label.count({ where: { projectId, id: { in: labelIds } } });
+  return found !== new Set(labelIds).size;
+};
+
+router.post('/projects/:projectId/sections/:sectionId/cards', requireRole('editor'), async (req: AuthReq, res) => {
   const { projectId, sectionId } = req.params;
   const parsed = createCardSchema.safeParse(req.body);
   if (!parsed.success) return res.status(400).json(parsed.error);
@@ -307,6 +674,17 @@ router.post('/projects/:projectId/sections/:sectionId/cards', async (req, res) =
   try {
     const section = await findSectionById(projectId, sectionId);
     if (!section) return res.status(404).json({ message: 'Section not found' });
+    const overLimit = await wipLimitError(section);
+    if (overLimit) return res.status(409).json({ message: overLimit });
+
+    const startDate = toDate(parsed.data.startDate);
+    const dueDate = toDate(parsed.data.dueDate);
+    if (startsAfterDue(startDate, dueDate)) {
+      return res.status(400).json({ message: 'Start date must not be after the due date' });
+    }
+    if (await unknownLabels(projectId, parsed.data.labelIds)) {
+      return res.status(400).json({ message: 'Unknown label' });
+    }
 
     const created = await prisma.card.create({
       data: {
@@ -314,11 +692,17 @@ router.post('/projects/:projectId/sections/:sectionId/cards', async (req, res) =
         description: parsed.data.description,
         priority: parsed.data.priority,
         executor: parsed.data.executor,
+        startDate,
+        dueDate,
         sectionId,
+        position: await nextCardPosition(sectionId),
+        labels: parsed.data.labelIds ? { connect: parsed.data.labelIds.map(id => ({ id })) } : undefined,
+        transitions: { create: { projectId, toSectionId: sectionId, actorId: req.user!.id } },
       },
+      include: { labels: { select: labelSelect } },
     });
 
-    res.status(201).json({
+    const card = {
       id: created.id,
       title: created.title,
       description: created.description,
@@ -326,8 +710,31 @@ router.post('/projects/:projectId/sections/:sectionId/cards', async (req, res) =
       executor: created.executor,
       comments: [],
       createdAt: created.createdAt.toISOString(),
+      startDate: created.startDate?.toISOString() ?? null,
+      dueDate: created.dueDate?.toISOString() ?? null,
       sectionId: created.sectionId,
+      labels: created.labels,
+      checklist: { done: 0, total: 0 },
+      attachmentCount: 0,
+    };
+    publish(projectId, { type: 'card.created', card });
+    await recordActivity({
+      projectId,
+      actorId: req.user!.id,
+      type: 'card.created',
+      summary: `created card "${created.title}" in ${section.title}`,
+      cardId: created.id,
+      sectionId,
+      after: {
+        title: created.title,
+        priority: created.priority,
+        executor: created.executor,
+        startDate: created.startDate?.toISOString() ?? null,
+        dueDate: created.dueDate?.toISOString() ?? null,
+        labels: created.labels.map(l => l.name),
+      },
     });
+    res.status(201).json(card);
   } catch (e) {
     console.error(e);
     res.status(500).json({ message: 'Failed to add card' });
@@ -339,19 +746,57 @@ const updateCardSchema = z.object({
   description: z.string().optional().default(''),
   priority: z.enum(['low', 'normal', 'high']),
   executor: z.string().optional().default(''),
-  sectionId: z.string().optional()
+  sectionId: z.string().optional(),
+  startDate: cardDate,
+  dueDate: cardDate,
+  // Replaces the card's labels when present
+  labelIds: z.array(z.string()).optional(),
+  // Replaces the card's assignees when present; all must be board members
+  assigneeIds: z.array(z.string()).optional(),
 });
 
-router.put('/projects/:projectId/cards/:cardId', async (req, res) => {
+const nonMembers = async (projectId: string, userIds?: string[]) => {
+  if (!userIds?.length) return false;
+  const found = await prisma.projectMember.count({ where: { projectId, userId: { in: userIds } } });
+  return found !== new Set(userIds).size;
+};
+
+router.put('/projects/:projectId/cards/:cardId', requireRole('editor'), async (req: AuthReq, res) => {
   const { projectId, cardId } = req.params;
   const parsed = updateCardSchema.safeParse(req.body);
   if (!parsed.success) return res.status(400).json(parsed.error);
 
   try {
+    const existing = await prisma.card.findFirst({
+      where: { id: cardId, archivedAt: null, section: { projectId, archivedAt: null } },
+      include: { section: true, labels: { select: labelSelect }, assignees: { select: { name: true } } },
+    });
+    if (!existing) return res.status(404).json({ message: 'Card not found' });
+    if (await unknownLabels(projectId, parsed.data.labelIds)) {
+      return res.status(400).json({ message: 'Unknown label' });
+    }
+    if (await nonMembers(projectId, parsed.data.assigneeIds)) {
+      return res.status(400).json({ message: 'User is not a member of this board' });
+    }
+
     // validate target section if provided
+    let targetSection = existing.section;
     if (parsed.data.sectionId) {
       const sec = await findSectionById(projectId, parsed.data.sectionId);
       if (!sec) return res.status(400).json({ message: 'Target section not found' });
+      targetSection = sec;
+    }
+    const startDate = toDate(parsed.data.startDate);
+    const dueDate = toDate(parsed.data.dueDate);
+    if (startsAfterDue(startDate === undefined ? existing.startDate : startDate, dueDate === undefined ? existing.dueDate : dueDate)) {
+      return res.status(400).json({ message: 'Start date must not be after the due date' });
+    }
+
+    // A card switching sections through an edit goes to the end of its new section
+    const changesSection = !!parsed.data.sectionId && parsed.data.sectionId !== existing.sectionId;
+    if (changesSection) {
+      const overLimit = await wipLimitError(targetSection);
+      if (overLimit) return res.status(409).json({ message: overLimit });
     }
 
     const updated = await prisma.card.update({
@@ -361,12 +806,17 @@ router.put('/projects/:projectId/cards/:cardId', async (req, res) => {
         description: parsed.data.description,
         priority: parsed.data.priority,
         executor: parsed.data.executor,
+        startDate,
+        dueDate,
         sectionId: parsed.data.sectionId ?? undefined,
+        position: changesSection ? await nextCardPosition(parsed.data.sectionId!) : undefined,
+        labels: parsed.data.labelIds ? { set: parsed.data.labelIds.map(id => ({ id })) } : undefined,
+        assignees: parsed.data.assigneeIds ? { set: parsed.data.assigneeIds.map(id => ({ id })) } : undefined,
       },
-      include: { comments: true, assignees: { select: { id: true, name: true, email: true } } } as any,
+      include: { comments: true, assignees: { select: { id: true, name: true, email: true } }, labels: { select: labelSelect } } as any,
     });
 
-    res.json({
+    const card = {
       id: updated.id,
       title: updated.title,
       description: updated.description,
@@ -374,30 +824,105 @@ router.put('/projects/:projectId/cards/:cardId', async (req, res) => {
       executor: updated.executor,
       comments: updated.comments.map(cm => ({ id: cm.id, text: cm.text, createdAt: cm.createdAt.toISOString() })),
       createdAt: updated.createdAt.toISOString(),
+      startDate: updated.startDate?.toISOString() ?? null,
+      dueDate: updated.dueDate?.toISOString() ?? null,
       sectionId: updated.sectionId,
       assignees: updated.assignees,
-    });
+      labels: updated.labels,
+      checklist: (await checklistProgress([cardId])).get(cardId) ?? { done: 0, total: 0 },
+      attachmentCount: (await attachmentCounts([cardId])).get(cardId) ?? 0,
+    };
+    publish(projectId, { type: 'card.updated', card });
+
+    const diff = diffFields(
+      {
+        title: existing.title,
+        description: existing.description,
+        priority: existing.priority,
+        executor: existing.executor,
+        section: existing.section.title,
+        startDate: dayOf(existing.startDate),
+        dueDate: dayOf(existing.dueDate),
+        labels: existing.labels.map(l => l.name).sort().join(', '),
+        assignees: existing.assignees.map(a => a.name).sort().join(', '),
+      },
+      {
+        title: updated.title,
+        description: updated.description,
+        priority: updated.priority,
+        executor: updated.executor,
+        section: targetSection.title,
+        startDate: dayOf(updated.startDate),
+        dueDate: dayOf(updated.dueDate),
+        labels: (updated.labels as { name: string }[]).map(l => l.name).sort().join(', '),
+        assignees: (updated.assignees as { name: string }[]).map(a => a.name).sort().join(', '),
+      },
+    );
+    if (diff.changed.length) {
+      // Descriptions can be long: mention the change but keep the text out of the summary
+      const parts = diff.changed.map(f => (f === 'description' ? 'description' : `${f} ${diff.before[f] || '—'} → ${diff.after[f] || '—'}`));
+      await recordActivity({
+        projectId,
+        actorId: req.user!.id,
+        type: 'card.updated',
+        summary: `updated "${updated.title}": ${parts.join(', ')}`,
+        cardId,
+        sectionId: updated.sectionId,
+        before: diff.before,
+        after: diff.after,
+      });
+    }
+    await recordTransitions([
+      { projectId, cardId, fromSectionId: existing.sectionId, toSectionId: updated.sectionId, actorId: req.user!.id },
+    ]);
+    res.json(card);
   } catch (e) {
     console.error(e);
     res.status(404).json({ message: 'Card not found' });
   }
 });
 
-router.delete('/projects/:projectId/cards/:cardId', async (req, res) => {
-  const { cardId } = req.params;
+// Archives the card; the archive routes restore or permanently delete it
+router.delete('/projects/:projectId/cards/:cardId', requireRole('editor'), async (req: AuthReq, res) => {
+  const { projectId, cardId } = req.params;
   try {
-    await prisma.comment.deleteMany({ where: { cardId } });
-    await prisma.card.delete({ where: { id: cardId } });
-    res.json({ ok: true });
+    const card = await prisma.card.findFirst({
+      where: { id: cardId, archivedAt: null, section: { projectId, archivedAt: null } },
+      include: { section: true },
+    });
+    if (!card) return res.status(404).json({ message: 'Card not found' });
+
+    await prisma.card.update({ where: { id: cardId }, data: { archivedAt: new Date() } });
+    publish(projectId, { type: 'card.deleted', cardId });
+    await recordActivity({
+      projectId,
+      actorId: req.user!.id,
+      type: 'card.archived',
+      summary: `archived card "${card.title}" from ${card.section.title}`,
+      cardId,
+      sectionId: card.sectionId,
+      before: { title: card.title, description: card.description, priority: card.priority, executor: card.executor },
+    });
+    const undoId = rememberUndo(projectId, req.user!.id, 'editor', `archive card "${card.title}"`, {
+      type: 'cards.archived',
+      cardIds: [cardId],
+    });
+    res.json({ ok: true, archived: true, undoId });
   } catch (e) {
     console.error(e);
     res.status(404).json({ message: 'Card not found' });
   }
 });
 
-const moveSchema = z.object({ targetSectionId: z.string().min(1) });
+const moveSchema = z.object({
+  targetSectionId: z.string().min(1),
+  // Where to drop the card: a 0-based index among the other cards, or its new neighbours
+  index: z.number().int().min(0).optional(),
+  beforeCardId: z.string().optional(),
+  afterCardId: z.string().optional(),
+});
 
-router.post('/projects/:projectId/cards/:cardId/move', async (req, res) => {
+router.post('/projects/:projectId/cards/:cardId/move', requireRole('editor'), async (req: AuthReq, res) => {
   const { projectId, cardId } = req.params;
   const parsed = moveSchema.safeParse(req.body);
   if (!parsed.success) return res.status(400).json(parsed.error);
@@ -406,13 +931,36 @@ router.post('/projects/:projectId/cards/:cardId/move', async (req, res) => {
     const to = await findSectionById(projectId, parsed.data.targetSectionId);
     if (!to) return res.status(400).json({ message: 'Target section not found' });
 
-    const moved = await prisma.card.update({
+    const card = await prisma.card.findFirst({
+      where: { id: cardId, archivedAt: null, section: { projectId, archivedAt: null } },
+      include: { section: true },
+    });
+    if (!card) return res.status(404).json({ message: 'Card not found' });
+    // Reordering inside a full section is fine; only cards coming in count
+    if (card.sectionId !== to.id) {
+      const overLimit = await wipLimitError(to);
+      if (overLimit) return res.status(409).json({ message: overLimit });
+    }
+
+    // Its slot among the other cards of its section, for undo
+    const fromIds = (
+      await prisma.card.findMany({
+        where: { sectionId: card.sectionId, archivedAt: null },
+        orderBy: cardOrder,
+        select: { id: true },
+      })
+    ).map(c => c.id);
+    const fromIndex = fromIds.indexOf(cardId);
+
+    const { index, beforeCardId, afterCardId } = parsed.data;
+    const cardIds = await placeCard(cardId, to.id, { index, beforeCardId, afterCardId });
+
+    const moved = await prisma.card.findUniqueOrThrow({
       where: { id: cardId },
-      data: { sectionId: to.id },
-      include: { comments: true, assignees: { select: { id: true, name: true, email: true } } } as any,
+      include: { comments: true, assignees: { select: { id: true, name: true, email: true } }, labels: { select: labelSelect } } as any,
     });
 
-    res.json({
+    const movedCard = {
       id: moved.id,
       title: moved.title,
       description: moved.description,
@@ -420,19 +968,138 @@ router.post('/projects/:projectId/cards/:cardId/move', async (req, res) => {
       executor: moved.executor,
       comments: moved.comments.map(cm => ({ id: cm.id, text: cm.text, createdAt: cm.createdAt.toISOString() })),
       createdAt: moved.createdAt.toISOString(),
+      startDate: moved.startDate?.toISOString() ?? null,
+      dueDate: moved.dueDate?.toISOString() ?? null,
       sectionId: moved.sectionId,
       assignees: moved.assignees,
+      labels: moved.labels,
+      checklist: (await checklistProgress([cardId])).get(cardId) ?? { done: 0, total: 0 },
+      attachmentCount: (await attachmentCounts([cardId])).get(cardId) ?? 0,
+    };
+    // cardIds is the full new order of the target section
+    publish(projectId, { type: 'card.moved', card: movedCard, cardIds });
+    await recordActivity({
+      projectId,
+      actorId: req.user!.id,
+      type: 'card.moved',
+      summary: card.sectionId === to.id
+        ? `reordered "${card.title}" in ${to.title}`
+        : `moved "${card.title}" from ${card.section.title} to ${to.title}`,
+      cardId,
+      sectionId: to.id,
+      before: { section: card.section.title, sectionId: card.sectionId, position: card.position },
+      after: { section: to.title, sectionId: to.id, position: cardIds.indexOf(cardId) },
+    });
+    await recordTransitions([{ projectId, cardId, fromSectionId: card.sectionId, toSectionId: to.id, actorId: req.user!.id }]);
+    const undoId = rememberUndo(projectId, req.user!.id, 'editor', `move "${card.title}"`, {
+      type: 'card.moved',
+      cardId,
+      sectionId: card.sectionId,
+      index: fromIndex,
     });
+    res.json({ ...movedCard, undoId });
   } catch (e) {
     console.error(e);
     res.status(404).json({ message: 'Card not found' });
   }
 });
 
+const undoSchema = z.object({ undoId: z.string().min(1).optional() });
+
+// Reverses one of the caller's recent operations (see undo.ts); without an id, the latest one
+router.post('/projects/:projectId/undo', requireRole('editor'), async (req: AuthReq, res) => {
+  const { projectId } = req.params;
+  const parsed = undoSchema.safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json(parsed.error);
+
+  try {
+    const entry = takeUndo(projectId, req.user!.id, parsed.data.undoId);
+    if (!entry) return res.status(410).json({ message: 'Nothing to undo, or the undo window has passed' });
+    if (!hasRole(req.member!.role, entry.role)) {
+      return res.status(403).json({ message: `Undoing this requires the ${entry.role} role` });
+    }
+
+    // Parts changed by someone since (restored, purged, moved on) are left alone
+    const op = entry.operation;
+    let reverted = 0;
+    switch (op.type) {
+      case 'cards.archived': {
+        // Cards whose section went to the archive meanwhile stay with it rather than come back hidden
+        const where = { id: { in: op.cardIds }, archivedAt: { not: null }, section: { projectId, archivedAt: null } };
+        const overLimit = await wipLimitsError(countBySection(await prisma.card.findMany({ where, select: { sectionId: true } })));
+        if (overLimit) return res.status(409).json({ message: overLimit });
+        const { count } = await prisma.card.updateMany({ where, data: { archivedAt: null } });
+        reverted = count;
+        break;
+      }
+      case 'card.moved': {
+        const card = await prisma.card.findFirst({
+          where: { id: op.cardId, archivedAt: null, section: { projectId, archivedAt: null } },
+        });
+        const from = await findSectionById(projectId, op.sectionId);
+        if (card && from) {
+          const overLimit = card.sectionId === from.id ? null : await wipLimitError(from);
+          if (overLimit) return res.status(409).json({ message: overLimit });
+          await placeCard(op.cardId, from.id, { index: op.index });
+          await recordTransitions([
+            { projectId, cardId: card.id, fromSectionId: card.sectionId, toSectionId: from.id, actorId: req.user!.id },
+          ]);
+          reverted = 1;
+        }
+        break;
+      }
+      case 'sections.archived': {
+        const returning = await prisma.card.findMany({
+          where: { id: { in: op.cards.map(c => c.id) }, sectionId: op.targetSectionId, archivedAt: null },
+          select: { id: true },
+        });
+        const returningIds = new Set(returning.map(c => c.id));
+        const overLimit = await wipLimitsError(countBySection(op.cards.filter(c => returningIds.has(c.id))));
+        if (overLimit) return res.status(409).json({ message: overLimit });
+        const results = await prisma.$transaction([
+          prisma.section.updateMany({
+            where: { id: { in: op.sectionIds }, projectId, archivedAt: { not: null } },
+            data: { archivedAt: null },
+          }),
+          // Only cards still in the section they were moved to go back
+          ...op.cards.map(c =>
+            prisma.card.updateMany({
+              where: { id: c.id, sectionId: op.targetSectionId, archivedAt: null },
+              data: { sectionId: c.sectionId, position: c.position },
+            })
+          ),
+        ]);
+        reverted = results.reduce((n, r) => n + r.count, 0);
+        // results[0] is the sections; the rest line up with op.cards
+        await recordTransitions(
+          op.cards
+            .filter((_, i) => results[i + 1].count > 0)
+            .map(c => ({ projectId, cardId: c.id, fromSectionId: op.targetSectionId, toSectionId: c.sectionId, actorId: req.user!.id }))
+        );
+        break;
+      }
+    }
+    if (!reverted) return res.status(409).json({ message: 'The board has changed since; there is nothing left to undo' });
+
+    publish(projectId, { type: 'board.invalidated' });
+    await recordActivity({
+      projectId,
+      actorId: req.user!.id,
+      type: 'undo',
+      summary: `undid: ${entry.summary}`,
+      before: op,
+    });
+    res.json({ ok: true, summary: entry.summary });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to undo' });
+  }
+});
+
 // Comments
 const commentSchema = z.object({ text: z.string().min(1) });
 
-router.get('/projects/:projectId/cards/:cardId/comments', async (req, res) => {
+router.get('/projects/:projectId/cards/:cardId/comments', requireRole('viewer'), async (req, res) => {
   const { projectId, cardId } = req.params;
   try {
     // ensure card belongs to project
@@ -456,13 +1123,13 @@ router.get('/projects/:projectId/cards/:cardId/comments', async (req, res) => {
   }
 });
 
-router.post('/projects/:projectId/cards/:cardId/comments', authMiddleware, async (req: AuthReq, res) => {
+router.post('/projects/:projectId/cards/:cardId/comments', requireRole('editor'), async (req: AuthReq, res) => {
   const { projectId, cardId } = req.params;
   const parsed = commentSchema.safeParse(req.body);
   if (!parsed.success) return res.status(400).json(parsed.error);
 
   try {
-    const card = await prisma.card.findFirst({ where: { id: cardId, section: { projectId } } });
+    const card = await prisma.card.findFirst({ where: { id: cardId, archivedAt: null, section: { projectId, archivedAt: null } } });
     if (!card) return res.status(404).json({ message: 'Card not found' });
 
     const userId = req.user!.id;
@@ -478,12 +1145,22 @@ router.post('/projects/:projectId/cards/:cardId/comments', authMiddleware, async
       where: { id: userId },
       select: { id: true, name: true, email: true }
     });
-    res.status(201).json({
+    const comment = {
       id: created.id,
       text: created.text,
       createdAt: created.createdAt.toISOString(),
       author,
+    };
+    publish(projectId, { type: 'comment.created', cardId: card.id, comment });
+    await recordActivity({
+      projectId,
+      actorId: userId,
+      type: 'comment.created',
+      summary: `commented on "${card.title}"`,
+      cardId: card.id,
+      after: { text: created.text },
     });
+    res.status(201).json(comment);
   } catch (e) {
     console.error(e);
     res.status(500).json({ message: 'Failed to create comment' });
@@ -495,7 +1172,7 @@ router.post('/projects/:projectId/cards/:cardId/comments', authMiddleware, async
  */
 const commentUpdateSchema = z.object({ text: z.string().min(1) });
 
-router.put('/projects/:projectId/comments/:commentId', authMiddleware, async (req: AuthReq, res) => {
+router.put('/projects/:projectId/comments/:commentId', requireRole('editor'), async (req: AuthReq, res) => {
   const { commentId, projectId } = req.params;
   const parsed = commentUpdateSchema.safeParse(req.body);
   if (!parsed.success) return res.status(400).json(parsed.error);
@@ -505,7 +1182,8 @@ router.put('/projects/:projectId/comments/:commentId', authMiddleware, async (re
       where: { id: commentId },
       include: { card: { include: { section: true } } } as any,
     }) as any;
-    if (!comment || comment.card.section.projectId !== projectId) {
+    // Comments of archived cards stay as they are until the card is restored
+    if (!comment || comment.card.section.projectId !== projectId || comment.card.archivedAt || comment.card.section.archivedAt) {
       return res.status(404).json({ message: 'Comment not found' });
     }
     if (comment.authorId !== req.user!.id) {
@@ -515,31 +1193,52 @@ router.put('/projects/:projectId/comments/:commentId', authMiddleware, async (re
       where: { id: commentId },
       data: { text: parsed.data.text },
     });
-    res.json({
+    const updatedComment = {
       id: updated.id,
       text: updated.text,
       createdAt: updated.createdAt.toISOString(),
+    };
+    publish(projectId, { type: 'comment.updated', cardId: updated.cardId, comment: updatedComment });
+    await recordActivity({
+      projectId,
+      actorId: req.user!.id,
+      type: 'comment.updated',
+      summary: `edited a comment on "${comment.card.title}"`,
+      cardId: updated.cardId,
+      before: { text: comment.text },
+      after: { text: updated.text },
     });
+    res.json(updatedComment);
   } catch (e) {
     console.error(e);
     res.status(500).json({ message: 'Failed to update comment' });
   }
 });
 
-router.delete('/projects/:projectId/comments/:commentId', authMiddleware, async (req: AuthReq, res) => {
+router.delete('/projects/:projectId/comments/:commentId', requireRole('editor'), async (req: AuthReq, res) => {
   const { commentId, projectId } = req.params;
   try {
     const comment = await prisma.comment.findUnique({
       where: { id: commentId },
       include: { card: { include: { section: true } } } as any,
     }) as any;
-    if (!comment || comment.card.section.projectId !== projectId) {
+    // Comments of archived cards stay as they are until the card is restored
+    if (!comment || comment.card.section.projectId !== projectId || comment.card.archivedAt || comment.card.section.archivedAt) {
       return res.status(404).json({ message: 'Comment not found' });
     }
     if (comment.authorId !== req.user!.id) {
       return res.status(403).json({ message: 'Forbidden' });
     }
     await prisma.comment.delete({ where: { id: commentId } });
+    publish(projectId, { type: 'comment.deleted', cardId: comment.cardId, commentId });
+    await recordActivity({
+      projectId,
+      actorId: req.user!.id,
+      type: 'comment.deleted',
+      summary: `deleted a comment on "${comment.card.title}"`,
+      cardId: comment.cardId,
+      before: { text: comment.text },
+    });
     res.json({ ok: true });
   } catch (e) {
     console.error(e);
@@ -552,14 +1251,21 @@ router.delete('/projects/:projectId/comments/:commentId', authMiddleware, async
  */
 const assigneeSchema = z.object({ userId: z.string().min(1) });
 
-router.post('/projects/:projectId/cards/:cardId/assignees', async (req, res) => {
+router.post('/projects/:projectId/cards/:cardId/assignees', requireRole('editor'), async (req: AuthReq, res) => {
   const { projectId, cardId } = req.params;
   const parsed = assigneeSchema.safeParse(req.body);
   if (!parsed.success) return res.status(400).json(parsed.error);
   try {
-    const card = await prisma.card.findFirst({ where: { id: cardId, section: { projectId } } });
+    const card = await prisma.card.findFirst({ where: { id: cardId, archivedAt: null, section: { projectId, archivedAt: null } } });
     if (!card) return res.status(404).json({ message: 'Card not found' });
 
+    // Only board members can be assigned
+    const member = await prisma.projectMember.findUnique({
+      where: { projectId_userId: { projectId, userId: parsed.data.userId } },
+      include: { user: { select: { id: true, name: true, email: true } } },
+    });
+    if (!member) return res.status(400).json({ message: 'User is not a member of this board' });
+
     await prisma.card.update({
       where: { id: cardId },
       data: { assignees: { connect: { id: parsed.data.userId } } } as any,
@@ -570,6 +1276,15 @@ router.post('/projects/:projectId/cards/:cardId/assignees', async (req, res) =>
       include: { assignees: { select: { id: true, name: true, email: true } } } as any,
     });
 
+    publish(projectId, { type: 'assignees.updated', cardId, assignees: updated?.assignees ?? [] });
+    await recordActivity({
+      projectId,
+      actorId: req.user!.id,
+      type: 'card.assigned',
+      summary: `assigned ${member.user.name} to "${card.title}"`,
+      cardId,
+      after: { assignee: member.user },
+    });
     res.status(201).json({ assignees: updated?.assignees ?? [] });
   } catch (e) {
     console.error(e);
@@ -577,11 +1292,12 @@ router.post('/projects/:projectId/cards/:cardId/assignees', async (req, res) =>
   }
 });
 
-router.delete('/projects/:projectId/cards/:cardId/assignees/:userId', async (req, res) => {
+router.delete('/projects/:projectId/cards/:cardId/assignees/:userId', requireRole('editor'), async (req: AuthReq, res) => {
   const { projectId, cardId, userId } = req.params;
   try {
-    const card = await prisma.card.findFirst({ where: { id: cardId, section: { projectId } } });
+    const card = await prisma.card.findFirst({ where: { id: cardId, archivedAt: null, section: { projectId, archivedAt: null } } });
     if (!card) return res.status(404).json({ message: 'Card not found' });
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true, name: true, email: true } });
 
     await prisma.card.update({
       where: { id: cardId },
@@ -593,6 +1309,17 @@ router.delete('/projects/:projectId/cards/:cardId/assignees/:userId', async (req
       include: { assignees: { select: { id: true, name: true, email: true } } } as any,
     });
 
+    publish(projectId, { type: 'assignees.updated', cardId, assignees: updated?.assignees ?? [] });
+    if (user) {
+      await recordActivity({
+        projectId,
+        actorId: req.user!.id,
+        type: 'card.unassigned',
+        summary: `unassigned ${user.name} from "${card.title}"`,
+        cardId,
+        before: { assignee: user },
+      });
+    }
     res.json({ assignees: updated?.assignees ?? [] });
   } catch (e) {
     console.error(e);
@@ -607,46 +1334,42 @@ const bulkSchema = z.object({
   priority: z.enum(['low', 'normal', 'high'])
 });
 
-router.post('/projects/:projectId/cards/bulk-delete', async (req, res) => {
+// Archives every live card of the given priority, in one section or on the whole board
+router.post('/projects/:projectId/cards/bulk-delete', requireRole('owner'), async (req: AuthReq, res) => {
   const { projectId } = req.params;
   const parsed = bulkSchema.safeParse(req.body);
   if (!parsed.success) return res.status(400).json(parsed.error);
 
   try {
-    let count = 0;
+    const where: Prisma.CardWhereInput = { archivedAt: null, priority: parsed.data.priority, section: { projectId, archivedAt: null } };
     if (parsed.data.scope === 'section') {
       if (!parsed.data.sectionId) return res.status(400).json({ message: 'sectionId required for section scope' });
-      const section = await prisma.section.findFirst({ where: { id: parsed.data.sectionId, projectId } });
+      const section = await findSectionById(projectId, parsed.data.sectionId);
       if (!section) return res.status(404).json({ message: 'Section not found' });
+      where.sectionId = section.id;
+    }
 
-      const toDelete = await prisma.card.findMany({
-        where: { sectionId: section.id, priority: parsed.data.priority },
-        select: { id: true },
+    const archivedCards = await prisma.card.findMany({ where, select: { id: true, title: true } });
+    const archivedIds = archivedCards.map(c => c.id);
+    if (archivedIds.length) {
+      await prisma.card.updateMany({ where: { id: { in: archivedIds } }, data: { archivedAt: new Date() } });
+      publish(projectId, { type: 'cards.deleted', cardIds: archivedIds });
+      await recordActivity({
+        projectId,
+        actorId: req.user!.id,
+        type: 'cards.bulk-archived',
+        summary: `archived ${archivedIds.length} ${parsed.data.priority} priority card(s)`,
+        sectionId: parsed.data.scope === 'section' ? parsed.data.sectionId : undefined,
+        before: { cards: archivedCards },
       });
-      const ids = toDelete.map(c => c.id);
-      if (ids.length) {
-        await prisma.$transaction([
-          prisma.comment.deleteMany({ where: { cardId: { in: ids } } }),
-          prisma.card.deleteMany({ where: { id: { in: ids } } }),
-        ]);
-      }
-      count = ids.length;
-    } else {
-      // scope === 'all' across project
-      const toDelete = await prisma.card.findMany({
-        where: { section: { projectId }, priority: parsed.data.priority },
-        select: { id: true },
-      });
-      const ids = toDelete.map(c => c.id);
-      if (ids.length) {
-        await prisma.$transaction([
-          prisma.comment.deleteMany({ where: { cardId: { in: ids } } }),
-          prisma.card.deleteMany({ where: { id: { in: ids } } }),
-        ]);
-      }
-      count = ids.length;
     }
-    res.json({ deleted: count });
+    const undoId = archivedIds.length
+      ? rememberUndo(projectId, req.user!.id, 'owner', `archive ${archivedIds.length} ${parsed.data.priority} priority card(s)`, {
+          type: 'cards.archived',
+          cardIds: archivedIds,
+        })
+      : undefined;
+    res.json({ deleted: archivedIds.length, archived: true, undoId });
   } catch (e) {
     console.error(e);
     res.status(500).json({ message: 'Failed bulk delete' });
@@ -0,0 +1,169 @@
+import { Router } from 'express';
+
+import { prisma } from '../db';
+import { AuthReq, requireRole } from '../auth';
+import { publish } from '../realtime';
+import { recordActivity } from '../activity';
+import { removeStoredFiles, storedFilesOf } from './attachments';
+
+/**
+ * The board's archive: cards and sections removed from the board by delete/clear actions.
+ * Items are restored onto the board or permanently deleted from here; nothing else hard-deletes them.
+ * Mounted behind authMiddleware by the api router.
+ */
+export const router = Router();
+
+// Hard-deletes cards with their comments and attachment files
+export const purgeCards = async (cardIds: string[]) => {
+  if (!cardIds.length) return;
+  const files = await storedFilesOf(cardIds);
+  await prisma.$transaction([
+    prisma.comment.deleteMany({ where: { cardId: { in: cardIds } } }),
+    prisma.card.deleteMany({ where: { id: { in: cardIds } } }),
+  ]);
+  await removeStoredFiles(files);
+};
+
+router.get('/projects/:projectId/archive', requireRole('viewer'), async (req, res) => {
+  const { projectId } = req.params;
+  try {
+    const sections = await prisma.section.findMany({
+      where: { projectId, archivedAt: { not: null } },
+      orderBy: { archivedAt: 'desc' },
+      include: { _count: { select: { cards: true } } },
+    });
+    // Cards of archived sections are listed with their section, not one by one
+    const cards = await prisma.card.findMany({
+      where: { archivedAt: { not: null }, section: { projectId, archivedAt: null } },
+      orderBy: { archivedAt: 'desc' },
+      include: { section: { select: { title: true } } },
+    });
+
+    res.json({
+      sections: sections.map(s => ({
+        id: s.id,
+        title: s.title,
+        archivedAt: s.archivedAt!.toISOString(),
+        cardCount: s._count.cards,
+      })),
+      cards: cards.map(c => ({
+        id: c.id,
+        title: c.title,
+        priority: c.priority,
+        sectionId: c.sectionId,
+        sectionTitle: c.section.title,
+        archivedAt: c.archivedAt!.toISOString(),
+      })),
+    });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to load archive' });
+  }
+});
+
+// Back to the end of its section
+router.post('/projects/:projectId/archive/cards/:cardId/restore', requireRole('editor'), async (req: AuthReq, res) => {
+  const { projectId, cardId } = req.params;
+  try {
+    const card = await prisma.card.findFirst({
+      where: { id: cardId, archivedAt: { not: null }, section: { projectId, archivedAt: null } },
+      include: { section: true },
+    });
+    if (!card) return res.status(404).json({ message: 'Archived card not found' });
+
+    const last = await prisma.card.aggregate({ where: { sectionId: card.sectionId, archivedAt: null }, _max: { position: true } });
+    await prisma.card.update({
+      where: { id: cardId },
+      data: { archivedAt: null, position: (last._max.position ?? -1) + 1 },
+    });
+
+    // Restored cards need the full board shape (comments, labels, progress...): clients reload
+    publish(projectId, { type: 'board.invalidated' });
+    await recordActivity({
+      projectId,
+      actorId: req.user!.id,
+      type: 'card.restored',
+      summary: `restored card "${card.title}" to ${card.section.title}`,
+      cardId,
+      sectionId: card.sectionId,
+    });
+    res.json({ ok: true });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to restore card' });
+  }
+});
+
+// Back as the right-most column, with the cards it had when archived
+router.post('/projects/:projectId/archive/sections/:sectionId/restore', requireRole('owner'), async (req: AuthReq, res) => {
+  const { projectId, sectionId } = req.params;
+  try {
+    const section = await prisma.section.findFirst({ where: { id: sectionId, projectId, archivedAt: { not: null } } });
+    if (!section) return res.status(404).json({ message: 'Archived section not found' });
+
+    const last = await prisma.section.aggregate({ where: { projectId, archivedAt: null }, _max: { position: true } });
+    await prisma.section.update({
+      where: { id: sectionId },
+      data: { archivedAt: null, position: (last._max.position ?? -1) + 1 },
+    });
+
+    publish(projectId, { type: 'board.invalidated' });
+    await recordActivity({
+      projectId,
+      actorId: req.user!.id,
+      type: 'section.restored',
+      summary: `restored section "${section.title}"`,
+      sectionId,
+    });
+    res.json({ ok: true });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to restore section' });
+  }
+});
+
+router.delete('/projects/:projectId/archive/cards/:cardId', requireRole('owner'), async (req: AuthReq, res) => {
+  const { projectId, cardId } = req.params;
+  try {
+    const card = await prisma.card.findFirst({
+      where: { id: cardId, archivedAt: { not: null }, section: { projectId } },
+    });
+    if (!card) return res.status(404).json({ message: 'Archived card not found' });
+
+    await purgeCards([cardId]);
+    await recordActivity({
+      projectId,
+      actorId: req.user!.id,
+      type: 'card.deleted',
+      summary: `permanently deleted card "${card.title}"`,
+      before: { title: card.title, description: card.description, priority: card.priority, executor: card.executor },
+    });
+    res.json({ ok: true });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to delete card' });
+  }
+});
+
+router.delete('/projects/:projectId/archive/sections/:sectionId', requireRole('owner'), async (req: AuthReq, res) => {
+  const { projectId, sectionId } = req.params;
+  try {
+    const section = await prisma.section.findFirst({ where: { id: sectionId, projectId, archivedAt: { not: null } } });
+    if (!section) return res.status(404).json({ message: 'Archived section not found' });
+
+    const cards = await prisma.card.findMany({ where: { sectionId }, select: { id: true, title: true } });
+    await purgeCards(cards.map(c => c.id));
+    await prisma.section.delete({ where: { id: sectionId } });
+    await recordActivity({
+      projectId,
+      actorId: req.user!.id,
+      type: 'section.deleted',
+      summary: `permanently deleted section "${section.title}" and its ${cards.length} card(s)`,
+      before: { title: section.title, cards },
+    });
+    res.json({ ok: true });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to delete section' });
+  }
+});
@@ -0,0 +1,244 @@
+import { NextFunction, Response, Router } from 'express';
+import { randomUUID } from 'crypto';
+import { mkdirSync } from 'fs';
+import { unlink } from 'fs/promises';
+import path from 'path';
+import multer from 'multer';
+import { Prisma } from '@prisma/client';
+
+import { prisma } from '../db';
+import { AuthReq, requireRole } from '../auth';
+import { publish } from '../realtime';
+import { recordActivity } from '../activity';
+
+/**
+ * Card attachments stored on local disk.
+ * UPLOAD_DIR (default ./uploads), UPLOAD_MAX_BYTES (default 10 MB) and UPLOAD_ALLOWED_TYPES
+ * (comma-separated MIME types, `image/*` style wildcards allowed) configure the storage.
+ * Mounted behind authMiddleware by the api router.
+ */
+export const router = Router();
+
+// SVG is left out on purpose: it can carry scripts when opened inline
+const DEFAULT_ALLOWED_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'text/plain',
+  'text/csv',
+  'application/json',
+  'application/zip',
+  'application/x-zip-compressed',
+];
+
+// Read on use: dotenv is loaded after the routers are imported
+const uploadDir = () => path.resolve(process.env.UPLOAD_DIR || 'uploads');
+const maxBytes = () => Number(process.env.UPLOAD_MAX_BYTES) || 10 * 1024 * 1024;
+const allowedTypes = () =>
+  process.env.UPLOAD_ALLOWED_TYPES?.split(',').map(t => t.trim()).filter(Boolean) ?? DEFAULT_ALLOWED_TYPES;
+
+const isAllowedType = (mimeType: string) =>
+  allowedTypes().some(t => (t.endsWith('/*') ? mimeType.startsWith(t.slice(0, -1)) : t === mimeType));
+
+const storage = multer.diskStorage({
+  destination: (_req, _file, cb) => {
+    const dir = uploadDir();
+    mkdirSync(dir, { recursive: true });
+    cb(null, dir);
+  },
+  // Random names on disk; the original name only lives in the database
+  filename: (_req, file, cb) => {
+    const ext = path.extname(file.originalname).toLowerCase().replace(/[^.a-z0-9]/g, '');
+    cb(null, `${randomUUID()}${ext}`);
+  },
+});
+
+class UnsupportedTypeError extends Error {}
+
+// Single file in the `file` field; limit errors become 413/415 responses
+const receiveFile = (req: AuthReq, res: Response, next: NextFunction) => {
+  multer({
+    storage,
+    limits: { fileSize: maxBytes(), files: 1 },
+    defParamCharset: 'utf8',
+    fileFilter: (_req, file, cb) => {
+      if (isAllowedType(file.mimetype)) cb(null, true);
+      else cb(new UnsupportedTypeError(`Files of type ${file.mimetype} are not allowed`));
+    },
+  }).single('file')(req, res, (err?: Error & { code?: string }) => {
+    if (!err) return next();
+    if (err instanceof multer.MulterError && err.code === 'LIMIT_FILE_SIZE') {
+      return res.status(413).json({ message: `File is larger than ${Math.round(maxBytes() / 1024 / 1024)} MB` });
+    }
+    if (err instanceof UnsupportedTypeError) return res.status(415).json({ message: err.message });
+    if (err instanceof multer.MulterError) return res.status(400).json({ message: err.message });
+    next(err);
+  });
+};
+
+const removeStoredFile = (storedName: string) =>
+  unlink(path.join(uploadDir(), storedName)).catch(e => console.error('Failed to remove attachment file', e));
+
+/**
+ * Stored file names of the given cards' attachments; read them before deleting the cards
+ * and pass them to removeStoredFiles once the rows are gone.
+ */
+export const storedFilesOf = async (cardIds: string[]) => {
+  if (!cardIds.length) return [];
+  const rows = await prisma.attachment.findMany({ where: { cardId: { in: cardIds } }, select: { storedName: true } });
+  return rows.map(r => r.storedName);
+};
+
+export const removeStoredFiles = async (storedNames: string[]) => {
+  await Promise.all(storedNames.map(removeStoredFile));
+};
+
+/**
+ * Attachment count per card, for the board payload
+ */
+export const attachmentCounts = async (cardIds: string[]) => {
+  const groups = await prisma.attachment.groupBy({
+    by: ['cardId'],
+    where: { cardId: { in: cardIds } },
+    _count: { _all: true },
+  });
+  return new Map(groups.map(g => [g.cardId, g._count._all]));
+};
+
+const attachmentInclude = { uploader: { select: { id: true, name: true, email: true } } } as const;
+
+type AttachmentWithUploader = Prisma.AttachmentGetPayload<{ include: typeof attachmentInclude }>;
+
+const findAttachment = (projectId: string, attachmentId: string) =>
+  prisma.attachment.findFirst({
+    where: { id: attachmentId, card: { section: { projectId } } },
+    include: attachmentInclude,
+  });
+
+const toAttachment = (a: AttachmentWithUploader) => ({
+  id: a.id,
+  cardId: a.cardId,
+  filename: a.filename,
+  mimeType: a.mimeType,
+  size: a.size,
+  createdAt: a.createdAt.toISOString(),
+  uploader: a.uploader,
+});
+
+const publishCount = async (projectId: string, cardId: string) => {
+  const count = await prisma.attachment.count({ where: { cardId } });
+  publish(projectId, { type: 'attachments.updated', cardId, count });
+};
+
+router.get('/projects/:projectId/cards/:cardId/attachments', requireRole('viewer'), async (req, res) => {
+  const { projectId, cardId } = req.params;
+  try {
+    const card = await prisma.card.findFirst({ where: { id: cardId, section: { projectId } } });
+    if (!card) return res.status(404).json({ message: 'Card not found' });
+
+    const attachments = await prisma.attachment.findMany({
+      where: { cardId },
+      orderBy: { createdAt: 'asc' },
+      include: attachmentInclude,
+    });
+    res.json(attachments.map(toAttachment));
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to list attachments' });
+  }
+});
+
+router.post('/projects/:projectId/cards/:cardId/attachments', requireRole('editor'), receiveFile, async (req: AuthReq, res) => {
+  const { projectId, cardId } = req.params;
+  const file = req.file;
+  if (!file) return res.status(400).json({ message: 'No file uploaded (expected multipart field "file")' });
+  try {
+    const card = await prisma.card.findFirst({ where: { id: cardId, archivedAt: null, section: { projectId, archivedAt: null } } });
+    if (!card) {
+      await removeStoredFile(file.filename);
+      return res.status(404).json({ message: 'Card not found' });
+    }
+
+    const created = await prisma.attachment.create({
+      data: {
+        cardId,
+        uploaderId: req.user!.id,
+        filename: file.originalname,
+        storedName: file.filename,
+        mimeType: file.mimetype,
+        size: file.size,
+      },
+      include: attachmentInclude,
+    });
+    await publishCount(projectId, cardId);
+    await recordActivity({
+      projectId,
+      actorId: req.user!.id,
+      type: 'attachment.added',
+      summary: `attached "${created.filename}" to "${card.title}"`,
+      cardId,
+      after: { filename: created.filename, size: created.size },
+    });
+    res.status(201).json(toAttachment(created));
+  } catch (e) {
+    console.error(e);
+    await removeStoredFile(file.filename);
+    res.status(500).json({ message: 'Failed to upload attachment' });
+  }
+});
+
+// ?inline=1 serves images for thumbnails; everything else downloads
+router.get('/projects/:projectId/attachments/:attachmentId/download', requireRole('viewer'), async (req, res) => {
+  const { projectId, attachmentId } = req.params;
+  try {
+    const attachment = await findAttachment(projectId, attachmentId);
+    if (!attachment) return res.status(404).json({ message: 'Attachment not found' });
+
+    const inline = req.query.inline === '1' && attachment.mimeType.startsWith('image/');
+    res.setHeader('Content-Type', attachment.mimeType);
+    res.setHeader(
+      'Content-Disposition',
+      `${inline ? 'inline' : 'attachment'}; filename*=UTF-8''${encodeURIComponent(attachment.filename)}`
+    );
+    res.sendFile(attachment.storedName, { root: uploadDir() }, err => {
+      if (err && !res.headersSent) res.status(404).json({ message: 'Attachment file is missing' });
+    });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to download attachment' });
+  }
+});
+
+// The uploader or a board owner may delete
+router.delete('/projects/:projectId/attachments/:attachmentId', requireRole('editor'), async (req: AuthReq, res) => {
+  const { projectId, attachmentId } = req.params;
+  try {
+    // Attachments of archived cards stay as they are until the card is restored
+    const attachment = await prisma.attachment.findFirst({
+      where: { id: attachmentId, card: { archivedAt: null, section: { projectId, archivedAt: null } } },
+      include: { card: { select: { title: true } } },
+    });
+    if (!attachment) return res.status(404).json({ message: 'Attachment not found' });
+    if (attachment.uploaderId !== req.user!.id && req.member!.role !== 'owner') {
+      return res.status(403).json({ message: 'Only the uploader or a board owner can delete this attachment' });
+    }
+
+    await prisma.attachment.delete({ where: { id: attachmentId } });
+    await removeStoredFile(attachment.storedName);
+    await publishCount(projectId, attachment.cardId);
+    await recordActivity({
+      projectId,
+      actorId: req.user!.id,
+      type: 'attachment.deleted',
+      summary: `removed attachment "${attachment.filename}" from "${attachment.card.title}"`,
+      cardId: attachment.cardId,
+      before: { filename: attachment.filename, size: attachment.size },
+    });
+    res.json({ ok: true });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to delete attachment' });
+  }
+});
@@ -0,0 +1,332 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+
+import { prisma } from '../db';
+import { AuthReq, requireRole } from '../auth';
+import { publish } from '../realtime';
+import { recordActivity } from '../activity';
+
+/**
+ * Card checklists: several named lists per card, each with ordered, checkable items.
+ * Every change publishes the card's full checklists plus its progress for the board tiles.
+ * Mounted behind authMiddleware by the api router.
+ */
+export const router = Router();
+
+const base = '/projects/:projectId/cards/:cardId/checklists';
+
+const checklistInclude = { items: { orderBy: [{ position: 'asc' as const }, { createdAt: 'asc' as const }] } };
+
+type ChecklistWithItems = Prisma.ChecklistGetPayload<{ include: typeof checklistInclude }>;
+
+const toChecklist = (c: ChecklistWithItems) => ({
+  id: c.id,
+  title: c.title,
+  items: c.items.map(i => ({ id: i.id, text: i.text, done: i.done })),
+});
+
+const loadChecklists = (cardId: string) =>
+  prisma.checklist.findMany({
+    where: { cardId },
+    orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+    include: checklistInclude,
+  });
+
+/**
+ * Done/total item counts per card, for the board payload
+ */
+export const checklistProgress = async (cardIds: string[]) => {
+  const items = await prisma.checklistItem.findMany({
+    where: { checklist: { cardId: { in: cardIds } } },
+    select: { done: true, checklist: { select: { cardId: true } } },
+  });
+  const progress = new Map<string, { done: number; total: number }>();
+  for (const item of items) {
+    const entry = progress.get(item.checklist.cardId) ?? { done: 0, total: 0 };
+    entry.total += 1;
+    if (item.done) entry.done += 1;
+    progress.set(item.checklist.cardId, entry);
+  }
+  return progress;
+};
+
+// Sends the card's current checklists to every open board and returns them for the response
+const publishChecklists = async (projectId: string, cardId: string) => {
+  const checklists = (await loadChecklists(cardId)).map(toChecklist);
+  const items = checklists.flatMap(c => c.items);
+  const progress = { done: items.filter(i => i.done).length, total: items.length };
+  publish(projectId, { type: 'checklists.updated', cardId, checklists, progress });
+  return checklists;
+};
+
+// Checklists of archived cards (or of cards in archived sections) can be read but not changed
+const findCard = (projectId: string, cardId: string, { live = true } = {}) =>
+  prisma.card.findFirst({
+    where: live ? { id: cardId, archivedAt: null, section: { projectId, archivedAt: null } } : { id: cardId, section: { projectId } },
+    select: { id: true, title: true },
+  });
+
+const findChecklist = (cardId: string, checklistId: string) =>
+  prisma.checklist.findFirst({ where: { id: checklistId, cardId } });
+
+const findItem = (checklistId: string, itemId: string) =>
+  prisma.checklistItem.findFirst({ where: { id: itemId, checklistId } });
+
+router.get(base, requireRole('viewer'), async (req, res) => {
+  const { projectId, cardId } = req.params;
+  try {
+    const card = await findCard(projectId, cardId, { live: false });
+    if (!card) return res.status(404).json({ message: 'Card not found' });
+    res.json((await loadChecklists(cardId)).map(toChecklist));
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to load checklists' });
+  }
+});
+
+const titleSchema = z.object({ title: z.string().trim().min(1).max(100) });
+
+router.post(base, requireRole('editor'), async (req: AuthReq, res) => {
+  const { projectId, cardId } = req.params;
+  const parsed = titleSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  try {
+    const card = await findCard(projectId, cardId);
+    if (!card) return res.status(404).json({ message: 'Card not found' });
+
+    const last = await prisma.checklist.findFirst({ where: { cardId }, orderBy: { position: 'desc' } });
+    const created = await prisma.checklist.create({
+      data: { cardId, title: parsed.data.title, position: last ? last.position + 1 : 0 },
+      include: checklistInclude,
+    });
+    await publishChecklists(projectId, cardId);
+    await recordActivity({
+      projectId,
+      actorId: req.user!.id,
+      type: 'checklist.created',
+      summary: `added checklist "${created.title}" to "${card.title}"`,
+      cardId,
+      after: { title: created.title },
+    });
+    res.status(201).json(toChecklist(created));
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to create checklist' });
+  }
+});
+
+router.patch(`${base}/:checklistId`, requireRole('editor'), async (req: AuthReq, res) => {
+  const { projectId, cardId, checklistId } = req.params;
+  const parsed = titleSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  try {
+    const card = await findCard(projectId, cardId);
+    if (!card) return res.status(404).json({ message: 'Card not found' });
+    const checklist = await findChecklist(cardId, checklistId);
+    if (!checklist) return res.status(404).json({ message: 'Checklist not found' });
+
+    const updated = await prisma.checklist.update({
+      where: { id: checklistId },
+      data: { title: parsed.data.title },
+      include: checklistInclude,
+    });
+    await publishChecklists(projectId, cardId);
+    if (checklist.title !== updated.title) {
+      await recordActivity({
+        projectId,
+        actorId: req.user!.id,
+        type: 'checklist.renamed',
+        summary: `renamed checklist "${checklist.title}" to "${updated.title}" on "${card.title}"`,
+        cardId,
+        before: { title: checklist.title },
+        after: { title: updated.title },
+      });
+    }
+    res.json(toChecklist(updated));
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to rename checklist' });
+  }
+});
+
+router.delete(`${base}/:checklistId`, requireRole('editor'), async (req: AuthReq, res) => {
+  const { projectId, cardId, checklistId } = req.params;
+  try {
+    const card = await findCard(projectId, cardId);
+    if (!card) return res.status(404).json({ message: 'Card not found' });
+    const checklist = await prisma.checklist.findFirst({ where: { id: checklistId, cardId }, include: checklistInclude });
+    if (!checklist) return res.status(404).json({ message: 'Checklist not found' });
+
+    await prisma.checklist.delete({ where: { id: checklistId } });
+    await publishChecklists(projectId, cardId);
+    await recordActivity({
+      projectId,
+      actorId: req.user!.id,
+      type: 'checklist.deleted',
+      summary: `deleted checklist "${checklist.title}" from "${card.title}"`,
+      cardId,
+      before: toChecklist(checklist),
+    });
+    res.json({ ok: true });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to delete checklist' });
+  }
+});
+
+/**
+ * Items
+ */
+const itemSchema = z.object({ text: z.string().trim().min(1).max(500) });
+const itemUpdateSchema = z.object({
+  text: z.string().trim().min(1).max(500).optional(),
+  done: z.boolean().optional(),
+});
+const moveItemSchema = z.object({ index: z.number().int().min(0) });
+
+router.post(`${base}/:checklistId/items`, requireRole('editor'), async (req: AuthReq, res) => {
+  const { projectId, cardId, checklistId } = req.params;
+  const parsed = itemSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  try {
+    const card = await findCard(projectId, cardId);
+    if (!card) return res.status(404).json({ message: 'Card not found' });
+    const checklist = await findChecklist(cardId, checklistId);
+    if (!checklist) return res.status(404).json({ message: 'Checklist not found' });
+
+    const last = await prisma.checklistItem.findFirst({ where: { checklistId }, orderBy: { position: 'desc' } });
+    const created = await prisma.checklistItem.create({
+      data: { checklistId, text: parsed.data.text, position: last ? last.position + 1 : 0 },
+    });
+    await publishChecklists(projectId, cardId);
+    await recordActivity({
+      projectId,
+      actorId: req.user!.id,
+      type: 'checklist.item-added',
+      summary: `added "${created.text}" to checklist "${checklist.title}" on "${card.title}"`,
+      cardId,
+      after: { text: created.text },
+    });
+    res.status(201).json({ id: created.id, text: created.text, done: created.done });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to add checklist item' });
+  }
+});
+
+router.patch(`${base}/:checklistId/items/:itemId`, requireRole('editor'), async (req: AuthReq, res) => {
+  const { projectId, cardId, checklistId, itemId } = req.params;
+  const parsed = itemUpdateSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  try {
+    const card = await findCard(projectId, cardId);
+    if (!card) return res.status(404).json({ message: 'Card not found' });
+    const item = await findItem(checklistId, itemId);
+    if (!item || !(await findChecklist(cardId, checklistId))) {
+      return res.status(404).json({ message: 'Checklist item not found' });
+    }
+
+    const updated = await prisma.checklistItem.update({ where: { id: itemId }, data: parsed.data });
+    await publishChecklists(projectId, cardId);
+    if (item.done !== updated.done) {
+      await recordActivity({
+        projectId,
+        actorId: req.user!.id,
+        type: updated.done ? 'checklist.item-checked' : 'checklist.item-unchecked',
+        summary: `${updated.done ? 'completed' : 'reopened'} "${updated.text}" on "${card.title}"`,
+        cardId,
+        before: { done: item.done },
+        after: { done: updated.done },
+      });
+    }
+    if (item.text !== updated.text) {
+      await recordActivity({
+        projectId,
+        actorId: req.user!.id,
+        type: 'checklist.item-edited',
+        summary: `edited checklist item "${item.text}" on "${card.title}"`,
+        cardId,
+        before: { text: item.text },
+        after: { text: updated.text },
+      });
+    }
+    res.json({ id: updated.id, text: updated.text, done: updated.done });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to update checklist item' });
+  }
+});
+
+router.delete(`${base}/:checklistId/items/:itemId`, requireRole('editor'), async (req: AuthReq, res) => {
+  const { projectId, cardId, checklistId, itemId } = req.params;
+  try {
+    const card = await findCard(projectId, cardId);
+    if (!card) return res.status(404).json({ message: 'Card not found' });
+    const item = await findItem(checklistId, itemId);
+    if (!item || !(await findChecklist(cardId, checklistId))) {
+      return res.status(404).json({ message: 'Checklist item not found' });
+    }
+
+    await prisma.checklistItem.delete({ where: { id: itemId } });
+    await publishChecklists(projectId, cardId);
+    await recordActivity({
+      projectId,
+      actorId: req.user!.id,
+      type: 'checklist.item-deleted',
+      summary: `removed checklist item "${item.text}" from "${card.title}"`,
+      cardId,
+      before: { text: item.text, done: item.done },
+    });
+    res.json({ ok: true });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to delete checklist item' });
+  }
+});
+
+// `index` counts the other items of the checklist, like card moves
+router.post(`${base}/:checklistId/items/:itemId/move`, requireRole('editor'), async (req: AuthReq, res) => {
+  const { projectId, cardId, checklistId, itemId } = req.params;
+  const parsed = moveItemSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  try {
+    const card = await findCard(projectId, cardId);
+    if (!card) return res.status(404).json({ message: 'Card not found' });
+    const item = await findItem(checklistId, itemId);
+    if (!item || !(await findChecklist(cardId, checklistId))) {
+      return res.status(404).json({ message: 'Checklist item not found' });
+    }
+
+    const others = await prisma.checklistItem.findMany({
+      where: { checklistId, id: { not: itemId } },
+      orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+      select: { id: true, position: true },
+    });
+    const ids = others.map(i => i.id);
+    ids.splice(Math.min(parsed.data.index, ids.length), 0, itemId);
+
+    const current = new Map([...others, item].map(i => [i.id, i.position]));
+    await prisma.$transaction(
+      ids
+        .map((id, position) => ({ id, position }))
+        .filter(({ id, position }) => current.get(id) !== position)
+        .map(({ id, position }) => prisma.checklistItem.update({ where: { id }, data: { position } }))
+    );
+
+    await publishChecklists(projectId, cardId);
+    await recordActivity({
+      projectId,
+      actorId: req.user!.id,
+      type: 'checklist.item-moved',
+      summary: `reordered checklist item "${item.text}" on "${card.title}"`,
+      cardId,
+      before: { position: item.position },
+      after: { position: ids.indexOf(itemId) },
+    });
+    res.json({ itemIds: ids });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to move checklist item' });
+  }
+});
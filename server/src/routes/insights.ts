@@ -0,0 +1,235 @@
+import { Router } from 'express';
+import { z } from 'zod';
+
+import { prisma } from '../db';
+import { requireRole } from '../auth';
+
+/**
+ * Board metrics computed from the card transition history (see transitions.ts).
+ * A card is "done" when it sits in the board's last live section; it was completed when it last
+ * entered that section, and its cycle time runs from its creation to then. Archived cards still
+ * count as completed work, but leave the cumulative flow from their archive date on.
+ * Days and weeks are UTC; weeks start on Monday.
+ * Mounted behind authMiddleware by the api router.
+ */
+export const router = Router();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+type HistoryCard = {
+  id: string;
+  title: string;
+  sectionId: string;
+  createdAt: Date;
+  archivedAt: Date | null;
+};
+
+type HistoryTransition = {
+  cardId: string;
+  toSectionId: string;
+  createdAt: Date;
+};
+
+type History = {
+  // Live sections in board order
+  sections: { id: string; title: string }[];
+  cards: HistoryCard[];
+  // Per card, oldest first
+  transitions: Map<string, HistoryTransition[]>;
+};
+
+const loadHistory = async (projectId: string): Promise<History> => {
+  const [sections, cards, rows] = await Promise.all([
+    prisma.section.findMany({
+      where: { projectId, archivedAt: null },
+      orderBy: [{ position: 'asc' }, { id: 'asc' }],
+      select: { id: true, title: true },
+    }),
+    prisma.card.findMany({
+      where: { section: { projectId } },
+      select: { id: true, title: true, sectionId: true, createdAt: true, archivedAt: true },
+    }),
+    prisma.cardTransition.findMany({
+      where: { projectId },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      select: { cardId: true, toSectionId: true, createdAt: true },
+    }),
+  ]);
+  const transitions = new Map<string, HistoryTransition[]>();
+  rows.forEach(t => transitions.set(t.cardId, [...(transitions.get(t.cardId) ?? []), t]));
+  return { sections, cards, transitions };
+};
+
+const startOfUtcDay = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+const startOfUtcWeek = (date: Date) => {
+  const day = startOfUtcDay(date);
+  return new Date(day.getTime() - ((day.getUTCDay() + 6) % 7) * DAY_MS);
+};
+
+const isoDay = (date: Date) => date.toISOString().slice(0, 10);
+
+// The section a card was in at `at`, or null when it did not exist yet or was archived by then
+const sectionAt = (card: HistoryCard, transitions: HistoryTransition[] | undefined, at: Date) => {
+  if (card.createdAt > at || (card.archivedAt && card.archivedAt <= at)) return null;
+  let sectionId: string | null = null;
+  for (const t of transitions ?? []) {
+    if (t.createdAt > at) break;
+    sectionId = t.toSectionId;
+  }
+  // Cards without any recorded entry predate the history: assume their current section
+  return sectionId ?? (transitions?.length ? null : card.sectionId);
+};
+
+/**
+ * Cards per live section at the end of each of the last `days` days, oldest first
+ */
+const cumulativeFlow = ({ sections, cards, transitions }: History, days: number, now = new Date()) => {
+  const today = startOfUtcDay(now);
+  const points = [];
+  for (let i = days - 1; i >= 0; i--) {
+    const day = new Date(today.getTime() - i * DAY_MS);
+    // End of that day, or now for today
+    const at = i === 0 ? now : new Date(day.getTime() + DAY_MS - 1);
+    const counts: Record<string, number> = Object.fromEntries(sections.map(s => [s.id, 0]));
+    cards.forEach(card => {
+      const sectionId = sectionAt(card, transitions.get(card.id), at);
+      if (sectionId && sectionId in counts) counts[sectionId]++;
+    });
+    points.push({ date: isoDay(day), counts });
+  }
+  return { sections, days: points };
+};
+
+/**
+ * Cards in the last section, with when they last entered it
+ */
+const completedCards = ({ sections, cards, transitions }: History) => {
+  const done = sections[sections.length - 1];
+  if (!done || sections.length < 2) return { section: done ?? null, cards: [] };
+  const completed = cards
+    .filter(c => c.sectionId === done.id)
+    .map(card => {
+      const entries = (transitions.get(card.id) ?? []).filter(t => t.toSectionId === done.id);
+      const completedAt = entries.length ? entries[entries.length - 1].createdAt : card.createdAt;
+      return { id: card.id, title: card.title, createdAt: card.createdAt, completedAt };
+    })
+    .sort((a, b) => a.completedAt.getTime() - b.completedAt.getTime());
+  return { section: done, cards: completed };
+};
+
+const median = (values: number[]) => {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const round1 = (value: number | null) => (value === null ? null : Math.round(value * 10) / 10);
+
+/**
+ * Hours from creation to completion for cards completed in the last `days` days
+ */
+const cycleTime = (history: History, days: number, now = new Date()) => {
+  const since = new Date(startOfUtcDay(now).getTime() - (days - 1) * DAY_MS);
+  const { section, cards } = completedCards(history);
+  const items = cards
+    .filter(c => c.completedAt >= since)
+    .map(c => ({
+      id: c.id,
+      title: c.title,
+      completedAt: c.completedAt.toISOString(),
+      hours: round1((c.completedAt.getTime() - c.createdAt.getTime()) / HOUR_MS),
+    }));
+  const hours = items.map(i => i.hours);
+  return {
+    section,
+    count: items.length,
+    averageHours: round1(hours.length ? hours.reduce((a, b) => a + b, 0) / hours.length : null),
+    medianHours: round1(median(hours)),
+    cards: items,
+  };
+};
+
+/**
+ * Cards completed per week over the last `weeks` weeks, oldest first
+ */
+const throughput = (history: History, weeks: number, now = new Date()) => {
+  const thisWeek = startOfUtcWeek(now);
+  const { section, cards } = completedCards(history);
+  const counts = new Map<string, number>();
+  for (let i = weeks - 1; i >= 0; i--) counts.set(isoDay(new Date(thisWeek.getTime() - i * 7 * DAY_MS)), 0);
+  cards.forEach(c => {
+    const week = isoDay(startOfUtcWeek(c.completedAt));
+    if (counts.has(week)) counts.set(week, counts.get(week)! + 1);
+  });
+  return { section, weeks: [...counts].map(([weekStart, count]) => ({ weekStart, count })) };
+};
+
+const daysSchema = z.object({ days: z.coerce.number().int().min(1).max(365).optional().default(30) });
+const weeksSchema = z.object({ weeks: z.coerce.number().int().min(1).max(104).optional().default(12) });
+
+router.get('/projects/:projectId/insights/flow', requireRole('viewer'), async (req, res) => {
+  const { projectId } = req.params;
+  const parsed = daysSchema.safeParse(req.query);
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  try {
+    res.json(cumulativeFlow(await loadHistory(projectId), parsed.data.days));
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to compute cumulative flow' });
+  }
+});
+
+router.get('/projects/:projectId/insights/cycle-time', requireRole('viewer'), async (req, res) => {
+  const { projectId } = req.params;
+  const parsed = daysSchema.safeParse(req.query);
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  try {
+    res.json(cycleTime(await loadHistory(projectId), parsed.data.days));
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to compute cycle time' });
+  }
+});
+
+router.get('/projects/:projectId/insights/throughput', requireRole('viewer'), async (req, res) => {
+  const { projectId } = req.params;
+  const parsed = weeksSchema.safeParse(req.query);
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  try {
+    res.json(throughput(await loadHistory(projectId), parsed.data.weeks));
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to compute throughput' });
+  }
+});
+
+// Live cards on the board by priority and by assignee; a card with two assignees counts for both
+router.get('/projects/:projectId/insights/distribution', requireRole('viewer'), async (req, res) => {
+  const { projectId } = req.params;
+  try {
+    const cards = await prisma.card.findMany({
+      where: { archivedAt: null, section: { projectId, archivedAt: null } },
+      select: { priority: true, assignees: { select: { id: true, name: true } } },
+    });
+    const priority = (['high', 'normal', 'low'] as const).map(p => ({ priority: p, count: cards.filter(c => c.priority === p).length }));
+    const people = new Map<string, { id: string | null; name: string; count: number }>();
+    cards.forEach(c => {
+      if (!c.assignees.length) {
+        const none = people.get('') ?? { id: null, name: 'Unassigned', count: 0 };
+        people.set('', { ...none, count: none.count + 1 });
+      }
+      c.assignees.forEach(a => {
+        const entry = people.get(a.id) ?? { id: a.id, name: a.name, count: 0 };
+        people.set(a.id, { ...entry, count: entry.count + 1 });
+      });
+    });
+    const assignee = [...people.values()].sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+    res.json({ total: cards.length, priority, assignee });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to compute distribution' });
+  }
+});
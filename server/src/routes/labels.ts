@@ -0,0 +1,119 @@
+import { Router } from 'express';
+import { z } from 'zod';
+
+import { prisma } from '../db';
+import { AuthReq, requireRole } from '../auth';
+import { publish } from '../realtime';
+import { recordActivity } from '../activity';
+
+/**
+ * Board labels: the project's palette of free-form card categories.
+ * Cards pick their labels through labelIds on card create/update.
+ * Mounted behind authMiddleware by the api router.
+ */
+export const router = Router();
+
+export const labelSelect = { id: true, name: true, color: true } as const;
+
+export const labelSchema = z.object({
+  name: z.string().trim().min(1).max(40),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Expected a hex colour like #22c55e'),
+});
+
+router.get('/projects/:projectId/labels', requireRole('viewer'), async (req, res) => {
+  const { projectId } = req.params;
+  try {
+    const labels = await prisma.label.findMany({
+      where: { projectId },
+      orderBy: { name: 'asc' },
+      select: labelSelect,
+    });
+    res.json(labels);
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to list labels' });
+  }
+});
+
+router.post('/projects/:projectId/labels', requireRole('editor'), async (req: AuthReq, res) => {
+  const { projectId } = req.params;
+  const parsed = labelSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  try {
+    const exists = await prisma.label.findUnique({ where: { projectId_name: { projectId, name: parsed.data.name } } });
+    if (exists) return res.status(409).json({ message: 'A label with this name already exists' });
+
+    const label = await prisma.label.create({
+      data: { projectId, name: parsed.data.name, color: parsed.data.color },
+      select: labelSelect,
+    });
+    publish(projectId, { type: 'label.created', label });
+    await recordActivity({
+      projectId,
+      actorId: req.user!.id,
+      type: 'label.created',
+      summary: `created label "${label.name}"`,
+      after: label,
+    });
+    res.status(201).json(label);
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to create label' });
+  }
+});
+
+router.patch('/projects/:projectId/labels/:labelId', requireRole('editor'), async (req: AuthReq, res) => {
+  const { projectId, labelId } = req.params;
+  const parsed = labelSchema.partial().safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  try {
+    const existing = await prisma.label.findFirst({ where: { id: labelId, projectId }, select: labelSelect });
+    if (!existing) return res.status(404).json({ message: 'Label not found' });
+    if (parsed.data.name && parsed.data.name !== existing.name) {
+      const taken = await prisma.label.findUnique({ where: { projectId_name: { projectId, name: parsed.data.name } } });
+      if (taken) return res.status(409).json({ message: 'A label with this name already exists' });
+    }
+
+    const label = await prisma.label.update({
+      where: { id: labelId },
+      data: parsed.data,
+      select: labelSelect,
+    });
+    publish(projectId, { type: 'label.updated', label });
+    await recordActivity({
+      projectId,
+      actorId: req.user!.id,
+      type: 'label.updated',
+      summary: existing.name === label.name ? `changed label "${label.name}"` : `renamed label "${existing.name}" to "${label.name}"`,
+      before: existing,
+      after: label,
+    });
+    res.json(label);
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to update label' });
+  }
+});
+
+// Removes the label from every card that carries it
+router.delete('/projects/:projectId/labels/:labelId', requireRole('editor'), async (req: AuthReq, res) => {
+  const { projectId, labelId } = req.params;
+  try {
+    const label = await prisma.label.findFirst({ where: { id: labelId, projectId }, select: labelSelect });
+    if (!label) return res.status(404).json({ message: 'Label not found' });
+
+    await prisma.label.delete({ where: { id: labelId } });
+    publish(projectId, { type: 'label.deleted', labelId });
+    await recordActivity({
+      projectId,
+      actorId: req.user!.id,
+      type: 'label.deleted',
+      summary: `deleted label "${label.name}"`,
+      before: label,
+    });
+    res.json({ ok: true });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to delete label' });
+  }
+});
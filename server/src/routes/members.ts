@@ -0,0 +1,304 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+
+import { prisma } from '../db';
+import { AuthReq, PROJECT_ROLES, requireRole } from '../auth';
+import { disconnectUser, publish } from '../realtime';
+import { recordActivity } from '../activity';
+
+/**
+ * Board membership: members, invitations and the invitee side (accept/decline).
+ * Mounted behind authMiddleware by the api router.
+ */
+export const router = Router();
+
+const userSelect = { id: true, name: true, email: true } as const;
+
+// Owners cannot leave a board without another owner
+const isLastOwner = async (projectId: string, userId: string) => {
+  const owners = await prisma.projectMember.findMany({ where: { projectId, role: 'owner' }, select: { userId: true } });
+  return owners.length === 1 && owners[0].userId === userId;
+};
+
+/**
+ * Members
+ */
+router.get('/projects/:projectId/members', requireRole('viewer'), async (req, res) => {
+  const { projectId } = req.params;
+  try {
+    const members = await prisma.projectMember.findMany({
+      where: { projectId },
+      orderBy: { createdAt: 'asc' },
+      include: { user: { select: userSelect } },
+    });
+    res.json(members.map(m => ({ ...m.user, role: m.role, joinedAt: m.createdAt.toISOString() })));
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to list members' });
+  }
+});
+
+const roleSchema = z.object({ role: z.enum(PROJECT_ROLES) });
+
+router.patch('/projects/:projectId/members/:userId', requireRole('owner'), async (req: AuthReq, res) => {
+  const { projectId, userId } = req.params;
+  const parsed = roleSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  try {
+    const member = await prisma.projectMember.findUnique({ where: { projectId_userId: { projectId, userId } } });
+    if (!member) return res.status(404).json({ message: 'Member not found' });
+    if (parsed.data.role !== 'owner' && (await isLastOwner(projectId, userId))) {
+      return res.status(409).json({ message: 'A board needs at least one owner' });
+    }
+
+    const updated = await prisma.projectMember.update({
+      where: { id: member.id },
+      data: { role: parsed.data.role },
+      include: { user: { select: userSelect } },
+    });
+    if (member.role !== updated.role) {
+      await recordActivity({
+        projectId,
+        actorId: req.user!.id,
+        type: 'member.role-changed',
+        summary: `changed ${updated.user.name}'s role from ${member.role} to ${updated.role}`,
+        before: { userId, role: member.role },
+        after: { userId, role: updated.role },
+      });
+    }
+    res.json({ ...updated.user, role: updated.role, joinedAt: updated.createdAt.toISOString() });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to change role' });
+  }
+});
+
+// Owners remove anyone; any member may remove themselves (leave the board)
+router.delete('/projects/:projectId/members/:userId', requireRole('viewer'), async (req: AuthReq, res) => {
+  const { projectId, userId } = req.params;
+  if (userId !== req.user!.id && req.member!.role !== 'owner') {
+    return res.status(403).json({ message: 'This action requires the owner role' });
+  }
+  try {
+    const member = await prisma.projectMember.findUnique({
+      where: { projectId_userId: { projectId, userId } },
+      include: { user: { select: userSelect } },
+    });
+    if (!member) return res.status(404).json({ message: 'Member not found' });
+    if (await isLastOwner(projectId, userId)) {
+      return res.status(409).json({ message: 'A board needs at least one owner' });
+    }
+
+    // Former members no longer show up as assignees on this board's cards
+    const assigned = await prisma.card.findMany({
+      where: { section: { projectId }, assignees: { some: { id: userId } } },
+      select: { id: true },
+    });
+    await prisma.$transaction([
+      ...assigned.map(c =>
+        prisma.card.update({ where: { id: c.id }, data: { assignees: { disconnect: { id: userId } } } })
+      ),
+      prisma.projectMember.delete({ where: { id: member.id } }),
+    ]);
+
+    for (const c of assigned) {
+      const card = await prisma.card.findUnique({
+        where: { id: c.id },
+        include: { assignees: { select: userSelect } },
+      });
+      publish(projectId, { type: 'assignees.updated', cardId: c.id, assignees: card?.assignees ?? [] });
+    }
+    disconnectUser(projectId, userId);
+    const left = userId === req.user!.id;
+    await recordActivity({
+      projectId,
+      actorId: req.user!.id,
+      type: left ? 'member.left' : 'member.removed',
+      summary: left ? 'left the board' : `removed ${member.user.name} from the board`,
+      before: { user: member.user, role: member.role },
+    });
+
+    res.json({ ok: true });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to remove member' });
+  }
+});
+
+/**
+ * Invitations sent by a board owner to an existing user (matched by email)
+ */
+const inviteSchema = z.object({
+  email: z.string().email(),
+  role: z.enum(PROJECT_ROLES).optional().default('editor'),
+});
+
+const invitationInclude = {
+  project: { select: { id: true, title: true } },
+  invitee: { select: userSelect },
+  invitedBy: { select: userSelect },
+} as const;
+
+const toInvitation = (inv: Prisma.ProjectInvitationGetPayload<{ include: typeof invitationInclude }>) => ({
+  id: inv.id,
+  role: inv.role,
+  status: inv.status,
+  createdAt: inv.createdAt.toISOString(),
+  project: inv.project,
+  invitee: inv.invitee,
+  invitedBy: inv.invitedBy,
+});
+
+router.get('/projects/:projectId/invitations', requireRole('owner'), async (req, res) => {
+  const { projectId } = req.params;
+  try {
+    const invitations = await prisma.projectInvitation.findMany({
+      where: { projectId, status: 'pending' },
+      orderBy: { createdAt: 'asc' },
+      include: invitationInclude,
+    });
+    res.json(invitations.map(toInvitation));
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to list invitations' });
+  }
+});
+
+router.post('/projects/:projectId/invitations', requireRole('owner'), async (req: AuthReq, res) => {
+  const { projectId } = req.params;
+  const parsed = inviteSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  try {
+    const invitee = await prisma.user.findUnique({ where: { email: parsed.data.email } });
+    if (!invitee) return res.status(404).json({ message: 'No user registered with this email' });
+
+    const member = await prisma.projectMember.findUnique({
+      where: { projectId_userId: { projectId, userId: invitee.id } },
+    });
+    if (member) return res.status(409).json({ message: 'User is already a member of this board' });
+
+    const pending = await prisma.projectInvitation.findFirst({
+      where: { projectId, inviteeId: invitee.id, status: 'pending' },
+    });
+    if (pending) return res.status(409).json({ message: 'User already has a pending invitation' });
+
+    const created = await prisma.projectInvitation.create({
+      data: { projectId, inviteeId: invitee.id, invitedById: req.user!.id, role: parsed.data.role },
+      include: invitationInclude,
+    });
+    await recordActivity({
+      projectId,
+      actorId: req.user!.id,
+      type: 'invitation.sent',
+      summary: `invited ${invitee.name} as ${created.role}`,
+      after: { invitee: created.invitee, role: created.role },
+    });
+    res.status(201).json(toInvitation(created));
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to invite user' });
+  }
+});
+
+router.delete('/projects/:projectId/invitations/:invitationId', requireRole('owner'), async (req: AuthReq, res) => {
+  const { projectId, invitationId } = req.params;
+  try {
+    const invitation = await prisma.projectInvitation.findFirst({
+      where: { id: invitationId, projectId, status: 'pending' },
+      include: invitationInclude,
+    });
+    if (!invitation) return res.status(404).json({ message: 'Invitation not found' });
+
+    await prisma.projectInvitation.delete({ where: { id: invitation.id } });
+    await recordActivity({
+      projectId,
+      actorId: req.user!.id,
+      type: 'invitation.cancelled',
+      summary: `cancelled the invitation of ${invitation.invitee.name}`,
+      before: { invitee: invitation.invitee, role: invitation.role },
+    });
+    res.json({ ok: true });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to cancel invitation' });
+  }
+});
+
+/**
+ * Invitee side: pending invitations of the current user
+ */
+router.get('/invitations', async (req: AuthReq, res) => {
+  try {
+    const invitations = await prisma.projectInvitation.findMany({
+      where: { inviteeId: req.user!.id, status: 'pending' },
+      orderBy: { createdAt: 'desc' },
+      include: invitationInclude,
+    });
+    res.json(invitations.map(toInvitation));
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to list invitations' });
+  }
+});
+
+router.post('/invitations/:invitationId/accept', async (req: AuthReq, res) => {
+  const { invitationId } = req.params;
+  try {
+    const invitation = await prisma.projectInvitation.findFirst({
+      where: { id: invitationId, inviteeId: req.user!.id, status: 'pending' },
+      include: invitationInclude,
+    });
+    if (!invitation) return res.status(404).json({ message: 'Invitation not found' });
+
+    await prisma.$transaction([
+      prisma.projectInvitation.update({
+        where: { id: invitation.id },
+        data: { status: 'accepted', respondedAt: new Date() },
+      }),
+      // upsert: the user may have been added meanwhile through another invitation
+      prisma.projectMember.upsert({
+        where: { projectId_userId: { projectId: invitation.projectId, userId: req.user!.id } },
+        create: { projectId: invitation.projectId, userId: req.user!.id, role: invitation.role },
+        update: {},
+      }),
+    ]);
+
+    await recordActivity({
+      projectId: invitation.projectId,
+      actorId: req.user!.id,
+      type: 'invitation.accepted',
+      summary: `joined the board as ${invitation.role}`,
+      after: { role: invitation.role },
+    });
+    res.json({ ...invitation.project, role: invitation.role });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to accept invitation' });
+  }
+});
+
+router.post('/invitations/:invitationId/decline', async (req: AuthReq, res) => {
+  const { invitationId } = req.params;
+  try {
+    const invitation = await prisma.projectInvitation.findFirst({
+      where: { id: invitationId, inviteeId: req.user!.id, status: 'pending' },
+    });
+    if (!invitation) return res.status(404).json({ message: 'Invitation not found' });
+
+    await prisma.projectInvitation.update({
+      where: { id: invitation.id },
+      data: { status: 'declined', respondedAt: new Date() },
+    });
+    await recordActivity({
+      projectId: invitation.projectId,
+      actorId: req.user!.id,
+      type: 'invitation.declined',
+      summary: 'declined the invitation to this board',
+    });
+    res.json({ ok: true });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to decline invitation' });
+  }
+});
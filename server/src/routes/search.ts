@@ -0,0 +1,121 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+
+import { prisma } from '../db';
+import { AuthReq, requireRole } from '../auth';
+
+/**
+ * Card search over titles, descriptions and comment text, on one board or on every board
+ * the user is a member of. Each whitespace-separated term must appear somewhere on the card;
+ * matching is a case-insensitive substring match (SQLite LIKE), so partial words find cards too.
+ * Mounted behind authMiddleware by the api router.
+ */
+export const router = Router();
+
+const MAX_TERMS = 8;
+const SNIPPET_RADIUS = 60;
+
+const searchSchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+});
+
+type MatchField = 'title' | 'description' | 'comments';
+
+const searchInclude = {
+  section: { select: { id: true, title: true, project: { select: { id: true, title: true } } } },
+  comments: { select: { text: true }, orderBy: { createdAt: 'asc' as const } },
+};
+
+type CardWithContext = Prisma.CardGetPayload<{ include: typeof searchInclude }>;
+
+const termsOf = (q: string) => Array.from(new Set(q.toLowerCase().split(/\s+/).filter(Boolean))).slice(0, MAX_TERMS);
+
+// Every term in at least one field; comments match when any single comment contains the term
+const termsWhere = (terms: string[]): Prisma.CardWhereInput[] =>
+  terms.map(term => ({
+    OR: [
+      { title: { contains: term } },
+      { description: { contains: term } },
+      { comments: { some: { text: { contains: term } } } },
+    ],
+  }));
+
+const includesAny = (text: string, terms: string[]) => {
+  const lower = text.toLowerCase();
+  return terms.some(t => lower.includes(t));
+};
+
+// Text around the first term found, for results that did not match on the title alone
+const snippetOf = (text: string, terms: string[]) => {
+  const lower = text.toLowerCase();
+  const at = Math.min(...terms.map(t => lower.indexOf(t)).filter(i => i >= 0));
+  if (!Number.isFinite(at)) return null;
+  const start = Math.max(0, at - SNIPPET_RADIUS);
+  const end = Math.min(text.length, at + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ').trim()}${end < text.length ? '…' : ''}`;
+};
+
+const toResult = (card: CardWithContext, terms: string[]) => {
+  const matches: MatchField[] = [];
+  if (includesAny(card.title, terms)) matches.push('title');
+  if (includesAny(card.description, terms)) matches.push('description');
+  const comment = card.comments.find(c => includesAny(c.text, terms));
+  if (comment) matches.push('comments');
+
+  const snippetSource = matches.includes('description') ? card.description : comment?.text;
+  return {
+    cardId: card.id,
+    title: card.title,
+    priority: card.priority,
+    projectId: card.section.project.id,
+    projectTitle: card.section.project.title,
+    sectionId: card.section.id,
+    sectionTitle: card.section.title,
+    matches,
+    snippet: snippetSource ? snippetOf(snippetSource, terms) : null,
+  };
+};
+
+// Title hits first, then the newest cards; archived cards and sections are not searched
+const search = async (where: Prisma.CardWhereInput, q: string, limit: number) => {
+  const terms = termsOf(q);
+  const cards = await prisma.card.findMany({
+    where: { AND: [where, { archivedAt: null, section: { archivedAt: null } }, ...termsWhere(terms)] },
+    include: searchInclude,
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+  });
+  const results = cards.map(card => toResult(card, terms));
+  return results.sort((a, b) => Number(b.matches.includes('title')) - Number(a.matches.includes('title')));
+};
+
+router.get('/search', async (req: AuthReq, res) => {
+  const parsed = searchSchema.safeParse(req.query);
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  try {
+    const results = await search(
+      { section: { project: { members: { some: { userId: req.user!.id } } } } },
+      parsed.data.q,
+      parsed.data.limit ?? 20
+    );
+    res.json(results);
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to search cards' });
+  }
+});
+
+router.get('/projects/:projectId/search', requireRole('viewer'), async (req, res) => {
+  const { projectId } = req.params;
+  const parsed = searchSchema.safeParse(req.query);
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  try {
+    const results = await search({ section: { projectId } }, parsed.data.q, parsed.data.limit ?? 500);
+    res.json(results);
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to search cards' });
+  }
+});
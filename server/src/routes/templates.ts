@@ -0,0 +1,252 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+
+import { prisma } from '../db';
+import { AuthReq, requireRole } from '../auth';
+import { recordActivity } from '../activity';
+
+/**
+ * Board templates: sections with their WIP limits and optional starter cards.
+ * Built-in templates are defined below; users save their own from any board they can see.
+ * New boards are seeded from a template by POST /projects (see seedBoard).
+ * Mounted behind authMiddleware by the api router.
+ */
+export const router = Router();
+
+const templateCardSchema = z.object({
+  title: z.string().min(1),
+  description: z.string().default(''),
+  priority: z.enum(['low', 'normal', 'high']).default('normal'),
+  executor: z.string().default(''),
+});
+
+const templateSectionSchema = z.object({
+  title: z.string().min(1),
+  wipLimit: z.number().int().min(1).max(999).nullable().default(null),
+  wipStrict: z.boolean().default(false),
+  cards: z.array(templateCardSchema).default([]),
+});
+
+export type TemplateSection = z.infer<typeof templateSectionSchema>;
+
+type Template = {
+  id: string;
+  name: string;
+  description: string;
+  builtIn: boolean;
+  sections: TemplateSection[];
+};
+
+// Boards created without a template get these sections, as they always have
+export const DEFAULT_TEMPLATE_ID = 'builtin-basic';
+
+const BUILT_IN: Template[] = [
+  {
+    id: DEFAULT_TEMPLATE_ID,
+    name: 'Basic board',
+    description: 'Backlog, To Do, Review and Done',
+    builtIn: true,
+    sections: ['Backlog', 'To Do', 'Review', 'Done'].map(title => ({ title, wipLimit: null, wipStrict: false, cards: [] })),
+  },
+  {
+    id: 'builtin-bug-triage',
+    name: 'Bug triage',
+    description: 'Reported bugs are triaged, fixed, reviewed and verified',
+    builtIn: true,
+    sections: [
+      {
+        title: 'Reported',
+        wipLimit: null,
+        wipStrict: false,
+        cards: [
+          {
+            title: 'How to report a bug',
+            description: 'Steps to reproduce, expected and actual behaviour, version and environment. Attach screenshots or logs.',
+            priority: 'normal',
+            executor: '',
+          },
+        ],
+      },
+      { title: 'Triaged', wipLimit: null, wipStrict: false, cards: [] },
+      { title: 'In progress', wipLimit: 5, wipStrict: false, cards: [] },
+      { title: 'In review', wipLimit: 3, wipStrict: false, cards: [] },
+      { title: 'Fixed', wipLimit: null, wipStrict: false, cards: [] },
+    ],
+  },
+  {
+    id: 'builtin-sprint',
+    name: 'Sprint',
+    description: 'A sprint backlog with limited work in progress',
+    builtIn: true,
+    sections: [
+      { title: 'Backlog', wipLimit: null, wipStrict: false, cards: [] },
+      {
+        title: 'Sprint backlog',
+        wipLimit: null,
+        wipStrict: false,
+        cards: [
+          { title: 'Sprint planning', description: 'Agree on the sprint goal and pull the cards for it from the backlog.', priority: 'high', executor: '' },
+          { title: 'Sprint review and retrospective', description: 'Demo what was done, then discuss what to keep and what to change.', priority: 'normal', executor: '' },
+        ],
+      },
+      { title: 'In progress', wipLimit: 4, wipStrict: true, cards: [] },
+      { title: 'Review', wipLimit: 2, wipStrict: false, cards: [] },
+      { title: 'Done', wipLimit: null, wipStrict: false, cards: [] },
+    ],
+  },
+  {
+    id: 'builtin-content',
+    name: 'Content pipeline',
+    description: 'Articles and posts from idea to publication',
+    builtIn: true,
+    sections: [
+      {
+        title: 'Ideas',
+        wipLimit: null,
+        wipStrict: false,
+        cards: [
+          { title: 'Editorial guidelines', description: 'Audience, tone of voice, formats and the review checklist.', priority: 'normal', executor: '' },
+        ],
+      },
+      { title: 'Drafting', wipLimit: 3, wipStrict: false, cards: [] },
+      { title: 'Editing', wipLimit: 2, wipStrict: false, cards: [] },
+      { title: 'Scheduled', wipLimit: null, wipStrict: false, cards: [] },
+      { title: 'Published', wipLimit: null, wipStrict: false, cards: [] },
+    ],
+  },
+];
+
+const fromRow = (row: { id: string; name: string; description: string; sections: string }): Template => ({
+  id: row.id,
+  name: row.name,
+  description: row.description,
+  builtIn: false,
+  sections: z.array(templateSectionSchema).parse(JSON.parse(row.sections)),
+});
+
+// A built-in template, or one saved by the user; null when neither
+export const findTemplate = async (templateId: string, userId: string) => {
+  const builtIn = BUILT_IN.find(t => t.id === templateId);
+  if (builtIn) return builtIn;
+  const row = await prisma.boardTemplate.findFirst({ where: { id: templateId, ownerId: userId } });
+  return row ? fromRow(row) : null;
+};
+
+/**
+ * Creates the template's sections and starter cards on a new, empty board.
+ * The first section becomes the board's fixed column, like the Backlog of a basic board.
+ */
+export const seedBoard = async (tx: Prisma.TransactionClient, projectId: string, sections: TemplateSection[], actorId: string) => {
+  for (const [position, section] of sections.entries()) {
+    const created = await tx.section.create({
+      data: {
+        projectId,
+        title: section.title,
+        canDelete: position > 0,
+        position,
+        wipLimit: section.wipLimit,
+        wipStrict: section.wipLimit ? section.wipStrict : false,
+      },
+    });
+    for (const [cardPosition, card] of section.cards.entries()) {
+      await tx.card.create({
+        data: {
+          sectionId: created.id,
+          title: card.title,
+          description: card.description,
+          priority: card.priority,
+          executor: card.executor,
+          position: cardPosition,
+          transitions: { create: { projectId, toSectionId: created.id, actorId } },
+        },
+      });
+    }
+  }
+};
+
+// What the template picker shows; starter cards are only counted
+const summaryOf = (t: Template) => ({
+  id: t.id,
+  name: t.name,
+  description: t.description,
+  builtIn: t.builtIn,
+  sections: t.sections.map(s => ({ title: s.title, wipLimit: s.wipLimit, cards: s.cards.length })),
+});
+
+router.get('/templates', async (req: AuthReq, res) => {
+  try {
+    const rows = await prisma.boardTemplate.findMany({ where: { ownerId: req.user!.id }, orderBy: { createdAt: 'desc' } });
+    res.json([...BUILT_IN, ...rows.map(fromRow)].map(summaryOf));
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to load templates' });
+  }
+});
+
+const saveTemplateSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().trim().max(500).optional().default(''),
+  // Without cards only the sections and their WIP limits are kept
+  includeCards: z.boolean().optional().default(true),
+});
+
+// Saving only reads the board, so viewers may keep its layout too; the template is private to its creator
+router.post('/projects/:projectId/templates', requireRole('viewer'), async (req: AuthReq, res) => {
+  const { projectId } = req.params;
+  const parsed = saveTemplateSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error);
+
+  try {
+    const sections = await prisma.section.findMany({
+      where: { projectId, archivedAt: null },
+      orderBy: [{ position: 'asc' }, { id: 'asc' }],
+      include: {
+        cards: {
+          where: { archivedAt: null },
+          orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+          select: { title: true, description: true, priority: true, executor: true },
+        },
+      },
+    });
+    const content: TemplateSection[] = sections.map(s => ({
+      title: s.title,
+      wipLimit: s.wipLimit,
+      wipStrict: s.wipStrict,
+      cards: parsed.data.includeCards
+        ? s.cards.map(c => ({ ...c, priority: c.priority as TemplateSection['cards'][number]['priority'] }))
+        : [],
+    }));
+
+    const created = await prisma.boardTemplate.create({
+      data: {
+        name: parsed.data.name,
+        description: parsed.data.description,
+        sections: JSON.stringify(content),
+        ownerId: req.user!.id,
+      },
+    });
+    await recordActivity({
+      projectId,
+      actorId: req.user!.id,
+      type: 'project.template-saved',
+      summary: `saved the board as template "${created.name}"`,
+    });
+    res.status(201).json(summaryOf(fromRow(created)));
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to save template' });
+  }
+});
+
+router.delete('/templates/:templateId', async (req: AuthReq, res) => {
+  const { templateId } = req.params;
+  try {
+    const { count } = await prisma.boardTemplate.deleteMany({ where: { id: templateId, ownerId: req.user!.id } });
+    if (!count) return res.status(404).json({ message: 'Template not found' });
+    res.json({ ok: true });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to delete template' });
+  }
+});
@@ -0,0 +1,176 @@
+import { Router } from 'express';
+import { z } from 'zod';
+
+import { prisma } from '../db';
+import { AuthReq, requireRole } from '../auth';
+import { recordActivity } from '../activity';
+import { BoardDocument, boardDocumentSchema, exportBoard, importBoard, previewImport } from '../boardDocument';
+import { duplicateBoard, duplicateOptionsSchema } from '../boardCopy';
+import { convertTrelloBoard, trelloBoardSchema } from '../trello';
+import { cardFilterSchema, matchesCardFilter, sortCards } from '../cardFilter';
+
+/**
+ * Board export/import as a versioned JSON document (see boardDocument.ts), plus import from Trello exports,
+ * a CSV export of the cards for spreadsheets and copying a board (see boardCopy.ts).
+ * Mounted behind authMiddleware by the api router.
+ */
+export const router = Router();
+
+// File name safe on every OS, derived from the board title
+const downloadName = (title: string, extension: string) =>
+  `${title.replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '') || 'board'}.${extension}`;
+
+router.get('/projects/:projectId/export', requireRole('viewer'), async (req: AuthReq, res) => {
+  const { projectId } = req.params;
+  try {
+    const doc = await exportBoard(projectId);
+    if (!doc) return res.status(404).json({ message: 'Project not found' });
+
+    res.setHeader('Content-Disposition', `attachment; filename="${downloadName(doc.project.title, 'board.json')}"`);
+    res.json(doc);
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to export board' });
+  }
+});
+
+// RFC 4180 quoting; a leading = + - @ is escaped so spreadsheets do not run cell text as a formula
+const csvCell = (value: string | number) => {
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const CSV_COLUMNS = ['id', 'title', 'section', 'priority', 'executor', 'assignees', 'created', 'comments'];
+
+// Takes the board's filter as query parameters (see cardFilter.ts); rows follow the board's column and card order
+router.get('/projects/:projectId/export/csv', requireRole('viewer'), async (req: AuthReq, res) => {
+  const { projectId } = req.params;
+  const parsed = cardFilterSchema.safeParse(req.query);
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  try {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      include: {
+        sections: {
+          where: { archivedAt: null },
+          orderBy: { position: 'asc' },
+          include: {
+            cards: {
+              where: { archivedAt: null },
+              orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+              include: {
+                assignees: { select: { name: true } },
+                labels: { select: { id: true } },
+                _count: { select: { comments: true } },
+              },
+            },
+          },
+        },
+      },
+    });
+    if (!project) return res.status(404).json({ message: 'Project not found' });
+
+    const now = new Date();
+    const rows = project.sections.flatMap(section =>
+      sortCards(
+        section.cards.filter(card => matchesCardFilter(card, parsed.data, now)),
+        parsed.data.sortBy
+      ).map(card => [
+        card.id,
+        card.title,
+        section.title,
+        card.priority,
+        card.executor,
+        card.assignees.map(a => a.name).join('; '),
+        card.createdAt.toISOString(),
+        card._count.comments,
+      ])
+    );
+
+    const csv = [CSV_COLUMNS, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${downloadName(project.title, 'cards.csv')}"`);
+    // The byte order mark makes Excel read the file as UTF-8
+    res.send(`\uFEFF${csv}\r\n`);
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to export cards' });
+  }
+});
+
+// Creates the project and logs the import on its activity feed
+const createFromDocument = async (doc: BoardDocument, userId: string, source: string) => {
+  const { project, report } = await importBoard(doc, userId);
+  await recordActivity({
+    projectId: project.id,
+    actorId: userId,
+    type: 'project.imported',
+    summary: `imported board "${project.title}" from ${source} with ${report.cards} cards`,
+    after: report,
+  });
+  return { id: project.id, title: project.title, role: 'owner', report };
+};
+
+// Creates a new project from an exported document; the caller becomes its owner
+router.post('/projects/import', async (req: AuthReq, res) => {
+  const parsed = boardDocumentSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  try {
+    res.status(201).json(await createFromDocument(parsed.data, req.user!.id, 'a board export'));
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to import board' });
+  }
+});
+
+const trelloImportSchema = z.object({
+  board: trelloBoardSchema,
+  // Trello username (or member id) → email, for members whose export has no email
+  memberEmails: z.record(z.string()).default({}),
+  // Report what would be created without writing anything
+  dryRun: z.boolean().default(false),
+});
+
+router.post('/projects/import/trello', async (req: AuthReq, res) => {
+  const parsed = trelloImportSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  try {
+    const { doc, unmapped } = convertTrelloBoard(parsed.data.board, parsed.data.memberEmails);
+    // Same rules as a regular import, e.g. a malformed email in memberEmails
+    const converted = boardDocumentSchema.safeParse(doc);
+    if (!converted.success) return res.status(400).json(converted.error);
+
+    if (parsed.data.dryRun) {
+      return res.json({ dryRun: true, report: await previewImport(converted.data, req.user!.id), unmapped });
+    }
+    const created = await createFromDocument(converted.data, req.user!.id, 'Trello');
+    res.status(201).json({ ...created, dryRun: false, unmapped });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to import Trello board' });
+  }
+});
+
+// Copies the board into a new project owned by the caller; anyone who can see a board can copy it, as with export
+router.post('/projects/:projectId/duplicate', requireRole('viewer'), async (req: AuthReq, res) => {
+  const { projectId } = req.params;
+  const parsed = duplicateOptionsSchema.safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json(parsed.error);
+  try {
+    const copy = await duplicateBoard(projectId, req.user!.id, parsed.data);
+    if (!copy) return res.status(404).json({ message: 'Project not found' });
+
+    await recordActivity({
+      projectId: copy.project.id,
+      actorId: req.user!.id,
+      type: 'project.duplicated',
+      summary: `duplicated board "${copy.source.title}" with ${copy.cards} cards`,
+      after: { sourceId: copy.source.id, ...parsed.data },
+    });
+    res.status(201).json({ id: copy.project.id, title: copy.project.title, role: 'owner', sections: copy.sections, cards: copy.cards, invited: copy.invited });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ message: 'Failed to duplicate board' });
+  }
+});
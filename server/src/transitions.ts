@@ -0,0 +1,24 @@
+import { prisma } from './db';
+
+type TransitionInput = {
+  projectId: string;
+  cardId: string;
+  // null when the card was created in toSectionId
+  fromSectionId: string | null;
+  toSectionId: string;
+  actorId?: string;
+};
+
+/**
+ * Record cards entering sections, the history behind the board insights.
+ * Reorders inside a section are skipped. Like activity, failures are logged and swallowed.
+ */
+export const recordTransitions = async (transitions: TransitionInput[]) => {
+  const data = transitions.filter(t => t.fromSectionId !== t.toSectionId);
+  if (!data.length) return;
+  try {
+    await prisma.cardTransition.createMany({ data });
+  } catch (e) {
+    console.error('Failed to record card transitions', e);
+  }
+};
@@ -0,0 +1,247 @@
+import { z } from 'zod';
+
+import { ProjectRole } from './auth';
+import { BOARD_DOCUMENT_FORMAT, BOARD_DOCUMENT_VERSION, BoardDocument } from './boardDocument';
+
+/**
+ * Converts Trello's board JSON export (Board menu → Print, export and share → Export as JSON)
+ * into a board document for importBoard. Only the fields used here are validated; the rest is ignored.
+ * Trello exports rarely carry member emails, so callers may pass a username → email map.
+ */
+
+const trelloLabelSchema = z.object({ id: z.string(), name: z.string().default(''), color: z.string().nullable().default(null) });
+
+export const trelloBoardSchema = z.object({
+  name: z.string().default('Trello board'),
+  lists: z.array(z.object({ id: z.string(), name: z.string(), closed: z.boolean().default(false), pos: z.number().default(0) })),
+  cards: z
+    .array(
+      z.object({
+        id: z.string(),
+        name: z.string(),
+        desc: z.string().default(''),
+        idList: z.string(),
+        closed: z.boolean().default(false),
+        pos: z.number().default(0),
+        start: z.string().nullable().default(null),
+        due: z.string().nullable().default(null),
+        idLabels: z.array(z.string()).default([]),
+        idMembers: z.array(z.string()).default([]),
+        badges: z.object({ attachments: z.number().default(0) }).partial().default({}),
+      })
+    )
+    .default([]),
+  labels: z.array(trelloLabelSchema).default([]),
+  members: z
+    .array(
+      z.object({
+        id: z.string(),
+        fullName: z.string().default(''),
+        username: z.string().default(''),
+        email: z.string().nullable().optional(),
+      })
+    )
+    .default([]),
+  memberships: z
+    .array(z.object({ idMember: z.string(), memberType: z.string().default('normal') }))
+    .default([]),
+  checklists: z
+    .array(
+      z.object({
+        idCard: z.string(),
+        name: z.string().default('Checklist'),
+        pos: z.number().default(0),
+        checkItems: z
+          .array(z.object({ name: z.string(), state: z.string().default('incomplete'), pos: z.number().default(0) }))
+          .default([]),
+      })
+    )
+    .default([]),
+  // Only commentCard actions are read
+  actions: z
+    .array(
+      z.object({
+        type: z.string(),
+        date: z.string().optional(),
+        idMemberCreator: z.string().optional(),
+        data: z.object({ text: z.string().optional(), card: z.object({ id: z.string() }).optional() }).passthrough().default({}),
+      })
+    )
+    .default([]),
+});
+
+export type TrelloBoard = z.infer<typeof trelloBoardSchema>;
+
+// What the conversion dropped or had to guess, shown next to the import report
+export type TrelloUnmapped = {
+  // Trello members without an email (neither in the export nor in the supplied map)
+  membersWithoutEmail: { username: string; fullName: string }[];
+  archivedLists: number;
+  archivedCards: number;
+  // Attachments are not imported; this counts them so nothing disappears silently
+  attachments: number;
+  // Start dates after the due date are dropped
+  droppedStartDates: number;
+  priorities: Record<'low' | 'normal' | 'high', number>;
+};
+
+const HIGH_PRIORITY = /\b(urgent|critical|blocker|high|asap|p0|p1)\b/i;
+const LOW_PRIORITY = /\b(low|minor|trivial|someday|nice to have|p3|p4)\b/i;
+
+// Named labels decide first; an unnamed red label still reads as urgent on most boards
+const priorityOf = (labels: { name?: string; color?: string | null }[]): 'low' | 'normal' | 'high' => {
+  if (labels.some(l => HIGH_PRIORITY.test(l.name))) return 'high';
+  if (labels.some(l => LOW_PRIORITY.test(l.name))) return 'low';
+  if (labels.some(l => !l.name && l.color === 'red')) return 'high';
+  return 'normal';
+};
+
+// Trello's named colours (and their _light/_dark variants) as hex
+const TRELLO_COLORS: Record<string, string> = {
+  green: '#22c55e',
+  yellow: '#eab308',
+  orange: '#f97316',
+  red: '#ef4444',
+  purple: '#a855f7',
+  blue: '#3b82f6',
+  sky: '#0ea5e9',
+  lime: '#84cc16',
+  pink: '#ec4899',
+  black: '#64748b',
+};
+
+const colorOf = (color: string | null) => TRELLO_COLORS[color?.split('_')[0] ?? ''] ?? '#64748b';
+
+const ROLE_BY_MEMBER_TYPE: Record<string, ProjectRole> = { admin: 'owner', normal: 'editor', observer: 'viewer' };
+
+const isoOrNull = (value: string | null | undefined) => {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+const clip = (text: string, max: number) => (text.length > max ? text.slice(0, max) : text);
+
+export const convertTrelloBoard = (board: TrelloBoard, memberEmails: Record<string, string> = {}) => {
+  const unmapped: TrelloUnmapped = {
+    membersWithoutEmail: [],
+    archivedLists: board.lists.filter(l => l.closed).length,
+    archivedCards: 0,
+    attachments: 0,
+    droppedStartDates: 0,
+    priorities: { low: 0, normal: 0, high: 0 },
+  };
+
+  // Trello member id → email, from the export or the caller's map (keyed by username)
+  const emailOf = new Map<string, string>();
+  for (const m of board.members) {
+    const email = m.email || memberEmails[m.username] || memberEmails[m.id];
+    if (email) emailOf.set(m.id, email.trim());
+    else unmapped.membersWithoutEmail.push({ username: m.username, fullName: m.fullName });
+  }
+  const nameOf = new Map(board.members.map(m => [m.id, m.fullName || m.username]));
+
+  // Unnamed Trello labels are identified by colour alone; give them the colour as a name
+  const labelNames = new Map<string, string>();
+  const labels: BoardDocument['labels'] = [];
+  for (const l of board.labels) {
+    const colorName = l.color ? l.color.charAt(0).toUpperCase() + l.color.slice(1).replace(/_/g, ' ') : 'Label';
+    const base = clip(l.name.trim() || colorName, 40);
+    let name = base;
+    for (let n = 2; labels.some(x => x.name === name); n++) name = `${clip(base, 36)} ${n}`;
+    labels.push({ name, color: colorOf(l.color) });
+    labelNames.set(l.id, name);
+  }
+  const trelloLabels = new Map(board.labels.map(l => [l.id, l]));
+
+  const commentsByCard = new Map<string, BoardDocument['sections'][number]['cards'][number]['comments']>();
+  for (const action of [...board.actions].reverse()) {
+    const cardId = action.data.card?.id;
+    if (action.type !== 'commentCard' || !cardId || !action.data.text) continue;
+    const list = commentsByCard.get(cardId) ?? [];
+    list.push({
+      text: clip(action.data.text, 10000),
+      author: (action.idMemberCreator && emailOf.get(action.idMemberCreator)) || null,
+      authorName: (action.idMemberCreator && nameOf.get(action.idMemberCreator)) || null,
+      createdAt: isoOrNull(action.date) ?? undefined,
+    });
+    commentsByCard.set(cardId, list);
+  }
+
+  const checklistsByCard = new Map<string, TrelloBoard['checklists']>();
+  for (const checklist of board.checklists) {
+    checklistsByCard.set(checklist.idCard, [...(checklistsByCard.get(checklist.idCard) ?? []), checklist]);
+  }
+
+  const byPos = (a: { pos?: number }, b: { pos?: number }) => (a.pos ?? 0) - (b.pos ?? 0);
+
+  const sections: BoardDocument['sections'] = board.lists
+    .filter(l => !l.closed)
+    .sort(byPos)
+    .map(list => ({
+      title: clip(list.name.trim() || 'Untitled list', 200),
+      canDelete: true,
+      wipLimit: null,
+      wipStrict: false,
+      cards: board.cards
+        .filter(c => c.idList === list.id)
+        .filter(c => {
+          if (c.closed) unmapped.archivedCards += 1;
+          return !c.closed;
+        })
+        .sort(byPos)
+        .map(card => {
+          unmapped.attachments += card.badges.attachments ?? 0;
+          const cardLabels = card.idLabels.map(id => trelloLabels.get(id)).filter((l): l is NonNullable<typeof l> => !!l);
+          const priority = priorityOf(cardLabels);
+          unmapped.priorities[priority] += 1;
+
+          const dueDate = isoOrNull(card.due);
+          let startDate = isoOrNull(card.start);
+          if (startDate && dueDate && startDate > dueDate) {
+            startDate = null;
+            unmapped.droppedStartDates += 1;
+          }
+
+          return {
+            title: clip(card.name.trim() || 'Untitled card', 500),
+            description: clip(card.desc, 20000),
+            priority,
+            // Free-text executor keeps the first member's name even when the member has no account here
+            executor: clip(nameOf.get(card.idMembers[0] ?? '') ?? '', 200),
+            startDate,
+            dueDate,
+            assignees: card.idMembers.map(id => emailOf.get(id)).filter((e): e is string => !!e),
+            labels: card.idLabels.map(id => labelNames.get(id)).filter((n): n is string => !!n),
+            comments: commentsByCard.get(card.id) ?? [],
+            checklists: (checklistsByCard.get(card.id) ?? []).sort(byPos).map(cl => ({
+              title: clip(cl.name.trim() || 'Checklist', 100),
+              items: cl.checkItems
+                .filter(i => i.name.trim())
+                .sort(byPos)
+                .map(i => ({ text: clip(i.name.trim(), 500), done: i.state === 'complete' })),
+            })),
+          };
+        }),
+    }));
+
+  // Cards whose list is archived are counted with the archived lists' cards
+  const openLists = new Set(board.lists.filter(l => !l.closed).map(l => l.id));
+  unmapped.archivedCards += board.cards.filter(c => !openLists.has(c.idList)).length;
+
+  const roles = new Map(board.memberships.map(m => [m.idMember, ROLE_BY_MEMBER_TYPE[m.memberType] ?? 'editor']));
+  const members = board.members
+    .filter(m => emailOf.has(m.id))
+    .map(m => ({ email: emailOf.get(m.id)!, role: roles.get(m.id) ?? ('editor' as ProjectRole) }));
+
+  const doc = {
+    format: BOARD_DOCUMENT_FORMAT,
+    version: BOARD_DOCUMENT_VERSION,
+    project: { title: clip(board.name.trim() || 'Trello board', 200) },
+    members,
+    labels,
+    sections,
+  };
+
+  return { doc, unmapped };
+};
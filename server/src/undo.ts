@@ -0,0 +1,73 @@
+import { randomUUID } from 'crypto';
+
+import { ProjectRole } from './auth';
+
+/**
+ * Short-lived memory of each user's last destructive board operations, so the toast's Undo can reverse them.
+ * Kept in memory like the realtime hub: a restart forgets it, and archived items stay in the archive anyway.
+ * Entries are per project and user; nobody can undo someone else's operation.
+ */
+export type UndoOperation =
+  // Card delete, section clear and bulk delete archive cards
+  | { type: 'cards.archived'; cardIds: string[] }
+  // Where the card was: its section and index among the section's other cards
+  | { type: 'card.moved'; cardId: string; sectionId: string; index: number }
+  // Section delete/delete-all: the archived sections, and the cards moved out of them with their former place
+  | {
+      type: 'sections.archived';
+      sectionIds: string[];
+      // Where the cards went; unset when they stayed in their archived section
+      targetSectionId?: string;
+      cards: { id: string; sectionId: string; position: number }[];
+    };
+
+export type UndoEntry = {
+  id: string;
+  summary: string;
+  // The role the operation needed; undoing it needs the same
+  role: ProjectRole;
+  operation: UndoOperation;
+  expiresAt: number;
+};
+
+export const UNDO_WINDOW_MS = 30_000;
+const MAX_ENTRIES = 10;
+
+const entries = new Map<string, UndoEntry[]>();
+
+const keyOf = (projectId: string, userId: string) => `${projectId}:${userId}`;
+
+// Drops expired entries on the way
+const liveEntries = (key: string) => {
+  const now = Date.now();
+  const list = (entries.get(key) ?? []).filter(e => e.expiresAt > now);
+  if (list.length) entries.set(key, list);
+  else entries.delete(key);
+  return list;
+};
+
+// Returns the id the client passes back to undo this operation
+export const rememberUndo = (
+  projectId: string,
+  userId: string,
+  role: ProjectRole,
+  summary: string,
+  operation: UndoOperation
+) => {
+  const key = keyOf(projectId, userId);
+  const entry: UndoEntry = { id: randomUUID(), summary, role, operation, expiresAt: Date.now() + UNDO_WINDOW_MS };
+  entries.set(key, [...liveEntries(key), entry].slice(-MAX_ENTRIES));
+  return entry.id;
+};
+
+// Removes and returns the entry (the latest one without an id), or null once it expired
+export const takeUndo = (projectId: string, userId: string, undoId?: string) => {
+  const key = keyOf(projectId, userId);
+  const list = liveEntries(key);
+  const entry = undoId ? list.find(e => e.id === undoId) : list[list.length - 1];
+  if (!entry) return null;
+  const rest = list.filter(e => e !== entry);
+  if (rest.length) entries.set(key, rest);
+  else entries.delete(key);
+  return entry;
+};
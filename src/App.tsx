@@ -4,6 +4,9 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { Link, useLocation, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
+import { SearchPalette } from "@/components/board/SearchPalette";
+import { Search } from "lucide-react";
+import { useEffect, useState } from "react";
 
 const queryClient = new QueryClient();
 
@@ -14,6 +17,20 @@ function TopNav() {
   const isAuthed =
     typeof window !== "undefined" &&
     (!!localStorage.getItem("auth_token") || !!localStorage.getItem("token"));
+  const [searchOpen, setSearchOpen] = useState(false);
+
+  // Ctrl+K / Cmd+K opens the card search from any page
+  useEffect(() => {
+    if (!isAuthed) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setSearchOpen((o) => !o);
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [isAuthed]);
 
   const logout = () => {
     localStorage.removeItem("auth_token");
@@ -43,7 +60,15 @@ function TopNav() {
               <Link to="/register"><Button size="sm" className="bg-gradient-primary hover:opacity-90">Register</Button></Link>
             </>
           ) : (
-            <Button variant="destructive" size="sm" onClick={logout}>Log out</Button>
+            <>
+              <Button variant="outline" size="sm" className="gap-2 text-muted-foreground" onClick={() => setSearchOpen(true)}>
+                <Search className="h-4 w-4" />
+                <span className="hidden sm:inline">Search cards</span>
+                <kbd className="hidden sm:inline rounded border bg-muted px-1.5 text-[10px] font-medium">Ctrl K</kbd>
+              </Button>
+              <Button variant="destructive" size="sm" onClick={logout}>Log out</Button>
+              <SearchPalette open={searchOpen} onOpenChange={setSearchOpen} />
+            </>
           )}
         </div>
       </div>
@@ -0,0 +1,99 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Activity, ActivityPage } from "@/types/board";
+
+interface ActivityFeedProps {
+  load: (cursor?: string) => Promise<ActivityPage>;
+  // Any change reloads the first page (e.g. the live board after an event)
+  refreshKey?: unknown;
+  emptyText?: string;
+}
+
+const initials = (name: string) =>
+  name?.split(" ").map(p => p[0]).join("").slice(0, 2).toUpperCase();
+
+const relativeTime = (date: Date) => {
+  const seconds = Math.round((Date.now() - date.getTime()) / 1000);
+  if (seconds < 60) return "just now";
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  const days = Math.round(hours / 24);
+  if (days < 7) return `${days}d ago`;
+  return date.toLocaleDateString();
+};
+
+export const ActivityFeed = ({ load, refreshKey, emptyText = "No activity yet" }: ActivityFeedProps) => {
+  const [items, setItems] = useState<Activity[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    let mounted = true;
+    (async () => {
+      setLoading(true);
+      try {
+        const page = await load();
+        if (!mounted) return;
+        setItems(page.items);
+        setNextCursor(page.nextCursor);
+      } catch (e) {
+        console.error(e);
+      } finally {
+        if (mounted) setLoading(false);
+      }
+    })();
+    return () => {
+      mounted = false;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [refreshKey]);
+
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    setLoading(true);
+    try {
+      const page = await load(nextCursor);
+      setItems((prev) => [...prev, ...page.items.filter((a) => !prev.some((p) => p.id === a.id))]);
+      setNextCursor(page.nextCursor);
+    } catch (e) {
+      console.error(e);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!loading && items.length === 0) {
+    return <p className="text-sm text-muted-foreground">{emptyText}</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {items.map((a) => (
+        <div key={a.id} className="flex items-start gap-3">
+          <div
+            className="inline-flex shrink-0 items-center justify-center h-7 w-7 rounded-full bg-muted text-[11px] font-medium border border-border"
+            title={a.actor?.name ?? "Deleted user"}
+          >
+            {a.actor ? initials(a.actor.name) : "?"}
+          </div>
+          <div className="min-w-0 flex-1">
+            <p className="text-sm leading-snug break-words">
+              <span className="font-medium">{a.actor?.name ?? "Deleted user"}</span> {a.summary}
+            </p>
+            <span className="text-xs text-muted-foreground" title={a.createdAt.toLocaleString()}>
+              {relativeTime(a.createdAt)}
+            </span>
+          </div>
+        </div>
+      ))}
+      {loading && <p className="text-sm text-muted-foreground">Loading activity...</p>}
+      {nextCursor && !loading && (
+        <Button variant="outline" size="sm" className="w-full" onClick={loadMore}>
+          Load more
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,26 @@
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { ActivityFeed } from "./ActivityFeed";
+import { ActivityPage } from "@/types/board";
+
+interface ActivityPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  listActivity: (options?: { cursor?: string }) => Promise<ActivityPage>;
+  // Reloads the feed while open, e.g. the live board
+  refreshKey?: unknown;
+}
+
+export const ActivityPanel = ({ isOpen, onClose, listActivity, refreshKey }: ActivityPanelProps) => (
+  <Sheet open={isOpen} onOpenChange={(open) => !open && onClose()}>
+    <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+      <SheetHeader>
+        <SheetTitle>Activity</SheetTitle>
+        <SheetDescription>Everything that happened on this board, newest first.</SheetDescription>
+      </SheetHeader>
+
+      <div className="mt-6">
+        {isOpen && <ActivityFeed load={(cursor) => listActivity({ cursor })} refreshKey={refreshKey} />}
+      </div>
+    </SheetContent>
+  </Sheet>
+);
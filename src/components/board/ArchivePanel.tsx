@@ -0,0 +1,204 @@
+import { useEffect, useState } from "react";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ArchiveRestore, Trash2 } from "lucide-react";
+import { ArchiveListing } from "@/types/board";
+import { useToast } from "@/components/ui/use-toast";
+
+interface ArchivePanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Editors restore cards; sections and permanent deletes are for owners
+  canEdit: boolean;
+  canManage: boolean;
+  listArchive: () => Promise<ArchiveListing>;
+  restoreCard: (cardId: string) => Promise<void>;
+  restoreSection: (sectionId: string) => Promise<void>;
+  purgeCard: (cardId: string) => Promise<void>;
+  purgeSection: (sectionId: string) => Promise<void>;
+  // Reloads the listing while open, e.g. the live board
+  refreshKey?: unknown;
+}
+
+const archivedOn = (date: Date) => `Archived ${date.toLocaleString()}`;
+
+export const ArchivePanel = ({
+  isOpen,
+  onClose,
+  canEdit,
+  canManage,
+  listArchive,
+  restoreCard,
+  restoreSection,
+  purgeCard,
+  purgeSection,
+  refreshKey,
+}: ArchivePanelProps) => {
+  const { toast } = useToast();
+  const [archive, setArchive] = useState<ArchiveListing>({ sections: [], cards: [] });
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  // Permanent deletes wait for confirmation
+  const [pendingPurge, setPendingPurge] = useState<{ id: string; title: string; cardCount?: number } | null>(null);
+
+  const reload = async () => {
+    setLoading(true);
+    try {
+      setArchive(await listArchive());
+    } catch (e) {
+      console.error(e);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) reload();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, refreshKey]);
+
+  const run = async (id: string, action: () => Promise<void>, done: string) => {
+    setBusyId(id);
+    try {
+      await action();
+      toast({ title: done });
+      await reload();
+    } catch (e) {
+      toast({ title: "Action failed", description: e instanceof Error ? e.message : String(e), variant: "destructive" });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const isEmpty = archive.sections.length === 0 && archive.cards.length === 0;
+
+  return (
+    <Sheet open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Archive</SheetTitle>
+          <SheetDescription>Deleted cards and sections. Restore them onto the board or delete them for good.</SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-6">
+          {!loading && isEmpty && <p className="text-sm text-muted-foreground">The archive is empty</p>}
+
+          {archive.sections.length > 0 && (
+            <div className="space-y-2">
+              <div className="text-sm font-medium">Sections</div>
+              {archive.sections.map((s) => (
+                <div key={s.id} className="flex items-center gap-2 rounded-md border p-2">
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium truncate">{s.title}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {s.cardCount} card{s.cardCount === 1 ? "" : "s"} · {archivedOn(s.archivedAt)}
+                    </div>
+                  </div>
+                  {canManage && (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Restore section"
+                        disabled={busyId === s.id}
+                        onClick={() => run(s.id, () => restoreSection(s.id), `"${s.title}" restored`)}
+                      >
+                        <ArchiveRestore className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Delete forever"
+                        className="text-destructive hover:text-destructive"
+                        disabled={busyId === s.id}
+                        onClick={() => setPendingPurge({ id: s.id, title: s.title, cardCount: s.cardCount })}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {archive.cards.length > 0 && (
+            <div className="space-y-2">
+              <div className="text-sm font-medium">Cards</div>
+              {archive.cards.map((c) => (
+                <div key={c.id} className="flex items-center gap-2 rounded-md border p-2">
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium truncate">{c.title}</div>
+                    <div className="text-xs text-muted-foreground truncate">
+                      {c.sectionTitle} · {archivedOn(c.archivedAt)}
+                    </div>
+                  </div>
+                  {canEdit && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Restore card"
+                      disabled={busyId === c.id}
+                      onClick={() => run(c.id, () => restoreCard(c.id), `"${c.title}" restored`)}
+                    >
+                      <ArchiveRestore className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {canManage && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Delete forever"
+                      className="text-destructive hover:text-destructive"
+                      disabled={busyId === c.id}
+                      onClick={() => setPendingPurge({ id: c.id, title: c.title })}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </SheetContent>
+
+      <AlertDialog open={!!pendingPurge} onOpenChange={(open) => !open && setPendingPurge(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{pendingPurge?.title}" forever?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingPurge?.cardCount !== undefined
+                ? `The section and its ${pendingPurge.cardCount} card(s), with their comments and attachments, cannot be restored afterwards.`
+                : "The card, its comments and its attachments cannot be restored afterwards."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => {
+                if (!pendingPurge) return;
+                const { id, title, cardCount } = pendingPurge;
+                const purge = cardCount !== undefined ? () => purgeSection(id) : () => purgeCard(id);
+                run(id, purge, `"${title}" deleted forever`);
+              }}
+            >
+              Delete forever
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Sheet>
+  );
+};
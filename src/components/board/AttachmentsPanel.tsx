@@ -0,0 +1,176 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Download, FileText, Paperclip, Trash2, Upload } from "lucide-react";
+import { saveBlob } from "@/lib/utils";
+import { Attachment } from "@/types/board";
+import { useBoardData } from "@/hooks/useBoardData";
+import { useToast } from "@/components/ui/use-toast";
+
+type AttachmentActions = Pick<
+  ReturnType<typeof useBoardData>,
+  "listAttachments" | "uploadAttachment" | "deleteAttachment" | "downloadAttachment"
+>;
+
+interface AttachmentsPanelProps {
+  cardId: string;
+  actions: AttachmentActions;
+  canEdit?: boolean;
+  // Owners may delete any attachment, editors only their own
+  isOwner?: boolean;
+  // Any change reloads the list (e.g. the card's attachment count after a live event)
+  refreshKey?: unknown;
+}
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+// Image preview from a blob URL, released when the thumbnail goes away; clicking opens the full image
+const Thumbnail = ({ attachment, load }: { attachment: Attachment; load: AttachmentActions["downloadAttachment"] }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  // The loader changes identity on every render of the page; only a different attachment refetches
+  const loadRef = useRef(load);
+  loadRef.current = load;
+  const { id } = attachment;
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let mounted = true;
+    loadRef.current({ id }, true)
+      .then((blob) => {
+        if (!mounted) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch((e) => console.error(e));
+    return () => {
+      mounted = false;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [id]);
+
+  if (!url) return <Paperclip className="h-5 w-5 text-muted-foreground" />;
+  return (
+    <a href={url} target="_blank" rel="noreferrer" className="h-full w-full" title="Open">
+      <img src={url} alt={attachment.filename} className="h-full w-full object-cover" />
+    </a>
+  );
+};
+
+export const AttachmentsPanel = ({ cardId, actions, canEdit = true, isOwner = false, refreshKey }: AttachmentsPanelProps) => {
+  const { toast } = useToast();
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const fileInput = useRef<HTMLInputElement | null>(null);
+  const currentUserId = localStorage.getItem("userId");
+
+  useEffect(() => {
+    let mounted = true;
+    actions
+      .listAttachments(cardId)
+      .then((a) => mounted && setAttachments(a))
+      .catch((e) => console.error(e));
+    return () => {
+      mounted = false;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [cardId, refreshKey]);
+
+  const handleUpload = async (files: FileList | null) => {
+    if (!files?.length) return;
+    setUploading(true);
+    try {
+      for (const file of Array.from(files)) {
+        const created = await actions.uploadAttachment(cardId, file);
+        setAttachments((prev) => [...prev.filter((a) => a.id !== created.id), created]);
+      }
+    } catch (e) {
+      toast({ title: "Upload failed", description: e instanceof Error ? e.message : undefined, variant: "destructive" });
+    } finally {
+      setUploading(false);
+      if (fileInput.current) fileInput.current.value = "";
+    }
+  };
+
+  const handleDownload = async (attachment: Attachment) => {
+    try {
+      saveBlob(await actions.downloadAttachment(attachment), attachment.filename);
+    } catch (e) {
+      toast({ title: "Download failed", description: e instanceof Error ? e.message : undefined, variant: "destructive" });
+    }
+  };
+
+  const handleDelete = async (attachment: Attachment) => {
+    try {
+      await actions.deleteAttachment(attachment.id);
+      setAttachments((prev) => prev.filter((a) => a.id !== attachment.id));
+      toast({ title: "Attachment removed" });
+    } catch (e) {
+      toast({ title: "Failed to remove attachment", description: e instanceof Error ? e.message : undefined, variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {attachments.length === 0 && <p className="text-sm text-muted-foreground">No attachments yet</p>}
+
+      <div className="space-y-2">
+        {attachments.map((attachment) => {
+          const isImage = attachment.mimeType.startsWith("image/");
+          const canDelete = canEdit && (isOwner || attachment.uploader?.id === currentUserId);
+          return (
+            <div key={attachment.id} className="group flex items-center gap-3 rounded-md border p-2">
+              <div className="h-12 w-12 shrink-0 overflow-hidden rounded bg-muted flex items-center justify-center">
+                {isImage ? (
+                  <Thumbnail attachment={attachment} load={actions.downloadAttachment} />
+                ) : (
+                  <FileText className="h-5 w-5 text-muted-foreground" />
+                )}
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-medium truncate" title={attachment.filename}>
+                  {attachment.filename}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {formatSize(attachment.size)} · {attachment.uploader?.name ?? "Unknown"} · {attachment.createdAt.toLocaleDateString()}
+                </div>
+              </div>
+              <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title="Download" onClick={() => handleDownload(attachment)}>
+                <Download className="h-3.5 w-3.5" />
+              </Button>
+              {canDelete && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0 text-muted-foreground hover:text-destructive"
+                  title="Remove attachment"
+                  onClick={() => handleDelete(attachment)}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {canEdit && (
+        <>
+          <input
+            ref={fileInput}
+            type="file"
+            multiple
+            className="hidden"
+            onChange={(e) => handleUpload(e.target.files)}
+          />
+          <Button variant="outline" size="sm" className="gap-2" disabled={uploading} onClick={() => fileInput.current?.click()}>
+            {uploading ? <Paperclip className="h-4 w-4 animate-pulse" /> : <Upload className="h-4 w-4" />}
+            {uploading ? "Uploading..." : "Attach files"}
+          </Button>
+        </>
+      )}
+    </div>
+  );
+};
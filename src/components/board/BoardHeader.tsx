@@ -1,7 +1,13 @@
 import { Button } from "@/components/ui/button";
-import { Plus, Trash2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Link } from "react-router-dom";
+import { Archive, BarChart3, Download, History, Plus, Rows3, Search, Trash2, Users, X } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { FilterPanel } from "./FilterPanel";
 import { FilterState } from "@/hooks/useFilters";
+import { Label } from "@/types/board";
+import { SwimlaneGrouping } from "@/lib/swimlanes";
+import { BoardView, ViewToggle } from "./ViewToggle";
 
 interface BoardHeaderProps {
   onAddSection: () => void;
@@ -10,11 +16,32 @@ interface BoardHeaderProps {
   onUpdateFilter: (updates: Partial<FilterState>) => void;
   onTogglePriority: (priority: any) => void;
   onToggleExecutor: (executor: string) => void;
+  onToggleLabel: (labelId: string) => void;
   onClearFilters: () => void;
   hasActiveFilters: boolean;
   availableExecutors: string[];
+  availableLabels: Label[];
   title?: string;
   subtitle?: string;
+  onOpenMembers?: () => void;
+  onOpenActivity?: () => void;
+  onOpenArchive?: () => void;
+  // Link to the board's insights page
+  insightsHref?: string;
+  // Board search; matchCount is null while no search is active
+  searchQuery?: string;
+  onSearchChange?: (query: string) => void;
+  searchMatchCount?: number | null;
+  // Downloads the filtered cards as CSV
+  onExportCsv?: () => void;
+  view?: BoardView;
+  onViewChange?: (view: BoardView) => void;
+  // Swimlane grouping; "none" is the plain board
+  groupBy?: SwimlaneGrouping;
+  onGroupByChange?: (groupBy: SwimlaneGrouping) => void;
+  // Role-based visibility: editors may add sections, only owners may delete them all
+  canEdit?: boolean;
+  canManage?: boolean;
 }
 
 export const BoardHeader = ({ 
@@ -24,11 +51,27 @@ export const BoardHeader = ({
   onUpdateFilter,
   onTogglePriority,
   onToggleExecutor,
+  onToggleLabel,
   onClearFilters,
   hasActiveFilters,
   availableExecutors,
+  availableLabels,
   title,
-  subtitle
+  subtitle,
+  onOpenMembers,
+  onOpenActivity,
+  onOpenArchive,
+  insightsHref,
+  searchQuery = "",
+  onSearchChange,
+  searchMatchCount = null,
+  onExportCsv,
+  view = "board",
+  onViewChange,
+  groupBy = "none",
+  onGroupByChange,
+  canEdit = true,
+  canManage = true
 }: BoardHeaderProps) => {
   return (
     <div className="mb-6 md:mb-8">
@@ -42,37 +85,132 @@ export const BoardHeader = ({
 
         {/* Actions stacked on small screens */}
         <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-2 sm:gap-3">
+          {onSearchChange && (
+            <div className="relative order-3 sm:order-none">
+              <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                className="pl-8 pr-16 w-full sm:w-56"
+                placeholder="Search cards..."
+                value={searchQuery}
+                onChange={(e) => onSearchChange(e.target.value)}
+                onKeyDown={(e) => e.key === "Escape" && onSearchChange("")}
+              />
+              {searchQuery && (
+                <div className="absolute right-2 top-1/2 -translate-y-1/2 flex items-center gap-1">
+                  {searchMatchCount !== null && (
+                    <span className="text-xs text-muted-foreground" title="Matching cards">{searchMatchCount}</span>
+                  )}
+                  <button
+                    type="button"
+                    className="text-muted-foreground hover:text-foreground"
+                    title="Clear search"
+                    onClick={() => onSearchChange("")}
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
           <div className="order-2 sm:order-1">
             <FilterPanel
               filters={filters}
               onUpdateFilter={onUpdateFilter}
               onTogglePriority={onTogglePriority}
               onToggleExecutor={onToggleExecutor}
+              onToggleLabel={onToggleLabel}
               onClearFilters={onClearFilters}
               hasActiveFilters={hasActiveFilters}
               availableExecutors={availableExecutors}
+              availableLabels={availableLabels}
             />
           </div>
 
-          <div className="flex gap-2 order-1 sm:order-2">
-            <Button 
-              onClick={onAddSection}
-              className="gap-2 bg-gradient-primary hover:opacity-90 transition-opacity flex-1 sm:flex-none"
+          {onViewChange && <ViewToggle view={view} onViewChange={onViewChange} className="order-2 sm:order-1" />}
+
+          {onGroupByChange && (
+            <div className="order-2 sm:order-1">
+              <Select value={groupBy} onValueChange={(v) => onGroupByChange(v as SwimlaneGrouping)}>
+                <SelectTrigger className="w-full sm:w-44 gap-2" title="Swimlanes">
+                  <Rows3 className="h-4 w-4 shrink-0" />
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No swimlanes</SelectItem>
+                  <SelectItem value="assignee">By assignee</SelectItem>
+                  <SelectItem value="priority">By priority</SelectItem>
+                  <SelectItem value="executor">By executor</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {onExportCsv && (
+            <Button
+              variant="outline"
+              className="gap-2 order-2 sm:order-1"
+              onClick={onExportCsv}
+              title={hasActiveFilters ? "Export the filtered cards as CSV" : "Export all cards as CSV"}
             >
-              <Plus className="h-4 w-4" />
-              <span className="hidden xs:inline">Add Section</span>
-              <span className="xs:hidden">Add</span>
+              <Download className="h-4 w-4" />
+              <span className="hidden md:inline">CSV</span>
             </Button>
+          )}
+
+          <div className="flex gap-2 order-1 sm:order-2">
+            {onOpenActivity && (
+              <Button variant="outline" onClick={onOpenActivity} className="gap-2 flex-1 sm:flex-none">
+                <History className="h-4 w-4" />
+                <span className="hidden md:inline">Activity</span>
+              </Button>
+            )}
+
+            {insightsHref && (
+              <Button variant="outline" className="gap-2 flex-1 sm:flex-none" asChild>
+                <Link to={insightsHref}>
+                  <BarChart3 className="h-4 w-4" />
+                  <span className="hidden md:inline">Insights</span>
+                </Link>
+              </Button>
+            )}
+
+            {onOpenArchive && (
+              <Button variant="outline" onClick={onOpenArchive} className="gap-2 flex-1 sm:flex-none">
+                <Archive className="h-4 w-4" />
+                <span className="hidden md:inline">Archive</span>
+              </Button>
+            )}
+
+            {onOpenMembers && (
+              <Button variant="outline" onClick={onOpenMembers} className="gap-2 flex-1 sm:flex-none">
+                <Users className="h-4 w-4" />
+                <span className="hidden md:inline">Members</span>
+              </Button>
+            )}
+
+            {canEdit && (
+              <Button 
+                onClick={onAddSection}
+                className="gap-2 bg-gradient-primary hover:opacity-90 transition-opacity flex-1 sm:flex-none"
+              >
+                <Plus className="h-4 w-4" />
+                <span className="hidden xs:inline">Add Section</span>
+                <span className="xs:hidden">Add</span>
+              </Button>
+            )}
             
-            <Button 
-              variant="destructive"
-              onClick={onDeleteAllSections}
-              className="gap-2 flex-1 sm:flex-none"
-            >
-              <Trash2 className="h-4 w-4" />
-              <span className="hidden md:inline">Delete All Sections</span>
-              <span className="md:hidden">Delete All</span>
-            </Button>
+            {canManage && (
+              <Button 
+                variant="destructive"
+                onClick={onDeleteAllSections}
+                className="gap-2 flex-1 sm:flex-none"
+              >
+                <Trash2 className="h-4 w-4" />
+                <span className="hidden md:inline">Delete All Sections</span>
+                <span className="md:hidden">Delete All</span>
+              </Button>
+            )}
           </div>
         </div>
       </div>
@@ -1,17 +1,18 @@
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { Plus, MoreVertical, Trash2, RefreshCw } from "lucide-react";
+import { Plus, MoreVertical, Trash2, RefreshCw, GripVertical, Gauge } from "lucide-react";
 import { Section, Card as CardType } from "@/types/board";
 import { TaskCard } from "./TaskCard";
+import { WipLimitDialog } from "./WipLimitDialog";
 import { 
   DropdownMenu, 
   DropdownMenuContent, 
   DropdownMenuItem, 
   DropdownMenuTrigger 
 } from "@/components/ui/dropdown-menu";
-import { useDroppable } from "@dnd-kit/core";
-import { SortableContext, verticalListSortingStrategy } from "@dnd-kit/sortable";
+import { SortableContext, useSortable, verticalListSortingStrategy } from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
 
 interface BoardSectionProps {
   section: Section;
@@ -19,6 +20,14 @@ interface BoardSectionProps {
   onDeleteSection: (sectionId: string) => void;
   onClearSection: (sectionId: string) => void;
   onCardClick: (card: CardType) => void;
+  onUpdateWipLimit?: (sectionId: string, updates: Pick<Section, "wipLimit" | "wipStrict">) => Promise<void>;
+  // Cards in the section before filtering, which is what the WIP limit counts
+  totalCards?: number;
+  // Search terms to highlight on the cards
+  highlight?: string[];
+  // Role-based visibility: editors may add cards and set the WIP limit, only owners may clear/delete the section
+  canEdit?: boolean;
+  canManage?: boolean;
 }
 
 export const BoardSection = ({ 
@@ -26,66 +35,149 @@ export const BoardSection = ({
   onAddCard, 
   onDeleteSection, 
   onClearSection,
-  onCardClick 
+  onCardClick,
+  onUpdateWipLimit,
+  totalCards = section.cards.length,
+  highlight,
+  canEdit = true,
+  canManage = true
 }: BoardSectionProps) => {
-  const { setNodeRef } = useDroppable({
+  // The column is both sortable (horizontal reorder) and the drop target for cards
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({
     id: section.id,
+    data: { type: "section", sectionId: section.id },
+    disabled: !canEdit,
   });
 
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+  };
+
+  const [wipDialogOpen, setWipDialogOpen] = useState(false);
+  const canSetWipLimit = canEdit && !!onUpdateWipLimit;
+  const limit = section.wipLimit ?? null;
+  const overLimit = limit !== null && totalCards > limit;
+  const atLimit = limit !== null && totalCards === limit;
+  // Filters hide cards: show "visible of total" so the badge still matches the limit
+  const countLabel = section.cards.length === totalCards ? `${totalCards}` : `${section.cards.length} of ${totalCards}`;
+
   return (
-    <Card className="bg-board-section/50 backdrop-blur-sm shadow-section p-4 min-h-[500px] w-80 flex-shrink-0">
+    <Card
+      ref={setNodeRef}
+      style={style}
+      {...attributes}
+      className={`bg-board-section/50 backdrop-blur-sm shadow-section p-4 min-h-[500px] w-80 flex-shrink-0 ${isDragging ? "opacity-60" : ""} ${overLimit ? "ring-2 ring-destructive/60" : ""}`}
+    >
       <div className="flex items-center justify-between mb-4">
-        <h3 className="font-semibold text-board-header text-lg">{section.title}</h3>
+        <div className="flex items-center gap-1 min-w-0">
+          {/* Drag handle for reordering columns */}
+          {canEdit && (
+            <span
+              {...listeners}
+              className="cursor-grab active:cursor-grabbing text-muted-foreground/60 hover:text-muted-foreground"
+              title="Drag to reorder"
+            >
+              <GripVertical className="h-4 w-4" />
+            </span>
+          )}
+          <h3 className="font-semibold text-board-header text-lg truncate">{section.title}</h3>
+        </div>
         
         <div className="flex items-center gap-2">
-          <span className="text-sm text-muted-foreground bg-muted px-2 py-1 rounded-full">
-            {section.cards.length}
+          <span
+            className={`text-sm px-2 py-1 rounded-full ${
+              overLimit
+                ? "bg-destructive/15 text-destructive font-medium"
+                : atLimit
+                  ? "bg-amber-100 text-amber-800"
+                  : "text-muted-foreground bg-muted"
+            }`}
+            title={
+              limit === null
+                ? undefined
+                : `${overLimit ? "Over the" : atLimit ? "At the" : "Within the"} WIP limit of ${limit}${section.wipStrict ? " (strict)" : ""}`
+            }
+          >
+            {limit === null ? countLabel : `${countLabel} / ${limit}`}
           </span>
           
-          <DropdownMenu>
-            <DropdownMenuTrigger asChild>
-              <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
-                <MoreVertical className="h-4 w-4" />
-              </Button>
-            </DropdownMenuTrigger>
-            <DropdownMenuContent align="end" className="bg-popover">
-              <DropdownMenuItem onClick={() => onClearSection(section.id)}>
-                <RefreshCw className="h-4 w-4 mr-2" />
-                Clear Section
-              </DropdownMenuItem>
-              {section.canDelete && (
-                <DropdownMenuItem 
-                  onClick={() => onDeleteSection(section.id)}
-                  className="text-destructive focus:text-destructive"
-                >
-                  <Trash2 className="h-4 w-4 mr-2" />
-                  Delete Section
-                </DropdownMenuItem>
-              )}
-            </DropdownMenuContent>
-          </DropdownMenu>
+          {(canManage || canSetWipLimit) && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
+                  <MoreVertical className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="bg-popover">
+                {canSetWipLimit && (
+                  <DropdownMenuItem onClick={() => setWipDialogOpen(true)}>
+                    <Gauge className="h-4 w-4 mr-2" />
+                    {limit === null ? "Set WIP Limit" : `WIP Limit: ${limit}${section.wipStrict ? " (strict)" : ""}`}
+                  </DropdownMenuItem>
+                )}
+                {canManage && (
+                  <DropdownMenuItem onClick={() => onClearSection(section.id)}>
+                    <RefreshCw className="h-4 w-4 mr-2" />
+                    Clear Section
+                  </DropdownMenuItem>
+                )}
+                {canManage && section.canDelete && (
+                  <DropdownMenuItem 
+                    onClick={() => onDeleteSection(section.id)}
+                    className="text-destructive focus:text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete Section
+                  </DropdownMenuItem>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
         </div>
       </div>
 
-      <Button 
-        variant="ghost" 
-        onClick={() => onAddCard(section.id)}
-        className="w-full mb-4 border-2 border-dashed border-muted-foreground/30 hover:border-muted-foreground/50 transition-colors"
-      >
-        <Plus className="h-4 w-4 mr-2" />
-        Add Card
-      </Button>
+      {overLimit && (
+        <p className="text-xs text-destructive -mt-2 mb-3">
+          {totalCards - limit} card{totalCards - limit === 1 ? "" : "s"} over the WIP limit
+        </p>
+      )}
+
+      {canSetWipLimit && (
+        <WipLimitDialog
+          section={section}
+          isOpen={wipDialogOpen}
+          onClose={() => setWipDialogOpen(false)}
+          onSave={(updates) => onUpdateWipLimit(section.id, updates)}
+        />
+      )}
+
+      {canEdit && (
+        <Button 
+          variant="ghost" 
+          onClick={() => onAddCard(section.id)}
+          className="w-full mb-4 border-2 border-dashed border-muted-foreground/30 hover:border-muted-foreground/50 transition-colors"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Card
+        </Button>
+      )}
 
-      <div 
-        ref={setNodeRef}
-        className="space-y-3 min-h-[400px]"
-      >
+      <div className="space-y-3 min-h-[400px]">
         <SortableContext items={section.cards.map(card => card.id)} strategy={verticalListSortingStrategy}>
           {section.cards.map((card) => (
             <TaskCard 
               key={card.id} 
               card={card} 
               onClick={() => onCardClick(card)}
+              highlight={highlight}
             />
           ))}
         </SortableContext>
@@ -0,0 +1,173 @@
+import { DndContext, DragEndEvent, pointerWithin, useDraggable, useDroppable } from "@dnd-kit/core";
+import { CSS } from "@dnd-kit/utilities";
+import { format, isSameMonth, isToday } from "date-fns";
+import { CalendarOff } from "lucide-react";
+import { Card, Priority } from "@/types/board";
+import { CalendarMode, calendarDays, cardsByDay, dayKey } from "@/lib/calendar";
+import { getDueStatus } from "@/hooks/useFilters";
+
+interface CardCalendarProps {
+  // Filtered cards; those without a due date go to the tray
+  cards: Card[];
+  cursor: Date;
+  mode: CalendarMode;
+  // day is null when a card is dropped on the tray, which clears its due date
+  onReschedule: (card: Card, day: Date | null) => void;
+  onCardClick: (card: Card) => void;
+  canEdit?: boolean;
+}
+
+const priorityClass: Record<Priority, string> = {
+  low: "border-l-priority-low",
+  normal: "border-l-priority-normal",
+  high: "border-l-priority-high",
+};
+
+const UNSCHEDULED = "unscheduled";
+
+interface CalendarCardProps {
+  card: Card;
+  onClick: () => void;
+  canEdit: boolean;
+}
+
+const CalendarCard = ({ card, onClick, canEdit }: CalendarCardProps) => {
+  const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
+    id: card.id,
+    data: { type: "card", cardId: card.id },
+    disabled: !canEdit,
+  });
+  const overdue = getDueStatus(card) === "overdue";
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{ transform: CSS.Translate.toString(transform) }}
+      {...attributes}
+      {...listeners}
+      onClick={() => !isDragging && onClick()}
+      title={card.title}
+      className={`relative rounded border border-l-4 bg-card px-2 py-1 text-xs shadow-sm truncate cursor-pointer hover:bg-muted/60 ${
+        priorityClass[card.priority]
+      } ${overdue ? "text-destructive" : ""} ${isDragging ? "z-50 opacity-80 shadow-md" : ""}`}
+    >
+      {card.title}
+    </div>
+  );
+};
+
+interface DayCellProps {
+  day: Date;
+  cards: Card[];
+  muted: boolean;
+  tall: boolean;
+  onCardClick: (card: Card) => void;
+  canEdit: boolean;
+}
+
+const DayCell = ({ day, cards, muted, tall, onCardClick, canEdit }: DayCellProps) => {
+  const { setNodeRef, isOver } = useDroppable({ id: `day:${dayKey(day)}`, data: { type: "day", day } });
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={`flex flex-col gap-1 border-b border-r p-1.5 ${tall ? "min-h-[320px]" : "min-h-[110px]"} ${
+        muted ? "bg-muted/30" : "bg-background/60"
+      } ${isOver ? "ring-2 ring-inset ring-primary/40" : ""}`}
+    >
+      <span
+        className={`self-end text-xs ${
+          isToday(day) ? "rounded-full bg-primary px-1.5 text-primary-foreground" : muted ? "text-muted-foreground" : ""
+        }`}
+      >
+        {format(day, tall ? "EEE d" : "d")}
+      </span>
+      {cards.map((card) => (
+        <CalendarCard key={card.id} card={card} onClick={() => onCardClick(card)} canEdit={canEdit} />
+      ))}
+    </div>
+  );
+};
+
+interface TrayProps {
+  cards: Card[];
+  onCardClick: (card: Card) => void;
+  canEdit: boolean;
+}
+
+const UnscheduledTray = ({ cards, onCardClick, canEdit }: TrayProps) => {
+  const { setNodeRef, isOver } = useDroppable({ id: UNSCHEDULED, data: { type: UNSCHEDULED } });
+
+  return (
+    <aside
+      ref={setNodeRef}
+      className={`w-full lg:w-64 flex-shrink-0 rounded-xl border bg-background/80 p-3 space-y-2 self-start ${
+        isOver ? "ring-2 ring-primary/40" : ""
+      }`}
+    >
+      <div className="flex items-center justify-between text-sm font-medium">
+        <span className="flex items-center gap-2">
+          <CalendarOff className="h-4 w-4" />
+          Unscheduled
+        </span>
+        <span className="text-xs text-muted-foreground bg-muted px-2 py-0.5 rounded-full">{cards.length}</span>
+      </div>
+      {cards.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          {canEdit ? "Drop a card here to clear its due date" : "Every card has a due date"}
+        </p>
+      ) : (
+        cards.map((card) => <CalendarCard key={card.id} card={card} onClick={() => onCardClick(card)} canEdit={canEdit} />)
+      )}
+    </aside>
+  );
+};
+
+export const CardCalendar = ({ cards, cursor, mode, onReschedule, onCardClick, canEdit = true }: CardCalendarProps) => {
+  const days = calendarDays(cursor, mode);
+  const byDay = cardsByDay(cards);
+  const unscheduled = cards.filter((c) => !c.dueDate);
+  const cardsById = new Map(cards.map((c) => [c.id, c]));
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    if (!over || !canEdit) return;
+    const card = cardsById.get(String(active.id));
+    const data = over.data.current;
+    if (!card) return;
+    if (data?.type === UNSCHEDULED) {
+      if (card.dueDate) onReschedule(card, null);
+      return;
+    }
+    if (data?.type === "day" && (!card.dueDate || dayKey(card.dueDate) !== dayKey(data.day))) {
+      onReschedule(card, data.day);
+    }
+  };
+
+  return (
+    <DndContext collisionDetection={pointerWithin} onDragEnd={handleDragEnd}>
+      <div className="flex flex-col lg:flex-row gap-6 pb-6">
+        <div className="flex-1 min-w-0 rounded-xl border-l border-t">
+          <div className="grid grid-cols-7 border-b border-r bg-muted/50 text-xs font-medium text-muted-foreground">
+            {days.slice(0, 7).map((day) => (
+              <div key={dayKey(day)} className="px-2 py-1.5 border-r last:border-r-0">{format(day, "EEE")}</div>
+            ))}
+          </div>
+          <div className="grid grid-cols-7">
+            {days.map((day) => (
+              <DayCell
+                key={dayKey(day)}
+                day={day}
+                cards={byDay.get(dayKey(day)) ?? []}
+                muted={mode === "month" && !isSameMonth(day, cursor)}
+                tall={mode === "week"}
+                onCardClick={onCardClick}
+                canEdit={canEdit}
+              />
+            ))}
+          </div>
+        </div>
+        <UnscheduledTray cards={unscheduled} onCardClick={onCardClick} canEdit={canEdit} />
+      </div>
+    </DndContext>
+  );
+};
@@ -4,10 +4,14 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Card as CardType, Priority, Comment, UserLite } from "@/types/board";
-import { Trash2, MessageCircle, Send, Users, Check } from "lucide-react";
+import { Card as CardType, Priority, Comment, UserLite, Label } from "@/types/board";
+import { Trash2, MessageCircle, Send, Users, Check, CalendarIcon, X } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { useBoardData } from "@/hooks/useBoardData";
+import { LabelPicker } from "./LabelPicker";
+import { ChecklistPanel } from "./ChecklistPanel";
 
 interface CardModalProps {
   card: CardType | null;
@@ -35,14 +39,75 @@ const priorityConfig = {
 
 const API_BASE = import.meta.env.VITE_API_BASE ?? "http://localhost:4001/api";
 
+interface DateFieldProps {
+  label: string;
+  value: Date | null;
+  onChange: (date: Date | null) => void;
+}
+
+// Calendar in a popover with a clear button; the card stores the picked day at local midnight
+const DateField = ({ label, value, onChange }: DateFieldProps) => {
+  const [open, setOpen] = useState(false);
+  return (
+    <div>
+      <label className="text-sm font-medium mb-2 block">{label}</label>
+      <div className="flex gap-1">
+        <Popover open={open} onOpenChange={setOpen}>
+          <PopoverTrigger asChild>
+            <Button variant="outline" className={`flex-1 justify-start gap-2 font-normal ${value ? "" : "text-muted-foreground"}`}>
+              <CalendarIcon className="h-4 w-4" />
+              {value ? value.toLocaleDateString() : "No date"}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar
+              mode="single"
+              selected={value ?? undefined}
+              defaultMonth={value ?? undefined}
+              onSelect={(date) => {
+                onChange(date ?? null);
+                setOpen(false);
+              }}
+              initialFocus
+            />
+          </PopoverContent>
+        </Popover>
+        {value && (
+          <Button variant="ghost" size="icon" title={`Clear ${label.toLowerCase()}`} onClick={() => onChange(null)}>
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
 export const CardModal = ({ card, isOpen, onClose, onSave, onDelete, isNew = false }: CardModalProps) => {
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
   const [priority, setPriority] = useState<Priority>("normal");
   const [executor, setExecutor] = useState("");
+  const [startDate, setStartDate] = useState<Date | null>(null);
+  const [dueDate, setDueDate] = useState<Date | null>(null);
+  const [labelIds, setLabelIds] = useState<string[]>([]);
+  const [boardLabels, setBoardLabels] = useState<Label[]>([]);
   const [newComment, setNewComment] = useState("");
   // Users picker state (assign existing users at creation/edit)
-  const { listUsers } = useBoardData();
+  const {
+    listMembers,
+    listLabels,
+    createLabel,
+    updateLabel,
+    deleteLabel,
+    listChecklists,
+    createChecklist,
+    renameChecklist,
+    deleteChecklist,
+    addChecklistItem,
+    updateChecklistItem,
+    deleteChecklistItem,
+    moveChecklistItem,
+  } = useBoardData();
   const [allUsers, setAllUsers] = useState<UserLite[]>([]);
   const [usersLoading, setUsersLoading] = useState(false);
   const [userPickerOpen, setUserPickerOpen] = useState(false);
@@ -62,10 +127,15 @@ export const CardModal = ({ card, isOpen, onClose, onSave, onDelete, isNew = fal
         setDescription(card.description);
         setPriority(card.priority);
         setExecutor(card.executor);
+        setStartDate(card.startDate ?? null);
+        setDueDate(card.dueDate ?? null);
+        setLabelIds((card.labels ?? []).map((l) => l.id));
         // Load comments from API to have server truth
         try {
           setLoadingComments(true);
-          const res = await fetch(`${API_BASE}/projects/${window.location.pathname.match(/^\/project\/([^\/]+)/)?.[1] || "default"}/cards/${card.id}/comments`);
+          const res = await fetch(`${API_BASE}/projects/${window.location.pathname.match(/^\/project\/([^\/]+)/)?.[1] || "default"}/cards/${card.id}/comments`, {
+            headers: { "Authorization": `Bearer ${getAuthToken()}` }
+          });
           if (res.ok) {
             const data = await res.json();
             // Map to Comment type with Date objects
@@ -89,6 +159,9 @@ export const CardModal = ({ card, isOpen, onClose, onSave, onDelete, isNew = fal
         setDescription("");
         setPriority("normal");
         setExecutor("");
+        setStartDate(null);
+        setDueDate(null);
+        setLabelIds([]);
         setComments([]);
       }
       setNewComment("");
@@ -104,7 +177,7 @@ export const CardModal = ({ card, isOpen, onClose, onSave, onDelete, isNew = fal
     (async () => {
       setUsersLoading(true);
       try {
-        const u = await listUsers();
+        const u = await listMembers();
         if (mounted) setAllUsers(u);
       } finally {
         if (mounted) setUsersLoading(false);
@@ -116,6 +189,39 @@ export const CardModal = ({ card, isOpen, onClose, onSave, onDelete, isNew = fal
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isOpen]);
 
+  // The label palette can change between openings (other cards, other people)
+  useEffect(() => {
+    if (!isOpen) return;
+    let mounted = true;
+    listLabels()
+      .then((l) => mounted && setBoardLabels(l))
+      .catch((e) => console.error(e));
+    return () => {
+      mounted = false;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
+
+  const toggleLabel = (label: Label) =>
+    setLabelIds((prev) => (prev.includes(label.id) ? prev.filter((id) => id !== label.id) : [...prev, label.id]));
+
+  const handleCreateLabel = async (name: string, color: string) => {
+    const created = await createLabel(name, color);
+    setBoardLabels((prev) => [...prev, created].sort((a, b) => a.name.localeCompare(b.name)));
+    return created;
+  };
+
+  const handleUpdateLabel = async (labelId: string, updates: Partial<Pick<Label, "name" | "color">>) => {
+    const updated = await updateLabel(labelId, updates);
+    setBoardLabels((prev) => prev.map((l) => (l.id === labelId ? updated : l)));
+    return updated;
+  };
+
+  const handleDeleteLabel = async (labelId: string) => {
+    await deleteLabel(labelId);
+    setBoardLabels((prev) => prev.filter((l) => l.id !== labelId));
+  };
+
   // Close user picker on outside click
   useEffect(() => {
     const onDocClick = (e: MouseEvent) => {
@@ -133,8 +239,10 @@ export const CardModal = ({ card, isOpen, onClose, onSave, onDelete, isNew = fal
     [allUsers, selectedUserId]
   );
 
+  const datesInvalid = !!startDate && !!dueDate && startDate > dueDate;
+
   const handleSave = () => {
-    if (!title.trim()) return;
+    if (!title.trim() || datesInvalid) return;
 
     const savedCard: CardType = {
       id: card?.id || `card-${Date.now()}`,
@@ -145,6 +253,9 @@ export const CardModal = ({ card, isOpen, onClose, onSave, onDelete, isNew = fal
       executor: (selectedUser?.name || executor).trim(),
       comments,
       createdAt: card?.createdAt || new Date(),
+      startDate,
+      dueDate,
+      labels: boardLabels.filter((l) => labelIds.includes(l.id)),
       sectionId: card?.sectionId || "backlog",
       // Include assignees array when user was selected to align with board schema
       assignees: selectedUser ? [{ id: selectedUser.id, name: selectedUser.name, email: selectedUser.email }] as any : (card?.assignees ?? []),
@@ -283,10 +394,10 @@ export const CardModal = ({ card, isOpen, onClose, onSave, onDelete, isNew = fal
                   className="mb-4 inline-flex items-center gap-2 h-9 px-3 rounded-md border bg-background hover:bg-muted"
                   onMouseDown={(e) => { e.preventDefault(); e.stopPropagation(); }}
                   onClick={(e) => { e.preventDefault(); e.stopPropagation(); setUserPickerOpen(o => !o); }}
-                  title="Pick from existing users"
+                  title="Pick a board member"
                 >
                   <Users className="h-4 w-4" />
-                  <span className="text-sm">{selectedUser ? selectedUser.name : "Pick user"}</span>
+                  <span className="text-sm">{selectedUser ? selectedUser.name : "Pick member"}</span>
                 </button>
                 <Input
                   value={executor}
@@ -304,7 +415,7 @@ export const CardModal = ({ card, isOpen, onClose, onSave, onDelete, isNew = fal
                   <div className="p-2 border-b">
                     <input
                       className="w-full h-9 px-2 text-sm rounded-md border bg-background"
-                      placeholder="Search user..."
+                      placeholder="Search member..."
                       value={userPickerQuery}
                       onChange={(e) => setUserPickerQuery(e.target.value)}
                       autoFocus
@@ -312,7 +423,7 @@ export const CardModal = ({ card, isOpen, onClose, onSave, onDelete, isNew = fal
                   </div>
                   <div className="max-h-60 overflow-auto p-1">
                     {usersLoading && (
-                      <div className="px-2 py-2 text-xs text-muted-foreground">Loading users...</div>
+                      <div className="px-2 py-2 text-xs text-muted-foreground">Loading members...</div>
                     )}
                     {(allUsers ?? [])
                       .filter((u) => {
@@ -347,7 +458,7 @@ export const CardModal = ({ card, isOpen, onClose, onSave, onDelete, isNew = fal
                         );
                       })}
                     {!usersLoading && allUsers.length === 0 && (
-                      <div className="px-2 py-3 text-xs text-muted-foreground">No users</div>
+                      <div className="px-2 py-3 text-xs text-muted-foreground">No members</div>
                     )}
                   </div>
                 </div>
@@ -355,6 +466,47 @@ export const CardModal = ({ card, isOpen, onClose, onSave, onDelete, isNew = fal
             </div>
           </div>
 
+          <div>
+            <label className="text-sm font-medium mb-2 block">Labels</label>
+            <LabelPicker
+              labels={boardLabels}
+              selectedIds={labelIds}
+              onToggle={toggleLabel}
+              onCreate={handleCreateLabel}
+              onUpdate={handleUpdateLabel}
+              onDelete={handleDeleteLabel}
+            />
+          </div>
+
+          <div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <DateField label="Start date" value={startDate} onChange={setStartDate} />
+              <DateField label="Due date" value={dueDate} onChange={setDueDate} />
+            </div>
+            {datesInvalid && (
+              <p className="text-sm text-red-500 mt-2">The start date must not be after the due date.</p>
+            )}
+          </div>
+
+          {!isNew && card && (
+            <div>
+              <label className="text-sm font-medium mb-2 block">Checklists</label>
+              <ChecklistPanel
+                cardId={card.id}
+                actions={{
+                  listChecklists,
+                  createChecklist,
+                  renameChecklist,
+                  deleteChecklist,
+                  addChecklistItem,
+                  updateChecklistItem,
+                  deleteChecklistItem,
+                  moveChecklistItem,
+                }}
+              />
+            </div>
+          )}
+
           {!isNew && (
             <div className="space-y-2">
               {error && <p className="text-sm text-red-500">{error}</p>}
@@ -418,7 +570,7 @@ export const CardModal = ({ card, isOpen, onClose, onSave, onDelete, isNew = fal
             </Button>
             <Button 
               onClick={handleSave}
-              disabled={!title.trim()}
+              disabled={!title.trim() || datesInvalid}
               className="bg-gradient-primary hover:opacity-90"
             >
               {isNew ? "Create Card" : "Save Changes"}
@@ -0,0 +1,260 @@
+import { useEffect, useMemo, useState } from "react";
+import { ArrowDown, ArrowUp, ArrowUpDown, Archive, MessageCircle, X } from "lucide-react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Button } from "@/components/ui/button";
+import { Card, Priority, Section } from "@/types/board";
+
+type SortKey = "title" | "section" | "priority" | "assignees" | "executor" | "created" | "comments";
+
+interface CardTableProps {
+  // Filtered sections in board order; every section is offered as a move target
+  sections: Section[];
+  canEdit?: boolean;
+  onCardClick: (card: Card) => void;
+  onChangePriority: (card: Card, priority: Priority) => void;
+  onChangeSection: (card: Card, sectionId: string) => void;
+  // Bulk actions on the selected rows
+  onBulkPriority: (cardIds: string[], priority: Priority) => Promise<void>;
+  onBulkMove: (cardIds: string[], sectionId: string) => Promise<void>;
+  onBulkArchive: (cardIds: string[]) => Promise<void>;
+}
+
+type Row = { card: Card; section: Section; order: number };
+
+const priorityRank: Record<Priority, number> = { low: 1, normal: 2, high: 3 };
+
+const priorityClass: Record<Priority, string> = {
+  low: "text-priority-low",
+  normal: "text-priority-normal",
+  high: "text-priority-high",
+};
+
+const assigneeNames = (card: Card) => (card.assignees ?? []).map((a) => a.name).join(", ");
+
+const compareRows = (key: SortKey) => (a: Row, b: Row) => {
+  switch (key) {
+    case "title":
+      return a.card.title.localeCompare(b.card.title);
+    case "section":
+      return a.order - b.order;
+    case "priority":
+      return priorityRank[a.card.priority] - priorityRank[b.card.priority];
+    case "assignees":
+      return assigneeNames(a.card).localeCompare(assigneeNames(b.card));
+    case "executor":
+      return a.card.executor.localeCompare(b.card.executor);
+    case "created":
+      return a.card.createdAt.getTime() - b.card.createdAt.getTime();
+    case "comments":
+      return a.card.comments.length - b.card.comments.length;
+  }
+};
+
+const COLUMNS: { key: SortKey; label: string; className?: string }[] = [
+  { key: "title", label: "Title" },
+  { key: "section", label: "Section", className: "w-40" },
+  { key: "priority", label: "Priority", className: "w-32" },
+  { key: "assignees", label: "Assignees" },
+  { key: "executor", label: "Executor" },
+  { key: "created", label: "Created", className: "w-28" },
+  { key: "comments", label: "Comments", className: "w-24 text-right" },
+];
+
+export const CardTable = ({
+  sections,
+  canEdit = true,
+  onCardClick,
+  onChangePriority,
+  onChangeSection,
+  onBulkPriority,
+  onBulkMove,
+  onBulkArchive,
+}: CardTableProps) => {
+  // No sort key keeps the board order: sections left to right, cards top to bottom
+  const [sort, setSort] = useState<{ key: SortKey; desc: boolean } | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [busy, setBusy] = useState(false);
+
+  const rows = useMemo(() => {
+    const all = sections.flatMap((section, order) => section.cards.map((card) => ({ card, section, order })));
+    if (!sort) return all;
+    // Stable sort, so ties keep the board order
+    const sorted = [...all].sort(compareRows(sort.key));
+    return sort.desc ? sorted.reverse() : sorted;
+  }, [sections, sort]);
+
+  // Rows hidden by a filter or removed from the board drop out of the selection
+  useEffect(() => {
+    const visible = new Set(rows.map((r) => r.card.id));
+    setSelected((prev) => {
+      const next = new Set([...prev].filter((id) => visible.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [rows]);
+
+  const toggleSort = (key: SortKey) =>
+    setSort((prev) => (prev?.key !== key ? { key, desc: false } : prev.desc ? null : { key, desc: true }));
+
+  const toggleRow = (cardId: string, checked: boolean) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(cardId);
+      else next.delete(cardId);
+      return next;
+    });
+
+  const allSelected = rows.length > 0 && selected.size === rows.length;
+  const someSelected = selected.size > 0 && !allSelected;
+
+  const runBulk = async (action: (cardIds: string[]) => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action([...selected]);
+      setSelected(new Set());
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="rounded-xl border bg-background/80 backdrop-blur-sm shadow-section">
+      {canEdit && selected.size > 0 && (
+        <div className="flex flex-wrap items-center gap-2 border-b px-4 py-2 text-sm">
+          <span className="font-medium">{selected.size} selected</span>
+          <Select value="" onValueChange={(p) => runBulk((ids) => onBulkPriority(ids, p as Priority))} disabled={busy}>
+            <SelectTrigger className="h-8 w-36">
+              <SelectValue placeholder="Set priority" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="high">High</SelectItem>
+              <SelectItem value="normal">Normal</SelectItem>
+              <SelectItem value="low">Low</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value="" onValueChange={(sectionId) => runBulk((ids) => onBulkMove(ids, sectionId))} disabled={busy}>
+            <SelectTrigger className="h-8 w-40">
+              <SelectValue placeholder="Move to" />
+            </SelectTrigger>
+            <SelectContent>
+              {sections.map((s) => (
+                <SelectItem key={s.id} value={s.id}>{s.title}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" className="gap-2" disabled={busy} onClick={() => runBulk(onBulkArchive)}>
+            <Archive className="h-4 w-4" />
+            Archive
+          </Button>
+          <Button variant="ghost" size="sm" className="gap-1 ml-auto" onClick={() => setSelected(new Set())}>
+            <X className="h-4 w-4" />
+            Clear selection
+          </Button>
+        </div>
+      )}
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            {canEdit && (
+              <TableHead className="w-10">
+                <Checkbox
+                  aria-label="Select all"
+                  checked={allSelected ? true : someSelected ? "indeterminate" : false}
+                  onCheckedChange={(checked) => setSelected(checked ? new Set(rows.map((r) => r.card.id)) : new Set())}
+                />
+              </TableHead>
+            )}
+            {COLUMNS.map((col) => (
+              <TableHead key={col.key} className={col.className}>
+                <button
+                  type="button"
+                  className="inline-flex items-center gap-1 hover:text-foreground"
+                  onClick={() => toggleSort(col.key)}
+                >
+                  {col.label}
+                  {sort?.key !== col.key ? (
+                    <ArrowUpDown className="h-3.5 w-3.5 opacity-40" />
+                  ) : sort.desc ? (
+                    <ArrowDown className="h-3.5 w-3.5" />
+                  ) : (
+                    <ArrowUp className="h-3.5 w-3.5" />
+                  )}
+                </button>
+              </TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={COLUMNS.length + 1} className="text-center text-muted-foreground py-8">
+                No cards match the current filters
+              </TableCell>
+            </TableRow>
+          )}
+          {rows.map(({ card, section }) => (
+            <TableRow key={card.id} data-state={selected.has(card.id) ? "selected" : undefined}>
+              {canEdit && (
+                <TableCell>
+                  <Checkbox
+                    aria-label={`Select "${card.title}"`}
+                    checked={selected.has(card.id)}
+                    onCheckedChange={(checked) => toggleRow(card.id, !!checked)}
+                  />
+                </TableCell>
+              )}
+              <TableCell>
+                <button type="button" className="text-left font-medium hover:underline" onClick={() => onCardClick(card)}>
+                  {card.title}
+                </button>
+              </TableCell>
+              <TableCell>
+                {canEdit ? (
+                  <Select value={section.id} onValueChange={(sectionId) => onChangeSection(card, sectionId)}>
+                    <SelectTrigger className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {sections.map((s) => (
+                        <SelectItem key={s.id} value={s.id}>{s.title}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  section.title
+                )}
+              </TableCell>
+              <TableCell>
+                {canEdit ? (
+                  <Select value={card.priority} onValueChange={(p) => onChangePriority(card, p as Priority)}>
+                    <SelectTrigger className={`h-8 ${priorityClass[card.priority]}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="high">High</SelectItem>
+                      <SelectItem value="normal">Normal</SelectItem>
+                      <SelectItem value="low">Low</SelectItem>
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <span className={`capitalize ${priorityClass[card.priority]}`}>{card.priority}</span>
+                )}
+              </TableCell>
+              <TableCell className="text-muted-foreground">{assigneeNames(card) || "—"}</TableCell>
+              <TableCell className="text-muted-foreground">{card.executor || "—"}</TableCell>
+              <TableCell className="text-muted-foreground">{card.createdAt.toLocaleDateString()}</TableCell>
+              <TableCell className="text-right text-muted-foreground">
+                <span className="inline-flex items-center gap-1">
+                  <MessageCircle className="h-3.5 w-3.5" />
+                  {card.comments.length}
+                </span>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
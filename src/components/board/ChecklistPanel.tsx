@@ -0,0 +1,293 @@
+import { useEffect, useState } from "react";
+import { DndContext, DragEndEvent, closestCenter } from "@dnd-kit/core";
+import { SortableContext, arrayMove, useSortable, verticalListSortingStrategy } from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { CheckSquare, GripVertical, Pencil, Plus, Trash2, X } from "lucide-react";
+import { Checklist, ChecklistItem } from "@/types/board";
+import { useBoardData } from "@/hooks/useBoardData";
+import { useToast } from "@/components/ui/use-toast";
+
+type ChecklistActions = Pick<
+  ReturnType<typeof useBoardData>,
+  | "listChecklists"
+  | "createChecklist"
+  | "renameChecklist"
+  | "deleteChecklist"
+  | "addChecklistItem"
+  | "updateChecklistItem"
+  | "deleteChecklistItem"
+  | "moveChecklistItem"
+>;
+
+interface ChecklistPanelProps {
+  cardId: string;
+  actions: ChecklistActions;
+  canEdit?: boolean;
+  // Any change reloads the checklists (e.g. the card's progress after a live event)
+  refreshKey?: unknown;
+}
+
+interface ItemRowProps {
+  item: ChecklistItem;
+  canEdit: boolean;
+  onToggle: () => void;
+  onEdit: (text: string) => void;
+  onDelete: () => void;
+}
+
+const ItemRow = ({ item, canEdit, onToggle, onEdit, onDelete }: ItemRowProps) => {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
+    id: item.id,
+    disabled: !canEdit,
+  });
+  const [editing, setEditing] = useState(false);
+  const [text, setText] = useState(item.text);
+
+  const save = () => {
+    if (text.trim() && text.trim() !== item.text) onEdit(text.trim());
+    setEditing(false);
+  };
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{ transform: CSS.Transform.toString(transform), transition }}
+      className={`group flex items-center gap-2 rounded px-1 py-1 hover:bg-muted/50 ${isDragging ? "opacity-50" : ""}`}
+    >
+      {canEdit && (
+        <span {...attributes} {...listeners} className="cursor-grab active:cursor-grabbing text-muted-foreground opacity-40 hover:opacity-80" title="Drag to reorder">
+          <GripVertical className="h-3.5 w-3.5" />
+        </span>
+      )}
+      <Checkbox checked={item.done} onCheckedChange={onToggle} disabled={!canEdit} />
+      {editing ? (
+        <Input
+          className="h-7 flex-1"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") save();
+            if (e.key === "Escape") setEditing(false);
+          }}
+          onBlur={save}
+          autoFocus
+        />
+      ) : (
+        <span className={`flex-1 text-sm break-words ${item.done ? "line-through text-muted-foreground" : ""}`}>{item.text}</span>
+      )}
+      {canEdit && !editing && (
+        <div className="flex opacity-0 group-hover:opacity-100 transition-opacity">
+          <Button variant="ghost" size="sm" className="h-6 w-6 p-0" title="Edit item" onClick={() => { setText(item.text); setEditing(true); }}>
+            <Pencil className="h-3 w-3" />
+          </Button>
+          <Button variant="ghost" size="sm" className="h-6 w-6 p-0 hover:text-destructive" title="Delete item" onClick={onDelete}>
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const ChecklistPanel = ({ cardId, actions, canEdit = true, refreshKey }: ChecklistPanelProps) => {
+  const { toast } = useToast();
+  const [checklists, setChecklists] = useState<Checklist[]>([]);
+  const [newTitle, setNewTitle] = useState("");
+  const [addingList, setAddingList] = useState(false);
+  const [newItems, setNewItems] = useState<Record<string, string>>({});
+  const [renaming, setRenaming] = useState<{ id: string; title: string } | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+    actions
+      .listChecklists(cardId)
+      .then((c) => mounted && setChecklists(c))
+      .catch((e) => console.error(e));
+    return () => {
+      mounted = false;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [cardId, refreshKey]);
+
+  // Apply locally first, reload the server state when the request fails
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (e) {
+      toast({ title: "Checklist update failed", description: e instanceof Error ? e.message : undefined, variant: "destructive" });
+      actions.listChecklists(cardId).then(setChecklists).catch(console.error);
+    }
+  };
+
+  const patchList = (checklistId: string, fn: (c: Checklist) => Checklist) =>
+    setChecklists((prev) => prev.map((c) => (c.id === checklistId ? fn(c) : c)));
+
+  const handleCreate = () =>
+    run(async () => {
+      const created = await actions.createChecklist(cardId, newTitle.trim() || "Checklist");
+      setChecklists((prev) => [...prev, created]);
+      setNewTitle("");
+      setAddingList(false);
+    });
+
+  const handleRename = () =>
+    run(async () => {
+      if (!renaming || !renaming.title.trim()) return;
+      const { id, title } = renaming;
+      setRenaming(null);
+      patchList(id, (c) => ({ ...c, title: title.trim() }));
+      await actions.renameChecklist(cardId, id, title.trim());
+    });
+
+  const handleDeleteList = (checklistId: string) =>
+    run(async () => {
+      setChecklists((prev) => prev.filter((c) => c.id !== checklistId));
+      await actions.deleteChecklist(cardId, checklistId);
+    });
+
+  const handleAddItem = (checklistId: string) =>
+    run(async () => {
+      const text = newItems[checklistId]?.trim();
+      if (!text) return;
+      setNewItems((prev) => ({ ...prev, [checklistId]: "" }));
+      const created = await actions.addChecklistItem(cardId, checklistId, text);
+      patchList(checklistId, (c) => ({ ...c, items: [...c.items.filter((i) => i.id !== created.id), created] }));
+    });
+
+  const handleUpdateItem = (checklistId: string, item: ChecklistItem, updates: Partial<Pick<ChecklistItem, "text" | "done">>) =>
+    run(async () => {
+      patchList(checklistId, (c) => ({ ...c, items: c.items.map((i) => (i.id === item.id ? { ...i, ...updates } : i)) }));
+      await actions.updateChecklistItem(cardId, checklistId, item.id, updates);
+    });
+
+  const handleDeleteItem = (checklistId: string, itemId: string) =>
+    run(async () => {
+      patchList(checklistId, (c) => ({ ...c, items: c.items.filter((i) => i.id !== itemId) }));
+      await actions.deleteChecklistItem(cardId, checklistId, itemId);
+    });
+
+  const handleDragEnd = (checklist: Checklist) => (event: DragEndEvent) => {
+    const { active, over } = event;
+    if (!over || active.id === over.id) return;
+    const from = checklist.items.findIndex((i) => i.id === active.id);
+    const to = checklist.items.findIndex((i) => i.id === over.id);
+    if (from < 0 || to < 0) return;
+    run(async () => {
+      patchList(checklist.id, (c) => ({ ...c, items: arrayMove(c.items, from, to) }));
+      await actions.moveChecklistItem(cardId, checklist.id, String(active.id), to);
+    });
+  };
+
+  return (
+    <div className="space-y-5">
+      {checklists.map((checklist) => {
+        const done = checklist.items.filter((i) => i.done).length;
+        const total = checklist.items.length;
+        return (
+          <div key={checklist.id} className="space-y-2">
+            <div className="flex items-center gap-2">
+              <CheckSquare className="h-4 w-4 text-muted-foreground" />
+              {renaming?.id === checklist.id ? (
+                <Input
+                  className="h-7 flex-1"
+                  value={renaming.title}
+                  onChange={(e) => setRenaming({ id: checklist.id, title: e.target.value })}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") handleRename();
+                    if (e.key === "Escape") setRenaming(null);
+                  }}
+                  onBlur={handleRename}
+                  autoFocus
+                />
+              ) : (
+                <h4
+                  className={`flex-1 font-medium text-sm ${canEdit ? "cursor-text" : ""}`}
+                  onClick={() => canEdit && setRenaming({ id: checklist.id, title: checklist.title })}
+                >
+                  {checklist.title}
+                </h4>
+              )}
+              <span className="text-xs text-muted-foreground">{done}/{total}</span>
+              {canEdit && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0 text-muted-foreground hover:text-destructive"
+                  title="Delete checklist"
+                  onClick={() => handleDeleteList(checklist.id)}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              )}
+            </div>
+            <Progress value={total ? (done / total) * 100 : 0} className="h-1.5" />
+
+            <DndContext collisionDetection={closestCenter} onDragEnd={handleDragEnd(checklist)}>
+              <SortableContext items={checklist.items.map((i) => i.id)} strategy={verticalListSortingStrategy}>
+                <div className="space-y-0.5">
+                  {checklist.items.map((item) => (
+                    <ItemRow
+                      key={item.id}
+                      item={item}
+                      canEdit={canEdit}
+                      onToggle={() => handleUpdateItem(checklist.id, item, { done: !item.done })}
+                      onEdit={(text) => handleUpdateItem(checklist.id, item, { text })}
+                      onDelete={() => handleDeleteItem(checklist.id, item.id)}
+                    />
+                  ))}
+                </div>
+              </SortableContext>
+            </DndContext>
+
+            {canEdit && (
+              <div className="flex gap-2 pl-6">
+                <Input
+                  className="h-8"
+                  placeholder="Add an item..."
+                  value={newItems[checklist.id] ?? ""}
+                  onChange={(e) => setNewItems((prev) => ({ ...prev, [checklist.id]: e.target.value }))}
+                  onKeyDown={(e) => e.key === "Enter" && handleAddItem(checklist.id)}
+                />
+                <Button size="sm" variant="outline" className="h-8" onClick={() => handleAddItem(checklist.id)}>
+                  <Plus className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {checklists.length === 0 && !addingList && (
+        <p className="text-sm text-muted-foreground">No checklists yet</p>
+      )}
+
+      {canEdit &&
+        (addingList ? (
+          <div className="flex gap-2">
+            <Input
+              className="h-8"
+              placeholder="Checklist title"
+              value={newTitle}
+              onChange={(e) => setNewTitle(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleCreate();
+                if (e.key === "Escape") setAddingList(false);
+              }}
+              autoFocus
+            />
+            <Button size="sm" className="h-8" onClick={handleCreate}>Add</Button>
+            <Button size="sm" variant="ghost" className="h-8" onClick={() => setAddingList(false)}>Cancel</Button>
+          </div>
+        ) : (
+          <Button variant="outline" size="sm" className="gap-2" onClick={() => setAddingList(true)}>
+            <Plus className="h-4 w-4" />
+            Add checklist
+          </Button>
+        ))}
+    </div>
+  );
+};
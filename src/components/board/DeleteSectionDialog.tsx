@@ -0,0 +1,96 @@
+import { useEffect, useState } from "react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Section, SectionCardsChoice } from "@/types/board";
+
+interface DeleteSectionDialogProps {
+  // The section to delete; null keeps the dialog closed
+  section: Section | null;
+  // Where its cards can go
+  otherSections: Section[];
+  onClose: () => void;
+  onConfirm: (choice: SectionCardsChoice) => void;
+}
+
+export const DeleteSectionDialog = ({ section, otherSections, onClose, onConfirm }: DeleteSectionDialogProps) => {
+  const [mode, setMode] = useState<SectionCardsChoice["cards"]>("move");
+  const [targetSectionId, setTargetSectionId] = useState("");
+
+  // Fresh defaults each time: move the cards to the first other section (the Backlog)
+  useEffect(() => {
+    if (!section) return;
+    setMode(section.cards.length ? "move" : "archive");
+    setTargetSectionId(otherSections[0]?.id ?? "");
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [section?.id]);
+
+  const count = section?.cards.length ?? 0;
+  const cardsLabel = `${count} card${count === 1 ? "" : "s"}`;
+  const canConfirm = mode !== "move" || !!targetSectionId;
+
+  return (
+    <AlertDialog open={!!section} onOpenChange={(open) => !open && onClose()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete "{section?.title}"?</AlertDialogTitle>
+          <AlertDialogDescription>
+            The section goes to the board's archive. Choose what happens to its {cardsLabel}.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {count > 0 && (
+          <RadioGroup value={mode} onValueChange={(v) => setMode(v as SectionCardsChoice["cards"])} className="space-y-2">
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="move" id="section-cards-move" disabled={otherSections.length === 0} />
+              <Label htmlFor="section-cards-move" className="font-normal">Move them to</Label>
+              <Select value={targetSectionId} onValueChange={setTargetSectionId} disabled={mode !== "move"}>
+                <SelectTrigger className="h-8 w-40">
+                  <SelectValue placeholder="Section" />
+                </SelectTrigger>
+                <SelectContent>
+                  {otherSections.map((s) => (
+                    <SelectItem key={s.id} value={s.id}>{s.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="archive" id="section-cards-archive" />
+              <Label htmlFor="section-cards-archive" className="font-normal">
+                Archive them with the section (restoring it brings them back)
+              </Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="delete" id="section-cards-delete" />
+              <Label htmlFor="section-cards-delete" className="font-normal text-destructive">
+                Delete them permanently, with their comments and attachments
+              </Label>
+            </div>
+          </RadioGroup>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            disabled={!canConfirm}
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            onClick={() => onConfirm(mode === "move" ? { cards: "move", targetSectionId } : { cards: mode })}
+          >
+            Delete section
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
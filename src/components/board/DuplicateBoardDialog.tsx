@@ -0,0 +1,114 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { describeApiError } from "@/lib/utils";
+import { useToast } from "@/components/ui/use-toast";
+
+const API_BASE = import.meta.env.VITE_API_BASE ?? "http://localhost:4001/api";
+
+interface DuplicateBoardDialogProps {
+  project: { id: string; title: string } | null;
+  onClose: () => void;
+  onDuplicated: (project: { id: string; title: string }) => void;
+}
+
+const OPTIONS = [
+  { key: "includeComments", label: "Include comments" },
+  { key: "includeAssignees", label: "Keep your assignments and invite the board's members" },
+  { key: "resetDates", label: "Reset start and due dates" },
+] as const;
+
+type Options = Record<(typeof OPTIONS)[number]["key"], boolean>;
+
+const DEFAULT_OPTIONS: Options = { includeComments: false, includeAssignees: false, resetDates: false };
+
+// Copies a board with its sections, labels and cards into a new board owned by the current user
+export const DuplicateBoardDialog = ({ project, onClose, onDuplicated }: DuplicateBoardDialogProps) => {
+  const { toast } = useToast();
+  const [title, setTitle] = useState("");
+  const [options, setOptions] = useState<Options>(DEFAULT_OPTIONS);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!project) return;
+    setTitle(`${project.title} (copy)`);
+    setOptions(DEFAULT_OPTIONS);
+    setError(null);
+  }, [project]);
+
+  const duplicate = async () => {
+    if (!project || !title.trim()) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch(`${API_BASE}/projects/${project.id}/duplicate`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${localStorage.getItem("token") ?? ""}`,
+        },
+        body: JSON.stringify({ title: title.trim(), ...options }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(describeApiError(data, "Failed to duplicate board"));
+      toast({
+        title: `Created "${data.title}"`,
+        description: `${data.cards} cards in ${data.sections} sections${data.invited ? `; invited ${data.invited} people` : ""}`,
+      });
+      onDuplicated({ id: data.id, title: data.title });
+      onClose();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to duplicate board");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!project} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Duplicate "{project?.title}"</DialogTitle>
+          <DialogDescription>
+            Copies the sections, WIP limits, labels, cards and checklists. Archived items and attachments are left out.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="duplicate-title">Title</Label>
+            <Input
+              id="duplicate-title"
+              value={title}
+              maxLength={200}
+              onChange={(e) => setTitle(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && duplicate()}
+            />
+          </div>
+          {OPTIONS.map(({ key, label }) => (
+            <div key={key} className="flex items-center justify-between gap-4">
+              <Label htmlFor={`duplicate-${key}`} className="font-normal">{label}</Label>
+              <Switch
+                id={`duplicate-${key}`}
+                checked={options[key]}
+                onCheckedChange={(checked) => setOptions((prev) => ({ ...prev, [key]: checked }))}
+              />
+            </div>
+          ))}
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button disabled={!title.trim() || busy} onClick={duplicate} className="bg-gradient-primary hover:opacity-90">
+            {busy ? "Duplicating..." : "Duplicate"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
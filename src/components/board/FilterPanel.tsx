@@ -5,17 +5,20 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Badge } from "@/components/ui/badge";
 import { Card } from "@/components/ui/card";
 import { Filter, X, SlidersHorizontal } from "lucide-react";
-import { Priority } from "@/types/board";
-import { FilterState } from "@/hooks/useFilters";
+import { Label, Priority } from "@/types/board";
+import { DueFilter, FilterState } from "@/hooks/useFilters";
+import { LabelChip } from "./LabelChip";
 
 interface FilterPanelProps {
   filters: FilterState;
   onUpdateFilter: (updates: Partial<FilterState>) => void;
   onTogglePriority: (priority: Priority) => void;
   onToggleExecutor: (executor: string) => void;
+  onToggleLabel: (labelId: string) => void;
   onClearFilters: () => void;
   hasActiveFilters: boolean;
   availableExecutors: string[];
+  availableLabels: Label[];
 }
 
 const priorityConfig = {
@@ -24,14 +27,21 @@ const priorityConfig = {
   high: { label: "High", color: "bg-priority-high text-priority-high-foreground" }
 };
 
+const dueOptions: { value: Exclude<DueFilter, 'all'>; label: string }[] = [
+  { value: "overdue", label: "Overdue" },
+  { value: "due-this-week", label: "Due this week" },
+];
+
 export const FilterPanel = ({
   filters,
   onUpdateFilter,
   onTogglePriority,
   onToggleExecutor,
+  onToggleLabel,
   onClearFilters,
   hasActiveFilters,
-  availableExecutors
+  availableExecutors,
+  availableLabels
 }: FilterPanelProps) => {
   const [isOpen, setIsOpen] = useState(false);
 
@@ -46,7 +56,7 @@ export const FilterPanel = ({
         Filter
         {hasActiveFilters && (
           <Badge variant="secondary" className="ml-1 px-1.5 py-0.5 text-xs">
-            {filters.priorities.length + filters.executors.length}
+            {filters.priorities.length + filters.executors.length + filters.labels.length + (filters.due !== 'all' ? 1 : 0)}
           </Badge>
         )}
       </Button>
@@ -104,6 +114,44 @@ export const FilterPanel = ({
               </div>
             </div>
 
+            {/* Label filters */}
+            {availableLabels.length > 0 && (
+              <div>
+                <h4 className="text-sm font-medium mb-2">Labels</h4>
+                <div className="flex flex-wrap gap-2 max-h-32 overflow-y-auto">
+                  {availableLabels.map((label) => (
+                    <button
+                      key={label.id}
+                      type="button"
+                      onClick={() => onToggleLabel(label.id)}
+                      className={`rounded-full transition-all hover:scale-105 ${
+                        filters.labels.includes(label.id) ? "ring-2 ring-offset-1 ring-primary" : "opacity-60 hover:opacity-100"
+                      }`}
+                    >
+                      <LabelChip label={label} />
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Due date filters */}
+            <div>
+              <h4 className="text-sm font-medium mb-2">Due date</h4>
+              <div className="flex flex-wrap gap-2">
+                {dueOptions.map((option) => (
+                  <Badge
+                    key={option.value}
+                    variant={filters.due === option.value ? "default" : "outline"}
+                    className="cursor-pointer transition-all hover:scale-105"
+                    onClick={() => onUpdateFilter({ due: filters.due === option.value ? 'all' : option.value })}
+                  >
+                    {option.label}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+
             {/* Executor filters */}
             {availableExecutors.length > 0 && (
               <div>
@@ -134,7 +182,9 @@ export const FilterPanel = ({
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
+                  <SelectItem value="manual">Board Order</SelectItem>
                   <SelectItem value="date">Creation Date</SelectItem>
+                  <SelectItem value="due-date">Due Date</SelectItem>
                   <SelectItem value="priority-low-high">Priority: Low → High</SelectItem>
                   <SelectItem value="priority-high-low">Priority: High → Low</SelectItem>
                   <SelectItem value="priority-normal-first">Priority: Normal First</SelectItem>
@@ -0,0 +1,30 @@
+import { Label } from "@/types/board";
+
+// Palette offered when creating a label
+export const LABEL_COLORS = ["#ef4444", "#f97316", "#eab308", "#22c55e", "#14b8a6", "#3b82f6", "#8b5cf6", "#ec4899", "#64748b"];
+
+// Dark text on light colours, white text on dark ones
+const textColorFor = (hex: string) => {
+  const r = parseInt(hex.slice(1, 3), 16);
+  const g = parseInt(hex.slice(3, 5), 16);
+  const b = parseInt(hex.slice(5, 7), 16);
+  return (r * 299 + g * 587 + b * 114) / 1000 > 150 ? "#1f2937" : "#ffffff";
+};
+
+interface LabelChipProps {
+  label: Label;
+  size?: "sm" | "md";
+  className?: string;
+}
+
+export const LabelChip = ({ label, size = "md", className = "" }: LabelChipProps) => (
+  <span
+    className={`inline-flex items-center rounded-full font-medium max-w-full truncate ${
+      size === "sm" ? "px-1.5 py-0 text-[10px] leading-4" : "px-2 py-0.5 text-xs"
+    } ${className}`}
+    style={{ backgroundColor: label.color, color: textColorFor(label.color) }}
+    title={label.name}
+  >
+    {label.name}
+  </span>
+);
@@ -0,0 +1,176 @@
+import { useState } from "react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Check, Pencil, Plus, Tag, Trash2, X } from "lucide-react";
+import { Label } from "@/types/board";
+import { LABEL_COLORS, LabelChip } from "./LabelChip";
+import { useToast } from "@/components/ui/use-toast";
+
+interface LabelPickerProps {
+  // Every label of the board
+  labels: Label[];
+  selectedIds: string[];
+  onToggle: (label: Label) => void;
+  onCreate: (name: string, color: string) => Promise<Label>;
+  onUpdate: (labelId: string, updates: Partial<Pick<Label, "name" | "color">>) => Promise<Label>;
+  onDelete: (labelId: string) => Promise<void>;
+}
+
+const ColorSwatches = ({ value, onChange }: { value: string; onChange: (color: string) => void }) => (
+  <div className="flex flex-wrap gap-1.5">
+    {LABEL_COLORS.map((color) => (
+      <button
+        key={color}
+        type="button"
+        className={`h-5 w-5 rounded-full border-2 ${value === color ? "border-foreground" : "border-transparent"}`}
+        style={{ backgroundColor: color }}
+        onClick={() => onChange(color)}
+        title={color}
+      />
+    ))}
+  </div>
+);
+
+export const LabelPicker = ({ labels, selectedIds, onToggle, onCreate, onUpdate, onDelete }: LabelPickerProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [newColor, setNewColor] = useState(LABEL_COLORS[0]);
+  const [editing, setEditing] = useState<Label | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const q = query.trim().toLowerCase();
+  const visible = labels.filter((l) => !q || l.name.toLowerCase().includes(q));
+  const canCreate = !!q && !labels.some((l) => l.name.toLowerCase() === q);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (e) {
+      toast({ title: "Label action failed", description: e instanceof Error ? e.message : undefined, variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = () =>
+    run(async () => {
+      const created = await onCreate(query.trim(), newColor);
+      onToggle(created);
+      setQuery("");
+    });
+
+  const handleSaveEdit = () =>
+    run(async () => {
+      if (!editing) return;
+      await onUpdate(editing.id, { name: editing.name.trim(), color: editing.color });
+      setEditing(null);
+    });
+
+  const handleDelete = (label: Label) =>
+    run(async () => {
+      await onDelete(label.id);
+      if (selectedIds.includes(label.id)) onToggle(label);
+    });
+
+  const selected = labels.filter((l) => selectedIds.includes(l.id));
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {selected.map((label) => (
+        <LabelChip key={label.id} label={label} />
+      ))}
+      <Popover open={open} onOpenChange={(o) => { setOpen(o); if (!o) setEditing(null); }}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className="h-7 gap-1">
+            <Tag className="h-3.5 w-3.5" />
+            {selected.length ? "Edit" : "Add label"}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-72 p-2" align="start">
+          {editing ? (
+            <div className="space-y-3 p-1">
+              <Input
+                value={editing.name}
+                onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                onKeyDown={(e) => e.key === "Enter" && editing.name.trim() && handleSaveEdit()}
+                autoFocus
+              />
+              <ColorSwatches value={editing.color} onChange={(color) => setEditing({ ...editing, color })} />
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" size="sm" onClick={() => setEditing(null)}>Cancel</Button>
+                <Button size="sm" disabled={!editing.name.trim() || busy} onClick={handleSaveEdit}>Save</Button>
+              </div>
+            </div>
+          ) : (
+            <>
+              <Input
+                className="h-8 mb-2"
+                placeholder="Search or create label..."
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && canCreate && handleCreate()}
+                autoFocus
+              />
+              <div className="max-h-56 overflow-auto space-y-0.5">
+                {visible.map((label) => {
+                  const isSelected = selectedIds.includes(label.id);
+                  return (
+                    <div key={label.id} className="flex items-center gap-1 rounded hover:bg-muted px-1">
+                      <button
+                        type="button"
+                        className="flex-1 min-w-0 flex items-center gap-2 py-1.5 text-left"
+                        onClick={() => onToggle(label)}
+                      >
+                        <span className="w-4 shrink-0">{isSelected && <Check className="h-4 w-4" />}</span>
+                        <LabelChip label={label} />
+                      </button>
+                      <Button variant="ghost" size="sm" className="h-6 w-6 p-0" title="Edit label" onClick={() => setEditing(label)}>
+                        <Pencil className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0 text-muted-foreground hover:text-destructive"
+                        title="Delete label from the board"
+                        disabled={busy}
+                        onClick={() => handleDelete(label)}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  );
+                })}
+                {visible.length === 0 && !canCreate && (
+                  <p className="px-2 py-2 text-xs text-muted-foreground">No labels yet, type a name to create one</p>
+                )}
+              </div>
+              {canCreate && (
+                <div className="mt-2 border-t pt-2 space-y-2">
+                  <ColorSwatches value={newColor} onChange={setNewColor} />
+                  <Button size="sm" className="w-full gap-1" disabled={busy} onClick={handleCreate}>
+                    <Plus className="h-3.5 w-3.5" />
+                    Create "{query.trim()}"
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </PopoverContent>
+      </Popover>
+      {selected.length > 0 && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 w-7 p-0 text-muted-foreground"
+          title="Remove all labels"
+          onClick={() => selected.forEach(onToggle)}
+        >
+          <X className="h-3.5 w-3.5" />
+        </Button>
+      )}
+    </div>
+  );
+};
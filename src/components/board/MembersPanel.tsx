@@ -0,0 +1,243 @@
+import { useEffect, useState } from "react";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Mail, UserMinus, X } from "lucide-react";
+import { Invitation, Member, ProjectRole } from "@/types/board";
+import { useToast } from "@/components/ui/use-toast";
+
+interface MembersPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Owners can invite, change roles and remove others
+  canManage: boolean;
+  listMembers: () => Promise<Member[]>;
+  updateMemberRole: (userId: string, role: ProjectRole) => Promise<Member>;
+  removeMember: (userId: string) => Promise<void>;
+  listInvitations: () => Promise<Invitation[]>;
+  inviteMember: (email: string, role: ProjectRole) => Promise<Invitation>;
+  cancelInvitation: (invitationId: string) => Promise<void>;
+}
+
+const roleLabels: Record<ProjectRole, string> = {
+  owner: "Owner",
+  editor: "Editor",
+  viewer: "Viewer",
+};
+
+const initials = (name: string) =>
+  name?.split(" ").map(p => p[0]).join("").slice(0, 2).toUpperCase();
+
+export const MembersPanel = ({
+  isOpen,
+  onClose,
+  canManage,
+  listMembers,
+  updateMemberRole,
+  removeMember,
+  listInvitations,
+  inviteMember,
+  cancelInvitation,
+}: MembersPanelProps) => {
+  const { toast } = useToast();
+  const [members, setMembers] = useState<Member[]>([]);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<ProjectRole>("editor");
+  const [busy, setBusy] = useState<string | null>(null);
+  const currentUserId = localStorage.getItem("userId");
+
+  // Reload every time the panel opens so it reflects accepted invitations
+  useEffect(() => {
+    if (!isOpen) return;
+    let mounted = true;
+    (async () => {
+      setLoading(true);
+      try {
+        const [m, i] = await Promise.all([listMembers(), canManage ? listInvitations() : Promise.resolve([])]);
+        if (!mounted) return;
+        setMembers(m);
+        setInvitations(i);
+      } catch (e) {
+        console.error(e);
+      } finally {
+        if (mounted) setLoading(false);
+      }
+    })();
+    return () => {
+      mounted = false;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, canManage]);
+
+  const run = async (key: string, action: () => Promise<void>) => {
+    setBusy(key);
+    try {
+      await action();
+    } catch (e) {
+      toast({ title: "Action failed", description: e instanceof Error ? e.message : undefined, variant: "destructive" });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleInvite = () =>
+    run("invite", async () => {
+      const created = await inviteMember(email.trim(), role);
+      setInvitations((prev) => [...prev, created]);
+      setEmail("");
+      toast({ title: "Invitation sent", description: `${created.invitee.name} was invited as ${roleLabels[created.role].toLowerCase()}` });
+    });
+
+  const handleRoleChange = (userId: string, next: ProjectRole) =>
+    run(userId, async () => {
+      const updated = await updateMemberRole(userId, next);
+      setMembers((prev) => prev.map((m) => (m.id === userId ? updated : m)));
+    });
+
+  const handleRemove = (member: Member) =>
+    run(member.id, async () => {
+      await removeMember(member.id);
+      setMembers((prev) => prev.filter((m) => m.id !== member.id));
+      if (member.id === currentUserId) {
+        // Left the board: nothing here is accessible any more
+        window.location.href = "/boards";
+      }
+    });
+
+  const handleCancelInvitation = (invitationId: string) =>
+    run(invitationId, async () => {
+      await cancelInvitation(invitationId);
+      setInvitations((prev) => prev.filter((i) => i.id !== invitationId));
+    });
+
+  return (
+    <Sheet open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Members</SheetTitle>
+          <SheetDescription>People who can see this board and what they may do on it.</SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-3">
+          {loading && <p className="text-sm text-muted-foreground">Loading members...</p>}
+          {members.map((m) => {
+            const isSelf = m.id === currentUserId;
+            return (
+              <div key={m.id} className="flex items-center gap-3">
+                <Avatar className="h-8 w-8">
+                  <AvatarFallback className="text-xs">{initials(m.name)}</AvatarFallback>
+                </Avatar>
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium truncate">
+                    {m.name}
+                    {isSelf && <span className="text-muted-foreground font-normal"> (you)</span>}
+                  </div>
+                  <div className="text-xs text-muted-foreground truncate">{m.email}</div>
+                </div>
+                {canManage ? (
+                  <Select
+                    value={m.role}
+                    onValueChange={(value: ProjectRole) => handleRoleChange(m.id, value)}
+                    disabled={busy === m.id}
+                  >
+                    <SelectTrigger className="w-28 h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(roleLabels) as ProjectRole[]).map((r) => (
+                        <SelectItem key={r} value={r}>{roleLabels[r]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Badge variant="outline">{roleLabels[m.role]}</Badge>
+                )}
+                {(canManage || isSelf) && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0 text-muted-foreground hover:text-destructive"
+                    title={isSelf ? "Leave board" : "Remove member"}
+                    disabled={busy === m.id}
+                    onClick={() => handleRemove(m)}
+                  >
+                    <UserMinus className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {canManage && (
+          <>
+            <Separator className="my-6" />
+
+            <div className="space-y-3">
+              <h4 className="text-sm font-medium">Invite by email</h4>
+              <div className="flex gap-2">
+                <Input
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="teammate@example.com"
+                  onKeyDown={(e) => e.key === "Enter" && email.trim() && handleInvite()}
+                />
+                <Select value={role} onValueChange={(value: ProjectRole) => setRole(value)}>
+                  <SelectTrigger className="w-28">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(roleLabels) as ProjectRole[]).map((r) => (
+                      <SelectItem key={r} value={r}>{roleLabels[r]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button
+                onClick={handleInvite}
+                disabled={!email.trim() || busy === "invite"}
+                className="w-full gap-2 bg-gradient-primary hover:opacity-90"
+              >
+                <Mail className="h-4 w-4" />
+                {busy === "invite" ? "Sending..." : "Send invitation"}
+              </Button>
+              <p className="text-xs text-muted-foreground">The person needs an account; they accept the invitation from their Boards page.</p>
+            </div>
+
+            {invitations.length > 0 && (
+              <div className="mt-6 space-y-2">
+                <h4 className="text-sm font-medium">Pending invitations</h4>
+                {invitations.map((inv) => (
+                  <div key={inv.id} className="flex items-center gap-2 text-sm">
+                    <span className="flex-1 truncate">
+                      {inv.invitee.name}
+                      <span className="text-xs text-muted-foreground"> — {inv.invitee.email}</span>
+                    </span>
+                    <Badge variant="secondary">{roleLabels[inv.role]}</Badge>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0"
+                      title="Cancel invitation"
+                      disabled={busy === inv.id}
+                      onClick={() => handleCancelInvitation(inv.id)}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
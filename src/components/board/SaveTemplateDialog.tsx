@@ -0,0 +1,104 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { BoardTemplate } from "@/types/board";
+import { describeApiError } from "@/lib/utils";
+import { useToast } from "@/components/ui/use-toast";
+
+const API_BASE = import.meta.env.VITE_API_BASE ?? "http://localhost:4001/api";
+
+interface SaveTemplateDialogProps {
+  project: { id: string; title: string } | null;
+  onClose: () => void;
+  onSaved: (template: BoardTemplate) => void;
+}
+
+// Saves a board's sections, WIP limits and optionally its cards as a private template
+export const SaveTemplateDialog = ({ project, onClose, onSaved }: SaveTemplateDialogProps) => {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [includeCards, setIncludeCards] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!project) return;
+    setName(project.title);
+    setDescription("");
+    setIncludeCards(true);
+    setError(null);
+  }, [project]);
+
+  const save = async () => {
+    if (!project || !name.trim()) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`${API_BASE}/projects/${project.id}/templates`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${localStorage.getItem("token") ?? ""}`,
+        },
+        body: JSON.stringify({ name: name.trim(), description: description.trim(), includeCards }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(describeApiError(data, "Failed to save template"));
+      toast({ title: `Saved template "${data.name}"`, description: "Pick it when creating a board" });
+      onSaved(data as BoardTemplate);
+      onClose();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to save template");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!project} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Save "{project?.title}" as a template</DialogTitle>
+          <DialogDescription>New boards created from it start with the same sections and WIP limits.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="template-name">Name</Label>
+            <Input id="template-name" value={name} maxLength={100} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="template-description">Description</Label>
+            <Textarea
+              id="template-description"
+              rows={2}
+              maxLength={500}
+              placeholder="Optional"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="template-cards" className="font-normal">
+              Include the board's cards as starter cards
+            </Label>
+            <Switch id="template-cards" checked={includeCards} onCheckedChange={setIncludeCards} />
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button disabled={!name.trim() || saving} onClick={save} className="bg-gradient-primary hover:opacity-90">
+            {saving ? "Saving..." : "Save template"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
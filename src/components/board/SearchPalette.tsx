@@ -0,0 +1,103 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { FileText } from "lucide-react";
+import { SearchResult } from "@/types/board";
+
+const API_BASE = import.meta.env.VITE_API_BASE ?? "http://localhost:4001/api";
+
+// Wait for a pause in typing before asking the server
+const SEARCH_DELAY_MS = 200;
+
+interface SearchPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Command palette over the cards of every board the user is a member of; picking a result opens the card
+ */
+export const SearchPalette = ({ open, onOpenChange }: SearchPaletteProps) => {
+  const navigate = useNavigate();
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const q = query.trim();
+    if (!q) {
+      setResults([]);
+      return;
+    }
+    let active = true;
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const params = new URLSearchParams({ q });
+        const res = await fetch(`${API_BASE}/search?${params}`, {
+          headers: { Authorization: `Bearer ${localStorage.getItem("token") ?? ""}` },
+        });
+        if (!res.ok) throw new Error("Failed to search cards");
+        const data: SearchResult[] = await res.json();
+        if (active) setResults(data);
+      } catch (e) {
+        console.error(e);
+        if (active) setResults([]);
+      } finally {
+        if (active) setLoading(false);
+      }
+    }, SEARCH_DELAY_MS);
+    return () => {
+      active = false;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  // Start from an empty palette every time it opens
+  useEffect(() => {
+    if (!open) setQuery("");
+  }, [open]);
+
+  const groups = results.reduce<Record<string, SearchResult[]>>((acc, r) => {
+    (acc[r.projectId] ??= []).push(r);
+    return acc;
+  }, {});
+
+  const openCard = (result: SearchResult) => {
+    onOpenChange(false);
+    navigate(`/project/${result.projectId}/card/${result.cardId}`);
+  };
+
+  return (
+    <CommandDialog open={open} onOpenChange={onOpenChange} shouldFilter={false}>
+      <CommandInput placeholder="Search cards on all boards..." value={query} onValueChange={setQuery} />
+      <CommandList>
+        {query.trim() && !loading && <CommandEmpty>No matching cards</CommandEmpty>}
+        {loading && results.length === 0 && <div className="py-6 text-center text-sm text-muted-foreground">Searching...</div>}
+        {Object.values(groups).map((items) => (
+          <CommandGroup key={items[0].projectId} heading={items[0].projectTitle}>
+            {items.map((r) => (
+              <CommandItem key={r.cardId} value={r.cardId} onSelect={() => openCard(r)} className="items-start gap-2">
+                <FileText className="mt-0.5 text-muted-foreground" />
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <span className="truncate font-medium">{r.title}</span>
+                    <span className="shrink-0 text-xs text-muted-foreground">{r.sectionTitle}</span>
+                  </div>
+                  {r.snippet && <p className="truncate text-xs text-muted-foreground">{r.snippet}</p>}
+                </div>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        ))}
+      </CommandList>
+    </CommandDialog>
+  );
+};
@@ -0,0 +1,132 @@
+import { DndContext, DragEndEvent, closestCorners, useDroppable } from "@dnd-kit/core";
+import { SortableContext, verticalListSortingStrategy } from "@dnd-kit/sortable";
+import { Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, Section } from "@/types/board";
+import { Swimlane, SwimlaneGrouping, laneKeyOf } from "@/lib/swimlanes";
+import { TaskCard } from "./TaskCard";
+
+// Where a card was dropped: the section and lane, and the card it landed on if any
+export interface SwimlaneDrop {
+  cardId: string;
+  sectionId: string;
+  lane: string;
+  overCardId?: string;
+}
+
+interface SwimlaneBoardProps {
+  // Filtered sections, in board order
+  sections: Section[];
+  lanes: Swimlane[];
+  groupBy: SwimlaneGrouping;
+  onDrop: (drop: SwimlaneDrop) => void;
+  onAddCard: (sectionId: string) => void;
+  onCardClick: (card: Card) => void;
+  highlight?: string[];
+  canEdit?: boolean;
+}
+
+interface LaneCellProps {
+  lane: string;
+  section: Section;
+  cards: Card[];
+  onCardClick: (card: Card) => void;
+  highlight?: string[];
+}
+
+// One section inside one lane; the whole cell accepts drops
+const LaneCell = ({ lane, section, cards, onCardClick, highlight }: LaneCellProps) => {
+  const { setNodeRef, isOver } = useDroppable({
+    id: `lane-cell:${lane}:${section.id}`,
+    data: { type: "lane-cell", lane, sectionId: section.id },
+  });
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={`w-80 flex-shrink-0 rounded-lg p-2 space-y-3 min-h-[120px] bg-board-section/40 ${isOver ? "ring-2 ring-primary/40" : ""}`}
+    >
+      <SortableContext items={cards.map((c) => c.id)} strategy={verticalListSortingStrategy}>
+        {cards.map((card) => (
+          <TaskCard key={card.id} card={card} onClick={() => onCardClick(card)} highlight={highlight} />
+        ))}
+      </SortableContext>
+    </div>
+  );
+};
+
+export const SwimlaneBoard = ({
+  sections,
+  lanes,
+  groupBy,
+  onDrop,
+  onAddCard,
+  onCardClick,
+  highlight,
+  canEdit = true,
+}: SwimlaneBoardProps) => {
+  const cardsById = new Map(sections.flatMap((s) => s.cards.map((c) => [c.id, c] as const)));
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    if (!over || !canEdit) return;
+    const cardId = String(active.id);
+    const data = over.data.current;
+    if (data?.type === "lane-cell") {
+      onDrop({ cardId, sectionId: data.sectionId, lane: data.lane });
+      return;
+    }
+    // Dropped onto a card: take its slot, section and lane
+    const overCard = cardsById.get(String(over.id));
+    if (!overCard || overCard.id === cardId) return;
+    onDrop({ cardId, sectionId: overCard.sectionId, lane: laneKeyOf(overCard, groupBy), overCardId: overCard.id });
+  };
+
+  return (
+    <DndContext collisionDetection={closestCorners} onDragEnd={handleDragEnd}>
+      <div className="overflow-x-auto pb-6">
+        <div className="inline-flex flex-col gap-4 min-w-full">
+          <div className="flex gap-6 pl-2 sticky top-0 z-10">
+            {sections.map((section) => (
+              <div key={section.id} className="w-80 flex-shrink-0 flex items-center justify-between">
+                <h3 className="font-semibold text-board-header text-lg truncate">{section.title}</h3>
+                <div className="flex items-center gap-1">
+                  <span className="text-sm text-muted-foreground bg-muted px-2 py-1 rounded-full">{section.cards.length}</span>
+                  {canEdit && (
+                    <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="Add card" onClick={() => onAddCard(section.id)}>
+                      <Plus className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {lanes.map((lane) => {
+            const laneCards = sections.map((s) => s.cards.filter((c) => laneKeyOf(c, groupBy) === lane.key));
+            const total = laneCards.reduce((n, cards) => n + cards.length, 0);
+            return (
+              <div key={lane.key || "none"} className="rounded-xl border bg-background/40 p-2">
+                <div className="flex items-center gap-2 px-2 pb-2 text-sm font-medium">
+                  <span className={lane.key ? "" : "text-muted-foreground"}>{lane.title}</span>
+                  <span className="text-xs text-muted-foreground">{total}</span>
+                </div>
+                <div className="flex gap-6">
+                  {sections.map((section, i) => (
+                    <LaneCell
+                      key={section.id}
+                      lane={lane.key}
+                      section={section}
+                      cards={laneCards[i]}
+                      onCardClick={onCardClick}
+                      highlight={highlight}
+                    />
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </DndContext>
+  );
+};
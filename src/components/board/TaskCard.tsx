@@ -1,17 +1,22 @@
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Card as CardType, UserLite } from "@/types/board";
-import { MessageCircle, User, Users, Check } from "lucide-react";
+import { MessageCircle, User, Users, Check, CalendarClock, CheckSquare, Paperclip } from "lucide-react";
 import { useSortable } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
 import { useNavigate } from "react-router-dom";
 import { useBoardData } from "@/hooks/useBoardData";
 import { useEffect, useMemo, useRef, useState } from "react";
 import { useToast } from "@/components/ui/use-toast";
+import { getDueStatus } from "@/hooks/useFilters";
+import { LabelChip } from "./LabelChip";
+import { Progress } from "@/components/ui/progress";
 
 interface TaskCardProps {
   card: CardType;
   onClick: () => void;
+  // Lower-case search terms to mark in the title and description
+  highlight?: string[];
 }
 
 const priorityConfig = {
@@ -29,9 +34,27 @@ const priorityConfig = {
   }
 };
 
-export const TaskCard = ({ card, onClick }: TaskCardProps) => {
+const dueConfig = {
+  overdue: { label: "Overdue", className: "bg-destructive/10 text-destructive border-destructive/40" },
+  "due-soon": { label: "Due soon", className: "bg-amber-50 text-amber-700 border-amber-300" },
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Wraps every occurrence of the terms in <mark>; case-insensitive
+const highlightText = (text: string, terms?: string[]) => {
+  if (!terms?.length) return text;
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join("|")})`, "gi");
+  return text.split(pattern).map((part, i) =>
+    i % 2 === 1 ? <mark key={i} className="rounded-sm bg-yellow-200/80 text-inherit">{part}</mark> : part
+  );
+};
+
+const formatDay = (date: Date) => date.toLocaleDateString(undefined, { month: "short", day: "numeric" });
+
+export const TaskCard = ({ card, onClick, highlight }: TaskCardProps) => {
   const navigate = useNavigate();
-  const { listUsers, assignUser, unassignUser } = useBoardData();
+  const { listMembers, assignUser, unassignUser } = useBoardData();
   const { toast } = useToast();
   const [users, setUsers] = useState<UserLite[]>([]);
   const [loadingUsers, setLoadingUsers] = useState(false);
@@ -45,7 +68,7 @@ export const TaskCard = ({ card, onClick }: TaskCardProps) => {
     (async () => {
       setLoadingUsers(true);
       try {
-        const u = await listUsers();
+        const u = await listMembers();
         if (mounted) setUsers(u);
       } finally {
         if (mounted) setLoadingUsers(false);
@@ -54,7 +77,7 @@ export const TaskCard = ({ card, onClick }: TaskCardProps) => {
     return () => {
       mounted = false;
     };
-  }, [listUsers]);
+  }, [listMembers]);
 
   // Close on outside click
   useEffect(() => {
@@ -69,6 +92,7 @@ export const TaskCard = ({ card, onClick }: TaskCardProps) => {
   }, [open]);
 
   const assignedIds = useMemo(() => new Set((card.assignees ?? []).map(a => a.id)), [card.assignees]);
+  const dueStatus = getDueStatus(card);
 
   // Refresh users when the picker opens for the first time to ensure we have data
   useEffect(() => {
@@ -79,7 +103,7 @@ export const TaskCard = ({ card, onClick }: TaskCardProps) => {
       if (users.length > 0) return;
       setLoadingUsers(true);
       try {
-        const u = await listUsers();
+        const u = await listMembers();
         if (mounted) setUsers(u);
       } finally {
         if (mounted) setLoadingUsers(false);
@@ -155,7 +179,7 @@ export const TaskCard = ({ card, onClick }: TaskCardProps) => {
         </div>
         <div className="flex items-start justify-between gap-2">
           <h4 className="font-medium text-card-foreground leading-tight flex-1">
-            {card.title}
+            {highlightText(card.title, highlight)}
           </h4>
           <Badge 
             variant="outline" 
@@ -165,12 +189,30 @@ export const TaskCard = ({ card, onClick }: TaskCardProps) => {
           </Badge>
         </div>
 
+        {!!card.labels?.length && (
+          <div className="flex flex-wrap gap-1">
+            {card.labels.map((label) => (
+              <LabelChip key={label.id} label={label} size="sm" />
+            ))}
+          </div>
+        )}
+
         {card.description && (
           <p className="text-sm text-muted-foreground line-clamp-2 leading-relaxed">
-            {card.description}
+            {highlightText(card.description, highlight)}
           </p>
         )}
 
+        {!!card.checklist?.total && (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground" title="Checklist items done">
+            <CheckSquare className="h-3 w-3 shrink-0" />
+            <Progress value={(card.checklist.done / card.checklist.total) * 100} className="h-1.5 flex-1" />
+            <span className={card.checklist.done === card.checklist.total ? "text-foreground font-medium" : ""}>
+              {card.checklist.done}/{card.checklist.total}
+            </span>
+          </div>
+        )}
+
         <div className="flex items-center justify-between text-xs text-muted-foreground">
           <div className="flex items-center gap-2">
             <div className="flex -space-x-1" onClick={(e) => { e.preventDefault(); e.stopPropagation(); }}>
@@ -219,7 +261,7 @@ export const TaskCard = ({ card, onClick }: TaskCardProps) => {
                   <div className="p-2 border-b">
                     <input
                       className="w-full h-8 px-2 text-sm rounded-md border bg-background"
-                      placeholder="Search user..."
+                      placeholder="Search member..."
                       value={query}
                       onChange={(e) => setQuery(e.target.value)}
                       onClick={(e) => { e.preventDefault(); e.stopPropagation(); }}
@@ -228,7 +270,7 @@ export const TaskCard = ({ card, onClick }: TaskCardProps) => {
                   </div>
                   <div className="max-h-52 overflow-auto p-1">
                     {loadingUsers && (
-                      <div className="px-2 py-2 text-xs text-muted-foreground">Loading users...</div>
+                      <div className="px-2 py-2 text-xs text-muted-foreground">Loading members...</div>
                     )}
                     {(users ?? [])
                       .filter((u) => {
@@ -275,7 +317,7 @@ export const TaskCard = ({ card, onClick }: TaskCardProps) => {
                         );
                       })}
                     {!loadingUsers && users.length === 0 && (
-                      <div className="px-2 py-2 text-xs text-muted-foreground">No users</div>
+                      <div className="px-2 py-2 text-xs text-muted-foreground">No members</div>
                     )}
                   </div>
                 </div>
@@ -283,16 +325,35 @@ export const TaskCard = ({ card, onClick }: TaskCardProps) => {
             </div>
           </div>
           
-          {card.comments.length > 0 && (
-            <div className="flex items-center gap-1">
-              <MessageCircle className="h-3 w-3" />
-              <span>{card.comments.length}</span>
-            </div>
-          )}
+          <div className="flex items-center gap-2">
+            {!!card.attachmentCount && (
+              <div className="flex items-center gap-1" title="Attachments">
+                <Paperclip className="h-3 w-3" />
+                <span>{card.attachmentCount}</span>
+              </div>
+            )}
+            {card.comments.length > 0 && (
+              <div className="flex items-center gap-1">
+                <MessageCircle className="h-3 w-3" />
+                <span>{card.comments.length}</span>
+              </div>
+            )}
+          </div>
         </div>
 
-        <div className="text-xs text-muted-foreground">
-          {card.createdAt.toLocaleDateString()}
+        <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+          <span>{card.createdAt.toLocaleDateString()}</span>
+          {card.dueDate && (
+            <Badge
+              variant="outline"
+              className={`gap-1 text-[11px] font-normal ${dueStatus ? dueConfig[dueStatus].className : ""}`}
+              title={dueStatus ? dueConfig[dueStatus].label : "Due date"}
+            >
+              <CalendarClock className="h-3 w-3" />
+              {card.startDate && `${formatDay(card.startDate)} – `}
+              {formatDay(card.dueDate)}
+            </Badge>
+          )}
         </div>
       </div>
     </Card>
@@ -0,0 +1,67 @@
+import { Fragment, useEffect, useState } from "react";
+import { ArrowRight } from "lucide-react";
+import { CardTransition } from "@/types/board";
+
+interface TransitionTimelineProps {
+  load: () => Promise<CardTransition[]>;
+  // Any change reloads the history (e.g. the card after a move)
+  refreshKey?: unknown;
+}
+
+// Time spent in a section: "45m", "5h", "2d"
+const formatStay = (ms: number) => {
+  const minutes = Math.max(0, Math.round(ms / 60000));
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours}h`;
+  return `${Math.round(hours / 24)}d`;
+};
+
+/**
+ * The sections a card went through, e.g. "Backlog (2d) → To Do (5h) → Review (1h so far)".
+ * Each stay lasts until the next transition; the last one is the card's current section.
+ */
+export const TransitionTimeline = ({ load, refreshKey }: TransitionTimelineProps) => {
+  const [transitions, setTransitions] = useState<CardTransition[]>([]);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    let mounted = true;
+    load()
+      .then((items) => mounted && setTransitions(items))
+      .catch((e) => console.error(e))
+      .finally(() => mounted && setLoaded(true));
+    return () => {
+      mounted = false;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [refreshKey]);
+
+  if (!loaded) return null;
+  if (transitions.length === 0) {
+    return <p className="text-sm text-muted-foreground">No section changes recorded for this card yet</p>;
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      {transitions.map((t, i) => {
+        const next = transitions[i + 1];
+        const current = !next;
+        const stay = formatStay((next ? next.createdAt.getTime() : Date.now()) - t.createdAt.getTime());
+        const by = t.actor ? ` by ${t.actor.name}` : "";
+        return (
+          <Fragment key={t.id}>
+            {i > 0 && <ArrowRight className="h-3.5 w-3.5 text-muted-foreground" />}
+            <span
+              className={`rounded-full border px-2.5 py-0.5 ${current ? "border-primary/40 bg-primary/10 font-medium" : "bg-muted/40"}`}
+              title={`${t.from ? "Moved" : "Created"} here ${t.createdAt.toLocaleString()}${by}`}
+            >
+              {t.to.title}
+              <span className="ml-1 text-muted-foreground">({current ? `${stay} so far` : stay})</span>
+            </span>
+          </Fragment>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,213 @@
+import { useEffect, useRef, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, FileJson, RefreshCw } from "lucide-react";
+import { ImportReport } from "@/types/board";
+import { describeApiError } from "@/lib/utils";
+import { useToast } from "@/components/ui/use-toast";
+
+const API_BASE = import.meta.env.VITE_API_BASE ?? "http://localhost:4001/api";
+
+// What the server could not carry over from the Trello export
+interface TrelloUnmapped {
+  membersWithoutEmail: { username: string; fullName: string }[];
+  archivedLists: number;
+  archivedCards: number;
+  attachments: number;
+  droppedStartDates: number;
+  priorities: Record<"low" | "normal" | "high", number>;
+}
+
+interface TrelloImportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: (project: { id: string; title: string }) => void;
+}
+
+export const TrelloImportDialog = ({ isOpen, onClose, onImported }: TrelloImportDialogProps) => {
+  const { toast } = useToast();
+  const fileInput = useRef<HTMLInputElement | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [board, setBoard] = useState<unknown>(null);
+  const [memberEmails, setMemberEmails] = useState<Record<string, string>>({});
+  const [preview, setPreview] = useState<{ report: ImportReport; unmapped: TrelloUnmapped } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) return;
+    setFileName("");
+    setBoard(null);
+    setMemberEmails({});
+    setPreview(null);
+    setError(null);
+  }, [isOpen]);
+
+  const send = async (trelloBoard: unknown, dryRun: boolean) => {
+    // Blank inputs mean "no email", not an invalid one
+    const emails = Object.fromEntries(Object.entries(memberEmails).filter(([, email]) => email.trim()));
+    const res = await fetch(`${API_BASE}/projects/import/trello`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${localStorage.getItem("token") ?? ""}`,
+      },
+      body: JSON.stringify({ board: trelloBoard, memberEmails: emails, dryRun }),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(describeApiError(data, "Failed to import Trello board"));
+    return data;
+  };
+
+  const runPreview = async (trelloBoard: unknown) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const data = await send(trelloBoard, true);
+      setPreview({ report: data.report, unmapped: data.unmapped });
+    } catch (e) {
+      setPreview(null);
+      setError(e instanceof Error ? e.message : "Failed to read the Trello export");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    setMemberEmails({});
+    try {
+      const parsed = JSON.parse(await file.text());
+      setBoard(parsed);
+      await runPreview(parsed);
+    } catch {
+      setBoard(null);
+      setPreview(null);
+      setError("The file is not valid JSON");
+    } finally {
+      if (fileInput.current) fileInput.current.value = "";
+    }
+  };
+
+  const handleImport = async () => {
+    if (!board) return;
+    setBusy(true);
+    try {
+      const data = await send(board, false);
+      toast({ title: `Imported "${data.title}"`, description: `${data.report.cards} cards in ${data.report.sections} sections` });
+      onImported({ id: data.id, title: data.title });
+      onClose();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to import Trello board");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const report = preview?.report;
+  const unmapped = preview?.unmapped;
+  const warnings = unmapped && report
+    ? [
+        unmapped.archivedLists > 0 && `${unmapped.archivedLists} archived lists are skipped`,
+        unmapped.archivedCards > 0 && `${unmapped.archivedCards} archived cards are skipped`,
+        unmapped.attachments > 0 && `${unmapped.attachments} attachments are not imported`,
+        unmapped.droppedStartDates > 0 && `${unmapped.droppedStartDates} start dates after the due date are dropped`,
+        report.unknownEmails.length > 0 && `No account for ${report.unknownEmails.join(", ")}, so they are not invited or assigned`,
+        report.skippedAssignees.length > 0 && `Not members, so not assigned: ${report.skippedAssignees.join(", ")}`,
+      ].filter((w): w is string => !!w)
+    : [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import from Trello</DialogTitle>
+          <DialogDescription>
+            Export a Trello board as JSON (Menu → Print, export and share → Export as JSON) and pick the file. Nothing is created until you confirm.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <input
+            ref={fileInput}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+          <Button variant="outline" className="w-full gap-2" disabled={busy} onClick={() => fileInput.current?.click()}>
+            <FileJson className="h-4 w-4" />
+            {fileName || "Choose Trello JSON file"}
+          </Button>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          {report && unmapped && (
+            <div className="space-y-4 text-sm">
+              <div>
+                <div className="font-medium">"{report.title}" will be created with</div>
+                <div className="text-muted-foreground">
+                  {report.sections} sections, {report.cards} cards, {report.comments} comments, {report.checklists} checklists, {report.labels} labels
+                </div>
+                <div className="flex gap-2 mt-2">
+                  <Badge variant="outline" className="bg-priority-high-bg text-priority-high border-priority-high">High {unmapped.priorities.high}</Badge>
+                  <Badge variant="outline" className="bg-priority-normal-bg text-priority-normal border-priority-normal">Normal {unmapped.priorities.normal}</Badge>
+                  <Badge variant="outline" className="bg-priority-low-bg text-priority-low border-priority-low">Low {unmapped.priorities.low}</Badge>
+                </div>
+                {report.invited.length > 0 && (
+                  <div className="text-muted-foreground mt-2">Invitations for: {report.invited.join(", ")}</div>
+                )}
+              </div>
+
+              {unmapped.membersWithoutEmail.length > 0 && (
+                <div className="space-y-2">
+                  <div className="font-medium">Trello members without an email</div>
+                  <p className="text-xs text-muted-foreground">
+                    Enter the email of their account here to invite them to the new board, then update the preview.
+                  </p>
+                  {unmapped.membersWithoutEmail.map((m) => (
+                    <div key={m.username} className="flex items-center gap-2">
+                      <span className="w-32 truncate" title={m.username}>{m.fullName || m.username}</span>
+                      <Input
+                        className="h-8"
+                        type="email"
+                        placeholder="email@example.com"
+                        value={memberEmails[m.username] ?? ""}
+                        onChange={(e) => setMemberEmails((prev) => ({ ...prev, [m.username]: e.target.value }))}
+                      />
+                    </div>
+                  ))}
+                  <Button variant="outline" size="sm" className="gap-2" disabled={busy} onClick={() => runPreview(board)}>
+                    <RefreshCw className="h-3.5 w-3.5" />
+                    Update preview
+                  </Button>
+                </div>
+              )}
+
+              {warnings.length > 0 && (
+                <ul className="space-y-1 rounded-md border border-amber-300 bg-amber-50 p-3 text-amber-800">
+                  {warnings.map((w) => (
+                    <li key={w} className="flex gap-2">
+                      <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />
+                      <span>{w}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleImport} disabled={!preview || busy} className="bg-gradient-primary hover:opacity-90">
+            {busy ? "Working..." : "Import board"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
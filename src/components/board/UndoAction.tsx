@@ -0,0 +1,29 @@
+import { ToastAction } from "@/components/ui/toast";
+import { toast } from "@/hooks/use-toast";
+
+/**
+ * "Undo" button for the toast confirming a destructive board operation.
+ * `undoId` comes back from the operation; without one (nothing was changed) there is no button.
+ */
+export const undoAction = (undoId: string | undefined, undo: (undoId: string) => Promise<void>) => {
+  if (!undoId) return undefined;
+
+  const handleUndo = async () => {
+    try {
+      await undo(undoId);
+      toast({ title: "Undone", description: "The board is back to how it was" });
+    } catch (e) {
+      toast({
+        title: "Undo failed",
+        description: e instanceof Error ? e.message : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <ToastAction altText="Undo" onClick={handleUndo}>
+      Undo
+    </ToastAction>
+  );
+};
@@ -0,0 +1,31 @@
+import { CalendarDays, Columns3, Table2 } from "lucide-react";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+
+// How a board's cards are laid out: columns per section, one row per card, or by due date
+export type BoardView = "board" | "table" | "calendar";
+
+interface ViewToggleProps {
+  view: BoardView;
+  onViewChange: (view: BoardView) => void;
+  className?: string;
+}
+
+export const ViewToggle = ({ view, onViewChange, className }: ViewToggleProps) => (
+  <ToggleGroup
+    type="single"
+    variant="outline"
+    value={view}
+    onValueChange={(v) => v && onViewChange(v as BoardView)}
+    className={className}
+  >
+    <ToggleGroupItem value="board" title="Board view" aria-label="Board view">
+      <Columns3 className="h-4 w-4" />
+    </ToggleGroupItem>
+    <ToggleGroupItem value="table" title="Table view" aria-label="Table view">
+      <Table2 className="h-4 w-4" />
+    </ToggleGroupItem>
+    <ToggleGroupItem value="calendar" title="Calendar view" aria-label="Calendar view">
+      <CalendarDays className="h-4 w-4" />
+    </ToggleGroupItem>
+  </ToggleGroup>
+);
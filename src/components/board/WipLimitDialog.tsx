@@ -0,0 +1,81 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Section } from "@/types/board";
+
+interface WipLimitDialogProps {
+  section: Section;
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (updates: Pick<Section, "wipLimit" | "wipStrict">) => Promise<void>;
+}
+
+export const WipLimitDialog = ({ section, isOpen, onClose, onSave }: WipLimitDialogProps) => {
+  const [limit, setLimit] = useState("");
+  const [strict, setStrict] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setLimit(section.wipLimit ? String(section.wipLimit) : "");
+    setStrict(!!section.wipStrict);
+  }, [isOpen, section.wipLimit, section.wipStrict]);
+
+  const value = limit.trim() ? Number(limit) : null;
+  const valid = value === null || (Number.isInteger(value) && value >= 1 && value <= 999);
+
+  const save = async (wipLimit: number | null) => {
+    setSaving(true);
+    try {
+      await onSave({ wipLimit, wipStrict: wipLimit === null ? false : strict });
+      onClose();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>WIP limit for "{section.title}"</DialogTitle>
+          <DialogDescription>The most cards this section should hold at once. Leave empty for no limit.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Input
+            type="number"
+            min={1}
+            max={999}
+            placeholder="No limit"
+            value={limit}
+            onChange={(e) => setLimit(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && valid && save(value)}
+          />
+          {!valid && <p className="text-sm text-destructive">Enter a whole number from 1 to 999</p>}
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="wip-strict" className="font-normal">
+              Strict: refuse cards beyond the limit instead of only warning
+            </Label>
+            <Switch id="wip-strict" checked={strict} onCheckedChange={setStrict} disabled={value === null} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          {section.wipLimit && (
+            <Button variant="outline" disabled={saving} onClick={() => save(null)} className="sm:mr-auto">
+              Remove limit
+            </Button>
+          )}
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button disabled={!valid || saving} onClick={() => save(value)} className="bg-gradient-primary hover:opacity-90">
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,36 +1,180 @@
 import React, { useState, useEffect } from "react";
-import { Section, Card, Board, UserLite } from "@/types/board";
+import { useParams } from "react-router-dom";
+import { Section, Card, Board, BoardEvent, UserLite, Member, Invitation, ProjectRole, Activity, ActivityPage, Label, Checklist, ChecklistItem, Attachment, SearchResult, ArchiveListing, SectionCardsChoice, CumulativeFlow, CycleTime, Throughput, CardDistribution, CardTransition } from "@/types/board";
+import { FilterState } from "@/hooks/useFilters";
 
 const API_BASE = import.meta.env.VITE_API_BASE ?? "http://localhost:4001/api";
 
+// Wait before reopening a dropped event stream
+const STREAM_RETRY_MS = 3000;
+
 // Helper to attach Authorization header when a token exists
 const authHeaders = () => {
   const token = localStorage.getItem("token");
   return token ? { Authorization: `Bearer ${token}` } : {};
 };
 
+function reviveCardDates(c: Card): Card {
+  return {
+    ...c,
+    createdAt: new Date(c.createdAt),
+    startDate: c.startDate ? new Date(c.startDate) : null,
+    dueDate: c.dueDate ? new Date(c.dueDate) : null,
+    comments: (c.comments ?? []).map((cm) => ({
+      ...cm,
+      createdAt: new Date(cm.createdAt),
+    })),
+  };
+}
+
 function reviveBoardDates(b: Board): Board {
   return {
     ...b,
     sections: b.sections.map((s) => ({
       ...s,
-      cards: s.cards.map((c) => ({
-        ...c,
-        createdAt: new Date(c.createdAt),
-        comments: c.comments.map((cm) => ({
-          ...cm,
-          createdAt: new Date(cm.createdAt),
-        })),
-      })),
+      cards: s.cards.map(reviveCardDates),
     })),
   };
 }
 
+async function fetchBoard(projectId: string): Promise<Board> {
+  const res = await fetch(`${API_BASE}/projects/${projectId}/board`, { headers: { ...authHeaders() } });
+  if (!res.ok) throw new Error(`Failed to load board (${res.status})`);
+  return reviveBoardDates(await res.json());
+}
+
+const mapCards = (board: Board, fn: (c: Card) => Card): Board => ({
+  ...board,
+  sections: board.sections.map((s) => ({ ...s, cards: s.cards.map(fn) })),
+});
+
+/**
+ * Apply a live event from another client (or the echo of our own change) to the board.
+ * Every branch is idempotent so receiving the echo of a change already applied is harmless.
+ */
+export function applyBoardEvent(board: Board, event: BoardEvent): Board {
+  switch (event.type) {
+    case "card.created":
+    case "card.updated": {
+      const card = reviveCardDates(event.card);
+      const current = board.sections.find((s) => s.cards.some((c) => c.id === card.id));
+      if (current?.id === card.sectionId) {
+        // keep comments/assignees we already have when the payload omits them
+        return mapCards(board, (c) =>
+          c.id === card.id ? { ...c, ...card, assignees: card.assignees ?? c.assignees, labels: card.labels ?? c.labels } : c
+        );
+      }
+      // new card, or its section changed through an edit: it goes last in the target section
+      return {
+        ...board,
+        sections: board.sections.map((s) => {
+          const cards = s.cards.filter((c) => c.id !== card.id);
+          return s.id === card.sectionId ? { ...s, cards: [...cards, card] } : { ...s, cards };
+        }),
+      };
+    }
+    case "card.moved": {
+      const card = reviveCardDates(event.card);
+      const order = new Map(event.cardIds.map((id, i) => [id, i]));
+      return {
+        ...board,
+        sections: board.sections.map((s) => {
+          const cards = s.cards.filter((c) => c.id !== card.id);
+          if (s.id !== card.sectionId) return { ...s, cards };
+          return {
+            ...s,
+            cards: [...cards, card].sort((a, b) => (order.get(a.id) ?? 0) - (order.get(b.id) ?? 0)),
+          };
+        }),
+      };
+    }
+    case "card.deleted":
+    case "cards.deleted": {
+      const ids = new Set(event.type === "card.deleted" ? [event.cardId] : event.cardIds);
+      return {
+        ...board,
+        sections: board.sections.map((s) => ({ ...s, cards: s.cards.filter((c) => !ids.has(c.id)) })),
+      };
+    }
+    case "section.created":
+      if (board.sections.some((s) => s.id === event.section.id)) return board;
+      return { ...board, sections: [...board.sections, { ...event.section, cards: [] }] };
+    case "section.updated":
+      return {
+        ...board,
+        sections: board.sections.map((s) => (s.id === event.section.id ? { ...s, ...event.section } : s)),
+      };
+    case "section.moved":
+      return {
+        ...board,
+        sections: [...board.sections].sort((a, b) => event.sectionIds.indexOf(a.id) - event.sectionIds.indexOf(b.id)),
+      };
+    case "section.deleted":
+      return { ...board, sections: board.sections.filter((s) => s.id !== event.sectionId) };
+    case "section.cleared":
+      return {
+        ...board,
+        sections: board.sections.map((s) => (s.id === event.sectionId ? { ...s, cards: [] } : s)),
+      };
+    case "comment.created":
+    case "comment.updated": {
+      const comment = { ...event.comment, createdAt: new Date(event.comment.createdAt) };
+      return mapCards(board, (c) => {
+        if (c.id !== event.cardId) return c;
+        const exists = c.comments.some((cm) => cm.id === comment.id);
+        return {
+          ...c,
+          comments: exists
+            ? c.comments.map((cm) => (cm.id === comment.id ? { ...cm, text: comment.text } : cm))
+            : [...c.comments, comment],
+        };
+      });
+    }
+    case "comment.deleted":
+      return mapCards(board, (c) =>
+        c.id === event.cardId ? { ...c, comments: c.comments.filter((cm) => cm.id !== event.commentId) } : c
+      );
+    case "assignees.updated":
+      return mapCards(board, (c) => (c.id === event.cardId ? { ...c, assignees: event.assignees } : c));
+    case "label.created":
+    case "label.updated": {
+      const { label } = event;
+      const labels = (board.labels ?? []).filter((l) => l.id !== label.id);
+      return {
+        ...mapCards(board, (c) =>
+          c.labels?.some((l) => l.id === label.id)
+            ? { ...c, labels: c.labels.map((l) => (l.id === label.id ? label : l)) }
+            : c
+        ),
+        labels: [...labels, label].sort((a, b) => a.name.localeCompare(b.name)),
+      };
+    }
+    case "checklists.updated":
+      return mapCards(board, (c) => (c.id === event.cardId ? { ...c, checklist: event.progress } : c));
+    case "attachments.updated":
+      return mapCards(board, (c) => (c.id === event.cardId ? { ...c, attachmentCount: event.count } : c));
+    case "label.deleted":
+      return {
+        ...mapCards(board, (c) =>
+          c.labels?.some((l) => l.id === event.labelId) ? { ...c, labels: c.labels.filter((l) => l.id !== event.labelId) } : c
+        ),
+        labels: (board.labels ?? []).filter((l) => l.id !== event.labelId),
+      };
+    default:
+      return board;
+  }
+}
+
+interface UseBoardDataOptions {
+  // Subscribe to the project's event stream so changes made elsewhere show up without a reload
+  live?: boolean;
+}
+
 /**
  * Project-aware board data hook.
- * Reads projectId from URL path /project/:projectId and calls project-scoped APIs.
+ * Reads projectId from the route, /project/:projectId, and calls project-scoped APIs.
  */
-export const useBoardData = () => {
+export const useBoardData = ({ live = false }: UseBoardDataOptions = {}) => {
   const [board, setBoard] = useState<Board>({
     id: "main-board",
     title: "",
@@ -43,27 +187,71 @@ export const useBoardData = () => {
   });
   const [loaded, setLoaded] = useState(false);
 
-  // Resolve projectId from URL path: expecting /project/:projectId
-  const getProjectId = () => {
-    const m = window.location.pathname.match(/^\/project\/([^\/]+)/);
-    return m?.[1] || "default";
-  };
+  // Routes without a project (e.g. /card/:cardId) use the default one
+  const projectId = useParams<{ projectId: string }>().projectId || "default";
+  const getProjectId = () => projectId;
 
   // Load from API on mount and when project changes
   useEffect(() => {
-    const projectId = getProjectId();
     (async () => {
       try {
-        const res = await fetch(`${API_BASE}/projects/${projectId}/board`);
-        const data = (await res.json()) as Board;
-        setBoard(reviveBoardDates(data));
+        setBoard(await fetchBoard(projectId));
       } catch (e) {
         console.error("Failed to load board from API:", e);
       } finally {
         setLoaded(true);
       }
     })();
-  }, [window.location.pathname]);
+  }, [projectId]);
+
+  // Live updates: apply events from the project's stream to local state
+  useEffect(() => {
+    if (!live || !localStorage.getItem("token")) return;
+    const reload = () => fetchBoard(projectId).then(setBoard).catch((e) => console.error(e));
+
+    let source: EventSource | null = null;
+    let retry: number | undefined;
+    let stopped = false;
+    let connected = false;
+    const reconnect = () => {
+      retry = window.setTimeout(connect, STREAM_RETRY_MS);
+    };
+    const connect = async () => {
+      // The stream URL carries a short-lived ticket rather than the session token
+      const res = await fetch(`${API_BASE}/projects/${projectId}/events/ticket`, { method: "POST", headers: { ...authHeaders() } }).catch(
+        () => null
+      );
+      if (stopped) return;
+      if (!res) return reconnect();
+      // Refused (signed out, no longer a member): stay offline
+      if (!res.ok) return;
+      const { ticket } = await res.json();
+      if (stopped) return;
+
+      source = new EventSource(`${API_BASE}/projects/${projectId}/events?ticket=${encodeURIComponent(ticket)}`);
+      source.onopen = () => {
+        // Events sent while we were away are lost, so resync
+        if (connected) reload();
+        connected = true;
+      };
+      source.onmessage = (msg) => {
+        const event = JSON.parse(msg.data) as BoardEvent;
+        if (event.type === "board.invalidated") reload();
+        else setBoard((prev) => applyBoardEvent(prev, event));
+      };
+      // The ticket expires soon after opening, so reconnect with a new one instead of letting EventSource retry
+      source.onerror = () => {
+        source?.close();
+        reconnect();
+      };
+    };
+    connect();
+    return () => {
+      stopped = true;
+      window.clearTimeout(retry);
+      source?.close();
+    };
+  }, [live, projectId]);
 
   // Sections
   const addSection = async (title: string) => {
@@ -78,16 +266,19 @@ export const useBoardData = () => {
     setBoard((prev) => ({ ...prev, sections: [...prev.sections, section] }));
   };
 
-  const deleteSection = async (sectionId: string) => {
+  /** Archive a section; `choice` decides whether its cards are moved, archived with it or deleted */
+  const deleteSection = async (sectionId: string, choice: SectionCardsChoice = { cards: "archive" }) => {
     const projectId = getProjectId();
     const res = await fetch(`${API_BASE}/projects/${projectId}/sections/${sectionId}`, {
       method: "DELETE",
-      headers: { ...authHeaders() },
+      headers: { "Content-Type": "application/json", ...authHeaders() },
+      body: JSON.stringify(choice),
     });
-    if (!res.ok) throw new Error("Failed to delete section");
-    // refetch board to reflect moved cards to backlog
-    const b = await (await fetch(`${API_BASE}/projects/${projectId}/board`)).json();
-    setBoard(reviveBoardDates(b));
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.message ?? "Failed to delete section");
+    setBoard(await fetchBoard(projectId));
+    // count: how many cards were moved, archived or deleted
+    return data as { count: number; undoId?: string };
   };
 
   const clearSection = async (sectionId: string) => {
@@ -97,8 +288,9 @@ export const useBoardData = () => {
       headers: { ...authHeaders() },
     });
     if (!res.ok) throw new Error("Failed to clear section");
-    const b = await (await fetch(`${API_BASE}/projects/${projectId}/board`)).json();
-    setBoard(reviveBoardDates(b));
+    const { undoId } = (await res.json()) as { undoId?: string };
+    setBoard(await fetchBoard(projectId));
+    return undoId;
   };
 
   const deleteAllSections = async () => {
@@ -107,19 +299,406 @@ export const useBoardData = () => {
       method: "POST",
       headers: { ...authHeaders() },
     });
-    if (!res.ok) throw new Error("Failed to delete all sections");
-    const b = await (await fetch(`${API_BASE}/projects/${projectId}/board`)).json();
-    setBoard(reviveBoardDates(b));
+    const data = await res.json().catch(() => ({}));
+    // 409: the Backlog's strict WIP limit has no room for the cards
+    if (!res.ok) throw new Error(data.message ?? "Failed to delete all sections");
+    const { undoId } = data as { undoId?: string };
+    setBoard(await fetchBoard(projectId));
+    return undoId;
+  };
+
+  /**
+   * Reverse one of this user's recent destructive operations; the ids come back from
+   * deleteCard, moveCard, deleteSection, clearSection and deleteAllSections and expire after a short while.
+   */
+  const undo = async (undoId: string) => {
+    const projectId = getProjectId();
+    const res = await fetch(`${API_BASE}/projects/${projectId}/undo`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...authHeaders() },
+      body: JSON.stringify({ undoId }),
+    });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      throw new Error(data.message ?? "Failed to undo");
+    }
+    setBoard(await fetchBoard(projectId));
+  };
+
+  // WIP limit settings; null removes the limit
+  const updateSection = async (sectionId: string, updates: Pick<Section, "wipLimit" | "wipStrict">) => {
+    const projectId = getProjectId();
+    const res = await fetch(`${API_BASE}/projects/${projectId}/sections/${sectionId}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json", ...authHeaders() },
+      body: JSON.stringify(updates),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.message ?? "Failed to update section");
+    setBoard((prev) => ({
+      ...prev,
+      sections: prev.sections.map((s) => (s.id === sectionId ? { ...s, ...data } : s)),
+    }));
+  };
+
+  /** Reorder columns: `index` is the slot among the other sections */
+  const moveSection = async (sectionId: string, index: number) => {
+    const projectId = getProjectId();
+    const res = await fetch(`${API_BASE}/projects/${projectId}/sections/${sectionId}/move`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...authHeaders() },
+      body: JSON.stringify({ index }),
+    });
+    if (!res.ok) throw new Error("Failed to move section");
+    const { sectionIds } = (await res.json()) as { sectionIds: string[] };
+    setBoard((prev) => ({
+      ...prev,
+      sections: [...prev.sections].sort((a, b) => sectionIds.indexOf(a.id) - sectionIds.indexOf(b.id)),
+    }));
   };
 
   // Users (for assignees)
   // Important: stable reference to avoid triggering effects on each render
   const listUsers = async (): Promise<UserLite[]> => {
-    const res = await fetch(`${API_BASE}/users`);
+    const res = await fetch(`${API_BASE}/users`, { headers: { ...authHeaders() } });
     if (!res.ok) throw new Error("Failed to list users");
     return res.json();
   };
 
+  // Members (only they can be assigned to cards)
+  // Memoized per project so consumers' useEffect([listMembers]) only re-runs when the board changes
+  const listMembers = React.useCallback(async (): Promise<Member[]> => {
+    const res = await fetch(`${API_BASE}/projects/${projectId}/members`, { headers: { ...authHeaders() } });
+    if (!res.ok) throw new Error("Failed to list members");
+    const data = await res.json();
+    return data.map((m: Member) => ({ ...m, joinedAt: new Date(m.joinedAt) }));
+  }, [projectId]);
+
+  const updateMemberRole = async (userId: string, role: ProjectRole): Promise<Member> => {
+    const projectId = getProjectId();
+    const res = await fetch(`${API_BASE}/projects/${projectId}/members/${userId}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json", ...authHeaders() },
+      body: JSON.stringify({ role }),
+    });
+    if (!res.ok) {
+      const m = await res.json().catch(() => ({}));
+      throw new Error(m?.message || "Failed to change role");
+    }
+    const updated = await res.json();
+    return { ...updated, joinedAt: new Date(updated.joinedAt) };
+  };
+
+  const removeMember = async (userId: string) => {
+    const projectId = getProjectId();
+    const res = await fetch(`${API_BASE}/projects/${projectId}/members/${userId}`, {
+      method: "DELETE",
+      headers: { ...authHeaders() },
+    });
+    if (!res.ok) {
+      const m = await res.json().catch(() => ({}));
+      throw new Error(m?.message || "Failed to remove member");
+    }
+    // drop the former member from assignee lists, the server did the same
+    setBoard((prev) => ({
+      ...prev,
+      sections: prev.sections.map((s) => ({
+        ...s,
+        cards: s.cards.map((c) =>
+          c.assignees?.some((a) => a.id === userId)
+            ? { ...c, assignees: c.assignees.filter((a) => a.id !== userId) }
+            : c
+        ),
+      })),
+    }));
+  };
+
+  // Invitations of the current board (owners only)
+  const listInvitations = async (): Promise<Invitation[]> => {
+    const projectId = getProjectId();
+    const res = await fetch(`${API_BASE}/projects/${projectId}/invitations`, { headers: { ...authHeaders() } });
+    if (!res.ok) throw new Error("Failed to list invitations");
+    const data = await res.json();
+    return data.map((i: Invitation) => ({ ...i, createdAt: new Date(i.createdAt) }));
+  };
+
+  const inviteMember = async (email: string, role: ProjectRole): Promise<Invitation> => {
+    const projectId = getProjectId();
+    const res = await fetch(`${API_BASE}/projects/${projectId}/invitations`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...authHeaders() },
+      body: JSON.stringify({ email, role }),
+    });
+    if (!res.ok) {
+      const m = await res.json().catch(() => ({}));
+      throw new Error(m?.message || "Failed to invite user");
+    }
+    const created = await res.json();
+    return { ...created, createdAt: new Date(created.createdAt) };
+  };
+
+  const cancelInvitation = async (invitationId: string) => {
+    const projectId = getProjectId();
+    const res = await fetch(`${API_BASE}/projects/${projectId}/invitations/${invitationId}`, {
+      method: "DELETE",
+      headers: { ...authHeaders() },
+    });
+    if (!res.ok) throw new Error("Failed to cancel invitation");
+  };
+
+  // Labels defined on the board
+  const listLabels = async (): Promise<Label[]> => {
+    const projectId = getProjectId();
+    const res = await fetch(`${API_BASE}/projects/${projectId}/labels`, { headers: { ...authHeaders() } });
+    if (!res.ok) throw new Error("Failed to list labels");
+    return res.json();
+  };
+
+  const createLabel = async (name: string, color: string): Promise<Label> => {
+    const projectId = getProjectId();
+    const res = await fetch(`${API_BASE}/projects/${projectId}/labels`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...authHeaders() },
+      body: JSON.stringify({ name, color }),
+    });
+    if (!res.ok) {
+      const m = await res.json().catch(() => ({}));
+      throw new Error(m?.message || "Failed to create label");
+    }
+    const label: Label = await res.json();
+    setBoard((prev) => applyBoardEvent(prev, { type: "label.created", label }));
+    return label;
+  };
+
+  const updateLabel = async (labelId: string, updates: Partial<Pick<Label, "name" | "color">>): Promise<Label> => {
+    const projectId = getProjectId();
+    const res = await fetch(`${API_BASE}/projects/${projectId}/labels/${labelId}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json", ...authHeaders() },
+      body: JSON.stringify(updates),
+    });
+    if (!res.ok) {
+      const m = await res.json().catch(() => ({}));
+      throw new Error(m?.message || "Failed to update label");
+    }
+    const label: Label = await res.json();
+    setBoard((prev) => applyBoardEvent(prev, { type: "label.updated", label }));
+    return label;
+  };
+
+  const deleteLabel = async (labelId: string) => {
+    const projectId = getProjectId();
+    const res = await fetch(`${API_BASE}/projects/${projectId}/labels/${labelId}`, {
+      method: "DELETE",
+      headers: { ...authHeaders() },
+    });
+    if (!res.ok) throw new Error("Failed to delete label");
+    setBoard((prev) => applyBoardEvent(prev, { type: "label.deleted", labelId }));
+  };
+
+  // Checklists of a card; the board only keeps their progress (updated through live events)
+  const checklistsUrl = (cardId: string) => `${API_BASE}/projects/${getProjectId()}/cards/${cardId}/checklists`;
+
+  const listChecklists = async (cardId: string): Promise<Checklist[]> => {
+    const res = await fetch(checklistsUrl(cardId), { headers: { ...authHeaders() } });
+    if (!res.ok) throw new Error("Failed to load checklists");
+    return res.json();
+  };
+
+  const createChecklist = async (cardId: string, title: string): Promise<Checklist> => {
+    const res = await fetch(checklistsUrl(cardId), {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...authHeaders() },
+      body: JSON.stringify({ title }),
+    });
+    if (!res.ok) throw new Error("Failed to create checklist");
+    return res.json();
+  };
+
+  const renameChecklist = async (cardId: string, checklistId: string, title: string): Promise<Checklist> => {
+    const res = await fetch(`${checklistsUrl(cardId)}/${checklistId}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json", ...authHeaders() },
+      body: JSON.stringify({ title }),
+    });
+    if (!res.ok) throw new Error("Failed to rename checklist");
+    return res.json();
+  };
+
+  const deleteChecklist = async (cardId: string, checklistId: string) => {
+    const res = await fetch(`${checklistsUrl(cardId)}/${checklistId}`, { method: "DELETE", headers: { ...authHeaders() } });
+    if (!res.ok) throw new Error("Failed to delete checklist");
+  };
+
+  const addChecklistItem = async (cardId: string, checklistId: string, text: string): Promise<ChecklistItem> => {
+    const res = await fetch(`${checklistsUrl(cardId)}/${checklistId}/items`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...authHeaders() },
+      body: JSON.stringify({ text }),
+    });
+    if (!res.ok) throw new Error("Failed to add checklist item");
+    return res.json();
+  };
+
+  const updateChecklistItem = async (
+    cardId: string,
+    checklistId: string,
+    itemId: string,
+    updates: Partial<Pick<ChecklistItem, "text" | "done">>
+  ): Promise<ChecklistItem> => {
+    const res = await fetch(`${checklistsUrl(cardId)}/${checklistId}/items/${itemId}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json", ...authHeaders() },
+      body: JSON.stringify(updates),
+    });
+    if (!res.ok) throw new Error("Failed to update checklist item");
+    return res.json();
+  };
+
+  const deleteChecklistItem = async (cardId: string, checklistId: string, itemId: string) => {
+    const res = await fetch(`${checklistsUrl(cardId)}/${checklistId}/items/${itemId}`, {
+      method: "DELETE",
+      headers: { ...authHeaders() },
+    });
+    if (!res.ok) throw new Error("Failed to delete checklist item");
+  };
+
+  // index: position among the other items of the checklist
+  const moveChecklistItem = async (cardId: string, checklistId: string, itemId: string, index: number) => {
+    const res = await fetch(`${checklistsUrl(cardId)}/${checklistId}/items/${itemId}/move`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...authHeaders() },
+      body: JSON.stringify({ index }),
+    });
+    if (!res.ok) throw new Error("Failed to move checklist item");
+  };
+
+  // Attachments
+  const listAttachments = async (cardId: string): Promise<Attachment[]> => {
+    const res = await fetch(`${API_BASE}/projects/${getProjectId()}/cards/${cardId}/attachments`, {
+      headers: { ...authHeaders() },
+    });
+    if (!res.ok) throw new Error("Failed to load attachments");
+    const data = await res.json();
+    return data.map((a: Attachment) => ({ ...a, createdAt: new Date(a.createdAt) }));
+  };
+
+  // Multipart upload; the browser sets the Content-Type boundary itself
+  const uploadAttachment = async (cardId: string, file: File): Promise<Attachment> => {
+    const body = new FormData();
+    body.append("file", file);
+    const res = await fetch(`${API_BASE}/projects/${getProjectId()}/cards/${cardId}/attachments`, {
+      method: "POST",
+      headers: { ...authHeaders() },
+      body,
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.message ?? "Failed to upload attachment");
+    return { ...data, createdAt: new Date(data.createdAt) };
+  };
+
+  const deleteAttachment = async (attachmentId: string) => {
+    const res = await fetch(`${API_BASE}/projects/${getProjectId()}/attachments/${attachmentId}`, {
+      method: "DELETE",
+      headers: { ...authHeaders() },
+    });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      throw new Error(data.message ?? "Failed to delete attachment");
+    }
+  };
+
+  // Fetched with the Authorization header so the session token never ends up in a URL; inline serves images for thumbnails
+  const downloadAttachment = async (attachment: Pick<Attachment, "id">, inline = false): Promise<Blob> => {
+    const query = inline ? "?inline=1" : "";
+    const res = await fetch(`${API_BASE}/projects/${getProjectId()}/attachments/${attachment.id}/download${query}`, {
+      headers: { ...authHeaders() },
+    });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      throw new Error(data.message ?? "Failed to download attachment");
+    }
+    return res.blob();
+  };
+
+  // CSV of the cards the filter shows, in board order, with the file name the server suggests
+  const exportCardsCsv = async (filters: FilterState): Promise<{ blob: Blob; filename: string }> => {
+    const params = new URLSearchParams();
+    filters.priorities.forEach((p) => params.append("priority", p));
+    filters.executors.forEach((e) => params.append("executor", e));
+    filters.labels.forEach((l) => params.append("label", l));
+    if (filters.multiFilter) params.set("multiFilter", "1");
+    params.set("due", filters.due);
+    params.set("sortBy", filters.sortBy);
+    params.set("tzOffset", String(new Date().getTimezoneOffset()));
+    const res = await fetch(`${API_BASE}/projects/${getProjectId()}/export/csv?${params}`, { headers: { ...authHeaders() } });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      throw new Error(data.message ?? "Failed to export cards");
+    }
+    const filename = res.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ?? "cards.csv";
+    return { blob: await res.blob(), filename };
+  };
+
+  // Cards of this board whose title, description or comments contain every term of the query
+  const searchCards = async (query: string): Promise<SearchResult[]> => {
+    const params = new URLSearchParams({ q: query });
+    const res = await fetch(`${API_BASE}/projects/${getProjectId()}/search?${params}`, { headers: { ...authHeaders() } });
+    if (!res.ok) throw new Error("Failed to search cards");
+    return res.json();
+  };
+
+  // Archive
+  const listArchive = async (): Promise<ArchiveListing> => {
+    const res = await fetch(`${API_BASE}/projects/${getProjectId()}/archive`, { headers: { ...authHeaders() } });
+    if (!res.ok) throw new Error("Failed to load archive");
+    const data: ArchiveListing = await res.json();
+    return {
+      sections: data.sections.map((s) => ({ ...s, archivedAt: new Date(s.archivedAt) })),
+      cards: data.cards.map((c) => ({ ...c, archivedAt: new Date(c.archivedAt) })),
+    };
+  };
+
+  // Restores and permanent deletes share the request shape; restores reload the board they change
+  const archiveRequest = async (path: string, method: "POST" | "DELETE", fallback: string) => {
+    const projectId = getProjectId();
+    const res = await fetch(`${API_BASE}/projects/${projectId}/archive/${path}`, { method, headers: { ...authHeaders() } });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      throw new Error(data.message ?? fallback);
+    }
+    if (method === "POST") setBoard(await fetchBoard(projectId));
+  };
+
+  const restoreArchivedCard = (cardId: string) => archiveRequest(`cards/${cardId}/restore`, "POST", "Failed to restore card");
+  const restoreArchivedSection = (sectionId: string) =>
+    archiveRequest(`sections/${sectionId}/restore`, "POST", "Failed to restore section");
+  const purgeArchivedCard = (cardId: string) => archiveRequest(`cards/${cardId}`, "DELETE", "Failed to delete card");
+  const purgeArchivedSection = (sectionId: string) => archiveRequest(`sections/${sectionId}`, "DELETE", "Failed to delete section");
+
+  // Activity log, newest first; pass the previous page's nextCursor to continue
+  const listActivity = async ({ cardId, cursor }: { cardId?: string; cursor?: string } = {}): Promise<ActivityPage> => {
+    const projectId = getProjectId();
+    const params = new URLSearchParams();
+    if (cursor) params.set("cursor", cursor);
+    const path = cardId ? `/projects/${projectId}/cards/${cardId}/activity` : `/projects/${projectId}/activity`;
+    const res = await fetch(`${API_BASE}${path}?${params}`, { headers: { ...authHeaders() } });
+    if (!res.ok) throw new Error("Failed to load activity");
+    const data = await res.json();
+    return {
+      items: data.items.map((a: Activity) => ({ ...a, createdAt: new Date(a.createdAt) })),
+      nextCursor: data.nextCursor,
+    };
+  };
+
+  // Section history of a card, oldest first
+  const listCardTransitions = async (cardId: string): Promise<CardTransition[]> => {
+    const res = await fetch(`${API_BASE}/projects/${getProjectId()}/cards/${cardId}/transitions`, { headers: { ...authHeaders() } });
+    if (!res.ok) throw new Error("Failed to load section history");
+    const data: CardTransition[] = await res.json();
+    return data.map((t) => ({ ...t, createdAt: new Date(t.createdAt) }));
+  };
+
   // Assignees
   const assignUser = async (cardId: string, userId: string) => {
     const projectId = getProjectId();
@@ -167,23 +746,22 @@ export const useBoardData = () => {
         description: card.description,
         priority: card.priority,
         executor: card.executor,
+        startDate: card.startDate?.toISOString() ?? null,
+        dueDate: card.dueDate?.toISOString() ?? null,
+        labelIds: card.labels?.map((l) => l.id),
       }),
     });
-    if (!res.ok) throw new Error("Failed to add card");
+    if (!res.ok) {
+      const m = await res.json().catch(() => ({}));
+      throw new Error(m?.message || "Failed to add card");
+    }
     const created = await res.json();
     setBoard((prev) => {
       const sections = prev.sections.map((s) =>
         s.id === sectionId
           ? {
               ...s,
-              cards: [
-                ...s.cards,
-                {
-                  ...created,
-                  createdAt: new Date(created.createdAt),
-                  comments: [],
-                },
-              ],
+              cards: [...s.cards, reviveCardDates({ ...created, comments: [] })],
             }
           : s
       );
@@ -191,7 +769,8 @@ export const useBoardData = () => {
     });
   };
 
-  const updateCard = async (card: Card) => {
+  /** Save a card's fields; `assigneeIds` replaces its assignees, which are otherwise left alone */
+  const updateCard = async (card: Card, { assigneeIds }: { assigneeIds?: string[] } = {}) => {
     const projectId = getProjectId();
     const res = await fetch(`${API_BASE}/projects/${projectId}/cards/${card.id}`, {
       method: "PUT",
@@ -202,9 +781,16 @@ export const useBoardData = () => {
         priority: card.priority,
         executor: card.executor,
         sectionId: card.sectionId,
+        startDate: card.startDate?.toISOString() ?? null,
+        dueDate: card.dueDate?.toISOString() ?? null,
+        labelIds: card.labels?.map((l) => l.id),
+        assigneeIds,
       }),
     });
-    if (!res.ok) throw new Error("Failed to update card");
+    if (!res.ok) {
+      const m = await res.json().catch(() => ({}));
+      throw new Error(m?.message || "Failed to update card");
+    }
     const updated = await res.json();
     setBoard((prev) => ({
       ...prev,
@@ -212,15 +798,11 @@ export const useBoardData = () => {
         ...s,
         cards: s.cards.map((c) =>
           c.id === card.id
-            ? {
+            ? reviveCardDates({
                 ...updated,
-                createdAt: new Date(updated.createdAt ?? c.createdAt),
-                comments:
-                  updated.comments?.map((cm: any) => ({
-                    ...cm,
-                    createdAt: new Date(cm.createdAt),
-                  })) ?? c.comments,
-              }
+                createdAt: updated.createdAt ?? c.createdAt,
+                comments: updated.comments ?? c.comments,
+              })
             : c
         ),
       })),
@@ -231,6 +813,7 @@ export const useBoardData = () => {
     const projectId = getProjectId();
     const res = await fetch(`${API_BASE}/projects/${projectId}/cards/${cardId}`, { method: "DELETE", headers: { ...authHeaders() } });
     if (!res.ok) throw new Error("Failed to delete card");
+    const { undoId } = (await res.json()) as { undoId?: string };
     setBoard((prev) => ({
       ...prev,
       sections: prev.sections.map((s) => ({
@@ -238,59 +821,73 @@ export const useBoardData = () => {
         cards: s.cards.filter((c) => c.id !== cardId),
       })),
     }));
+    return undoId;
   };
 
-  const moveCard = async (cardId: string, targetSectionId: string) => {
+  /**
+   * Move a card to a section. `index` is the slot among the other cards of the
+   * target section (same meaning as on the server); without it the card is appended.
+   */
+  const moveCard = async (cardId: string, targetSectionId: string, index?: number) => {
     const projectId = getProjectId();
     const res = await fetch(`${API_BASE}/projects/${projectId}/cards/${cardId}/move`, {
       method: "POST",
       headers: { "Content-Type": "application/json", ...authHeaders() },
-      body: JSON.stringify({ targetSectionId }),
+      body: JSON.stringify({ targetSectionId, index }),
     });
-    if (!res.ok) throw new Error("Failed to move card");
-    const moved = await res.json();
+    if (!res.ok) {
+      // e.g. a 409 from a strict WIP limit, worded for the user
+      const data = await res.json().catch(() => ({}));
+      throw new Error(data.message ?? "Failed to move card");
+    }
+    const { undoId, ...moved } = await res.json();
     // update client state using server response
     setBoard((prev) => {
-      // remove from all sections then add to target
+      // remove from all sections then insert into target at the requested slot
       const without = prev.sections.map((s) => ({
         ...s,
         cards: s.cards.filter((c) => c.id !== cardId),
       }));
       return {
         ...prev,
-        sections: without.map((s) =>
-          s.id === targetSectionId
-            ? {
-                ...s,
-                cards: [
-                  ...s.cards,
-                  {
-                    ...moved,
-                    createdAt: new Date(moved.createdAt),
-                    comments:
-                      moved.comments?.map((cm: any) => ({
-                        ...cm,
-                        createdAt: new Date(cm.createdAt),
-                      })) ?? [],
-                  },
-                ],
-              }
-            : s
-        ),
+        sections: without.map((s) => {
+          if (s.id !== targetSectionId) return s;
+          const cards = [...s.cards];
+          const at = index === undefined ? cards.length : Math.min(index, cards.length);
+          cards.splice(at, 0, reviveCardDates({ ...moved, comments: moved.comments ?? [] }));
+          return { ...s, cards };
+        }),
       };
     });
+    return undoId as string | undefined;
   };
 
   // Memoize listUsers so consumers' useEffect([listUsers]) doesn't re-run every render
   // This prevents infinite/duplicate requests to /users caused by changing function identity.
   const memoListUsers = React.useCallback(listUsers, []);
 
+  // Insights
+  const insightsRequest = async <T,>(path: string, fallback: string): Promise<T> => {
+    const res = await fetch(`${API_BASE}/projects/${getProjectId()}/insights/${path}`, { headers: { ...authHeaders() } });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.message ?? fallback);
+    return data;
+  };
+
+  const getCumulativeFlow = (days = 30) => insightsRequest<CumulativeFlow>(`flow?days=${days}`, "Failed to load cumulative flow");
+  const getCycleTime = (days = 30) => insightsRequest<CycleTime>(`cycle-time?days=${days}`, "Failed to load cycle time");
+  const getThroughput = (weeks = 12) => insightsRequest<Throughput>(`throughput?weeks=${weeks}`, "Failed to load throughput");
+  const getDistribution = () => insightsRequest<CardDistribution>("distribution", "Failed to load distribution");
+
   return {
     board,
     addSection,
     deleteSection,
     clearSection,
     deleteAllSections,
+    updateSection,
+    moveSection,
+    undo,
     addCard,
     updateCard,
     deleteCard,
@@ -299,6 +896,49 @@ export const useBoardData = () => {
     listUsers: memoListUsers,
     assignUser,
     unassignUser,
+    // board members/invitations
+    listMembers,
+    updateMemberRole,
+    removeMember,
+    listInvitations,
+    inviteMember,
+    cancelInvitation,
+    // labels
+    listLabels,
+    createLabel,
+    updateLabel,
+    deleteLabel,
+    // checklists
+    listChecklists,
+    createChecklist,
+    renameChecklist,
+    deleteChecklist,
+    addChecklistItem,
+    updateChecklistItem,
+    deleteChecklistItem,
+    moveChecklistItem,
+    // attachments
+    listAttachments,
+    uploadAttachment,
+    deleteAttachment,
+    downloadAttachment,
+    // search
+    searchCards,
+    exportCardsCsv,
+    // archive
+    listArchive,
+    restoreArchivedCard,
+    restoreArchivedSection,
+    purgeArchivedCard,
+    purgeArchivedSection,
+    // audit trail
+    listActivity,
+    listCardTransitions,
+    // insights
+    getCumulativeFlow,
+    getCycleTime,
+    getThroughput,
+    getDistribution,
     loaded,
   };
 };
@@ -1,19 +1,63 @@
 import { useState } from "react";
-import { Priority } from "@/types/board";
+import { endOfDay, isThisWeek, differenceInCalendarDays } from "date-fns";
+import { Card, Priority } from "@/types/board";
 
+export type DueFilter = 'all' | 'overdue' | 'due-this-week';
+
+// Cards due within this many days (and not yet overdue) count as due soon
+export const DUE_SOON_DAYS = 2;
+
+// A card is overdue once its whole due day has passed
+export const getDueStatus = (card: Pick<Card, 'dueDate'>, now = new Date()): 'overdue' | 'due-soon' | null => {
+  if (!card.dueDate) return null;
+  if (endOfDay(card.dueDate) < now) return 'overdue';
+  if (differenceInCalendarDays(card.dueDate, now) <= DUE_SOON_DAYS) return 'due-soon';
+  return null;
+};
+
+export const matchesDueFilter = (card: Pick<Card, 'dueDate'>, due: DueFilter, now = new Date()) => {
+  switch (due) {
+    case 'overdue':
+      return getDueStatus(card, now) === 'overdue';
+    case 'due-this-week':
+      return !!card.dueDate && isThisWeek(card.dueDate, { weekStartsOn: 1 });
+    default:
+      return true;
+  }
+};
+
+// server/src/cardFilter.ts applies the same rules to CSV exports
 export interface FilterState {
   priorities: Priority[];
   executors: string[];
+  // Label ids
+  labels: string[];
   multiFilter: boolean;
-  sortBy: 'date' | 'priority-low-high' | 'priority-high-low' | 'priority-normal-first';
+  // Narrows the result of the priority/executor filters
+  due: DueFilter;
+  // 'manual' keeps the order cards were dragged into
+  sortBy: 'manual' | 'date' | 'due-date' | 'priority-low-high' | 'priority-high-low' | 'priority-normal-first';
 }
 
+// Whether a card passes the priority/executor/label filters (OR, or AND in multi-filter mode) and the due filter
+export const matchesFilters = (card: Card, filters: FilterState, now = new Date()) => {
+  // Only the criteria the user actually set take part
+  const matches: boolean[] = [];
+  if (filters.priorities.length > 0) matches.push(filters.priorities.includes(card.priority));
+  if (filters.executors.length > 0) matches.push(filters.executors.includes(card.executor));
+  if (filters.labels.length > 0) matches.push(!!card.labels?.some(l => filters.labels.includes(l.id)));
+  if (matches.length > 0 && !(filters.multiFilter ? matches.every(Boolean) : matches.some(Boolean))) return false;
+  return matchesDueFilter(card, filters.due, now);
+};
+
 export const useFilters = () => {
   const [filters, setFilters] = useState<FilterState>({
     priorities: [],
     executors: [],
+    labels: [],
     multiFilter: false,
-    sortBy: 'date'
+    due: 'all',
+    sortBy: 'manual'
   });
 
   const updateFilter = (updates: Partial<FilterState>) => {
@@ -38,17 +82,28 @@ export const useFilters = () => {
     }));
   };
 
+  const toggleLabel = (labelId: string) => {
+    setFilters(prev => ({
+      ...prev,
+      labels: prev.labels.includes(labelId)
+        ? prev.labels.filter(l => l !== labelId)
+        : [...prev.labels, labelId]
+    }));
+  };
+
   const clearFilters = () => {
     setFilters({
       priorities: [],
       executors: [],
+      labels: [],
       multiFilter: false,
-      sortBy: 'date'
+      due: 'all',
+      sortBy: 'manual'
     });
   };
 
   const hasActiveFilters = () => {
-    return filters.priorities.length > 0 || filters.executors.length > 0;
+    return filters.priorities.length > 0 || filters.executors.length > 0 || filters.labels.length > 0 || filters.due !== 'all';
   };
 
   return {
@@ -56,6 +111,7 @@ export const useFilters = () => {
     updateFilter,
     togglePriority,
     toggleExecutor,
+    toggleLabel,
     clearFilters,
     hasActiveFilters
   };
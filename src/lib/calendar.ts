@@ -0,0 +1,65 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  differenceInCalendarDays,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { Card } from "@/types/board";
+
+/**
+ * The calendar places each card on its due day. Weeks start on Monday, like the
+ * "due this week" filter; cards without a due date are unscheduled.
+ */
+export type CalendarMode = "month" | "week";
+
+const WEEK = { weekStartsOn: 1 } as const;
+
+// Days shown for the period around `cursor`; a month view is padded to whole weeks
+export const calendarDays = (cursor: Date, mode: CalendarMode) =>
+  mode === "week"
+    ? eachDayOfInterval({ start: startOfWeek(cursor, WEEK), end: endOfWeek(cursor, WEEK) })
+    : eachDayOfInterval({ start: startOfWeek(startOfMonth(cursor), WEEK), end: endOfWeek(endOfMonth(cursor), WEEK) });
+
+// Previous (-1) or next (1) period
+export const shiftPeriod = (cursor: Date, mode: CalendarMode, step: number) =>
+  mode === "week" ? addWeeks(cursor, step) : addMonths(cursor, step);
+
+export const periodTitle = (cursor: Date, mode: CalendarMode) => {
+  if (mode === "month") return format(cursor, "MMMM yyyy");
+  const start = startOfWeek(cursor, WEEK);
+  const end = endOfWeek(cursor, WEEK);
+  return `${format(start, "MMM d")} – ${format(end, start.getMonth() === end.getMonth() ? "d, yyyy" : "MMM d, yyyy")}`;
+};
+
+// Stable key of a day, used for droppable ids and grouping
+export const dayKey = (date: Date) => format(date, "yyyy-MM-dd");
+
+export const cardsByDay = (cards: Card[]) => {
+  const byDay = new Map<string, Card[]>();
+  cards.forEach((card) => {
+    if (!card.dueDate) return;
+    const key = dayKey(card.dueDate);
+    byDay.set(key, [...(byDay.get(key) ?? []), card]);
+  });
+  return byDay;
+};
+
+/**
+ * The card with its due date moved to `day`, or cleared when `day` is null.
+ * A start date moves by the same number of days, so the planned span is kept; a start date
+ * without a due date is pulled back to the new due day if it would fall after it.
+ */
+export const reschedule = (card: Card, day: Date | null): Card => {
+  if (!day) return { ...card, dueDate: null };
+  const dueDate = startOfDay(day);
+  if (!card.startDate) return { ...card, dueDate };
+  if (card.dueDate) return { ...card, dueDate, startDate: addDays(card.startDate, differenceInCalendarDays(dueDate, card.dueDate)) };
+  return { ...card, dueDate, startDate: card.startDate > dueDate ? dueDate : card.startDate };
+};
@@ -0,0 +1,92 @@
+import { Card, Priority, UserLite } from "@/types/board";
+
+/**
+ * Swimlanes split the board into rows by one card field; every lane shows the same sections.
+ * A card sits in exactly one lane: its priority, its executor, or its first assignee.
+ * The empty key "" is the lane of cards without a value (no executor, unassigned).
+ */
+export type SwimlaneGrouping = "none" | "assignee" | "priority" | "executor";
+
+export interface Swimlane {
+  key: string;
+  title: string;
+}
+
+const PRIORITY_LANES: Swimlane[] = [
+  { key: "high", title: "High priority" },
+  { key: "normal", title: "Normal priority" },
+  { key: "low", title: "Low priority" },
+];
+
+export const laneKeyOf = (card: Card, groupBy: SwimlaneGrouping) => {
+  switch (groupBy) {
+    case "priority":
+      return card.priority;
+    case "executor":
+      return card.executor?.trim() ?? "";
+    case "assignee":
+      return card.assignees?.[0]?.id ?? "";
+    default:
+      return "";
+  }
+};
+
+// Lanes in display order; members without cards still get a lane so cards can be dropped onto them
+export const buildLanes = (cards: Card[], groupBy: SwimlaneGrouping, members: UserLite[] = []): Swimlane[] => {
+  switch (groupBy) {
+    case "priority":
+      return PRIORITY_LANES;
+    case "executor": {
+      const executors = [...new Set(cards.map((c) => c.executor?.trim()).filter(Boolean))].sort((a, b) => a.localeCompare(b));
+      return [...executors.map((e) => ({ key: e, title: e })), { key: "", title: "No executor" }];
+    }
+    case "assignee": {
+      // Former members may still be assigned to older cards
+      const people = new Map(members.map((m) => [m.id, m.name]));
+      cards.forEach((c) => c.assignees?.forEach((a) => !people.has(a.id) && people.set(a.id, a.name)));
+      const lanes = [...people].map(([key, title]) => ({ key, title })).sort((a, b) => a.title.localeCompare(b.title));
+      return [...lanes, { key: "", title: "Unassigned" }];
+    }
+    default:
+      return [{ key: "", title: "" }];
+  }
+};
+
+/**
+ * The card as it should be saved after being dropped from lane `from` into lane `to`.
+ * For assignees the person of the source lane is swapped for the target's and co-assignees stay,
+ * except in the Unassigned lane, which clears them all.
+ */
+export const moveToLane = (
+  card: Card,
+  groupBy: SwimlaneGrouping,
+  from: string,
+  to: string
+): { card: Card; assigneeIds?: string[] } => {
+  switch (groupBy) {
+    case "priority":
+      return { card: { ...card, priority: to as Priority } };
+    case "executor":
+      return { card: { ...card, executor: to } };
+    case "assignee": {
+      const others = (card.assignees ?? []).map((a) => a.id).filter((id) => id !== from && id !== to);
+      return { card, assigneeIds: to ? [to, ...others] : [] };
+    }
+    default:
+      return { card };
+  }
+};
+
+// Toast wording for a lane change, e.g. "Priority set to high"
+export const describeLaneChange = (groupBy: SwimlaneGrouping, lane: Swimlane | undefined) => {
+  switch (groupBy) {
+    case "priority":
+      return `Priority set to ${lane?.key}`;
+    case "executor":
+      return lane?.key ? `Executor set to ${lane.title}` : "Executor cleared";
+    case "assignee":
+      return lane?.key ? `Assigned to ${lane.title}` : "Unassigned";
+    default:
+      return "";
+  }
+};
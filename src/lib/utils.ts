@@ -4,3 +4,23 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Message for a failed API call: the first zod issue of a 400 response (e.g. "sections.0.title: Required"), else the server message
+export function describeApiError(
+  data: { message?: string; issues?: { path: (string | number)[]; message: string }[] },
+  fallback: string
+) {
+  const issue = data.issues?.[0]
+  if (issue) return issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+  return data.message ?? fallback
+}
+
+// Saves a downloaded file; used for API downloads fetched with the Authorization header
+export function saveBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
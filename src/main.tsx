@@ -10,6 +10,8 @@ import Boards from './pages/Boards'
 import Login from './pages/Login'
 import Register from './pages/Register'
 import Customers from './pages/Customers'
+import Calendar from './pages/Calendar'
+import Insights from './pages/Insights'
 
 function RequireAuth({ children }: { children: React.ReactNode }) {
   // Accept either key to be resilient
@@ -32,6 +34,8 @@ const router = createBrowserRouter([
   { path: '/boards', element: <App><RequireAuth><Boards /></RequireAuth></App> },
   { path: '/customers', element: <App><RequireAuth><Customers /></RequireAuth></App> },
   { path: '/project/:projectId', element: <App><RequireAuth><Index /></RequireAuth></App> },
+  { path: '/project/:projectId/calendar', element: <App><RequireAuth><Calendar /></RequireAuth></App> },
+  { path: '/project/:projectId/insights', element: <App><RequireAuth><Insights /></RequireAuth></App> },
 
   // Card detail views (keep accessible if needed under auth)
   { path: '/card/:cardId', element: <App><RequireAuth><CardView /></RequireAuth></App> },
@@ -1,23 +1,64 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { Link, useNavigate } from "react-router-dom";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { BoardTemplate, ImportReport, ProjectRole } from "@/types/board";
+import { Copy, Download, LayoutTemplate, Trash2, Upload } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { describeApiError } from "@/lib/utils";
+import { TrelloImportDialog } from "@/components/board/TrelloImportDialog";
+import { SaveTemplateDialog } from "@/components/board/SaveTemplateDialog";
+import { DuplicateBoardDialog } from "@/components/board/DuplicateBoardDialog";
 
-type Project = { id: string; title: string };
+type PendingInvitation = {
+  id: string;
+  role: ProjectRole;
+  project: { id: string; title: string };
+  invitedBy: { id: string; name: string; email: string };
+};
+
+type Project = { id: string; title: string; role?: ProjectRole };
 
 const API_BASE = import.meta.env.VITE_API_BASE ?? "http://localhost:4001/api";
 
+// Boards start from the basic Backlog / To Do / Review / Done layout unless another template is picked
+const DEFAULT_TEMPLATE_ID = "builtin-basic";
+
 const Boards = () => {
   const [projects, setProjects] = useState<Project[]>([]);
   const [loading, setLoading] = useState(true);
   const [creating, setCreating] = useState(false);
   const [newTitle, setNewTitle] = useState("");
+  const [invitations, setInvitations] = useState<PendingInvitation[]>([]);
+  const [importing, setImporting] = useState(false);
+  const [trelloOpen, setTrelloOpen] = useState(false);
+  const [templates, setTemplates] = useState<BoardTemplate[]>([]);
+  const [templateId, setTemplateId] = useState(DEFAULT_TEMPLATE_ID);
+  const [templateSource, setTemplateSource] = useState<Project | null>(null);
+  const [templateToDelete, setTemplateToDelete] = useState<BoardTemplate | null>(null);
+  const [duplicateSource, setDuplicateSource] = useState<Project | null>(null);
+  const importInput = useRef<HTMLInputElement | null>(null);
   const navigate = useNavigate();
 
   const load = async () => {
     try {
-      const res = await fetch(`${API_BASE}/projects`);
+      const res = await fetch(`${API_BASE}/projects`, {
+        headers: { Authorization: `Bearer ${localStorage.getItem("token") ?? ""}` }
+      });
+      if (!res.ok) throw new Error(`Failed to load projects (${res.status})`);
       const data = (await res.json()) as Project[];
       setProjects(data);
     } catch (e) {
@@ -27,48 +68,252 @@ const Boards = () => {
     }
   };
 
+  const loadInvitations = async () => {
+    try {
+      const res = await fetch(`${API_BASE}/invitations`, {
+        headers: { Authorization: `Bearer ${localStorage.getItem("token") ?? ""}` }
+      });
+      if (!res.ok) throw new Error(`Failed to load invitations (${res.status})`);
+      setInvitations((await res.json()) as PendingInvitation[]);
+    } catch (e) {
+      console.error("Failed to load invitations", e);
+    }
+  };
+
+  const loadTemplates = async () => {
+    try {
+      const res = await fetch(`${API_BASE}/templates`, {
+        headers: { Authorization: `Bearer ${localStorage.getItem("token") ?? ""}` }
+      });
+      if (!res.ok) throw new Error(`Failed to load templates (${res.status})`);
+      setTemplates((await res.json()) as BoardTemplate[]);
+    } catch (e) {
+      console.error("Failed to load templates", e);
+    }
+  };
+
   useEffect(() => {
     load();
+    loadInvitations();
+    loadTemplates();
   }, []);
 
+  const respond = async (invitation: PendingInvitation, action: "accept" | "decline") => {
+    try {
+      const res = await fetch(`${API_BASE}/invitations/${invitation.id}/${action}`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${localStorage.getItem("token") ?? ""}` }
+      });
+      if (!res.ok) throw new Error(`Failed to ${action} invitation`);
+      setInvitations((prev) => prev.filter((i) => i.id !== invitation.id));
+      if (action === "accept") load();
+    } catch (e) {
+      console.error(e);
+    }
+  };
+
   const createBoard = async () => {
     if (!newTitle.trim()) return;
     setCreating(true);
     try {
       const res = await fetch(`${API_BASE}/projects`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ title: newTitle.trim() })
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${localStorage.getItem("token") ?? ""}`
+        },
+        body: JSON.stringify({ title: newTitle.trim(), templateId })
       });
-      if (!res.ok) throw new Error("Failed to create project");
-      const proj = (await res.json()) as Project;
-      navigate(`/project/${proj.id}`);
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(describeApiError(data, "Failed to create project"));
+      navigate(`/project/${(data as Project).id}`);
     } catch (e) {
       console.error(e);
+      toast({ title: "Could not create board", description: e instanceof Error ? e.message : undefined, variant: "destructive" });
     } finally {
       setCreating(false);
     }
   };
 
+  const deleteTemplate = async (template: BoardTemplate) => {
+    try {
+      const res = await fetch(`${API_BASE}/templates/${template.id}`, {
+        method: "DELETE",
+        headers: { Authorization: `Bearer ${localStorage.getItem("token") ?? ""}` }
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(describeApiError(data, "Failed to delete template"));
+      setTemplates((prev) => prev.filter((t) => t.id !== template.id));
+      if (templateId === template.id) setTemplateId(DEFAULT_TEMPLATE_ID);
+    } catch (e) {
+      console.error(e);
+      toast({ title: "Could not delete template", description: e instanceof Error ? e.message : undefined, variant: "destructive" });
+    }
+  };
+
+  const exportBoard = async (project: Project) => {
+    try {
+      const res = await fetch(`${API_BASE}/projects/${project.id}/export`, {
+        headers: { Authorization: `Bearer ${localStorage.getItem("token") ?? ""}` }
+      });
+      if (!res.ok) throw new Error("Failed to export board");
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = res.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ?? `${project.title}.board.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      console.error(e);
+      toast({ title: "Export failed", description: e instanceof Error ? e.message : undefined, variant: "destructive" });
+    }
+  };
+
+  const importBoard = async (file: File | undefined) => {
+    if (!file) return;
+    setImporting(true);
+    try {
+      let doc: unknown;
+      try {
+        doc = JSON.parse(await file.text());
+      } catch {
+        throw new Error("The file is not valid JSON");
+      }
+      const res = await fetch(`${API_BASE}/projects/import`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${localStorage.getItem("token") ?? ""}`
+        },
+        body: JSON.stringify(doc)
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(describeApiError(data, "Failed to import board"));
+
+      const report = data.report as ImportReport;
+      const warnings = [
+        report.unknownEmails.length ? `${report.unknownEmails.length} unknown people` : "",
+        report.skippedAssignees.length ? `${report.skippedAssignees.length} assignees who are not members` : "",
+      ].filter(Boolean);
+      toast({
+        title: `Imported "${data.title}"`,
+        description: `${report.sections} sections, ${report.cards} cards, ${report.comments} comments${report.invited.length ? `; invited ${report.invited.length} people` : ""}${warnings.length ? `; skipped ${warnings.join(" and ")}` : ""}`,
+      });
+      load();
+    } catch (e) {
+      console.error(e);
+      toast({ title: "Import failed", description: e instanceof Error ? e.message : undefined, variant: "destructive" });
+    } finally {
+      setImporting(false);
+      if (importInput.current) importInput.current.value = "";
+    }
+  };
+
+  const builtInTemplates = templates.filter((t) => t.builtIn);
+  const ownTemplates = templates.filter((t) => !t.builtIn);
+  const selectedTemplate = templates.find((t) => t.id === templateId);
+  const starterCards = selectedTemplate?.sections.reduce((sum, s) => sum + s.cards, 0) ?? 0;
+
   return (
     <div className="min-h-screen bg-gradient-board p-6">
       <div className="max-w-3xl mx-auto space-y-6">
-        <div className="flex items-center justify-between">
-          <h1 className="text-3xl font-bold">Boards</h1>
-        </div>
-
-        <Card className="p-4 flex items-center gap-3">
-          <Input
-            placeholder="New board title..."
-            value={newTitle}
-            onChange={(e) => setNewTitle(e.target.value)}
-            onKeyDown={(e) => e.key === "Enter" && createBoard()}
+        <div className="flex items-center gap-2">
+          <h1 className="text-3xl font-bold flex-1">Boards</h1>
+          <input
+            ref={importInput}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => importBoard(e.target.files?.[0])}
           />
-          <Button onClick={createBoard} disabled={creating || !newTitle.trim()} className="bg-gradient-primary hover:opacity-90">
-            Create
+          <Button variant="outline" className="gap-2" disabled={importing} onClick={() => importInput.current?.click()}>
+            <Upload className="h-4 w-4" />
+            {importing ? "Importing..." : "Import board"}
           </Button>
+          <Button variant="outline" onClick={() => setTrelloOpen(true)}>
+            Import from Trello
+          </Button>
+        </div>
+
+        <Card className="p-4 space-y-2">
+          <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+            <Input
+              placeholder="New board title..."
+              value={newTitle}
+              onChange={(e) => setNewTitle(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && createBoard()}
+            />
+            <Select value={templateId} onValueChange={setTemplateId}>
+              <SelectTrigger className="sm:w-52" aria-label="Template">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectGroup>
+                  <SelectLabel>Templates</SelectLabel>
+                  {builtInTemplates.map((t) => (
+                    <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+                  ))}
+                </SelectGroup>
+                {ownTemplates.length > 0 && (
+                  <SelectGroup>
+                    <SelectLabel>Your templates</SelectLabel>
+                    {ownTemplates.map((t) => (
+                      <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+                    ))}
+                  </SelectGroup>
+                )}
+              </SelectContent>
+            </Select>
+            <Button onClick={createBoard} disabled={creating || !newTitle.trim()} className="bg-gradient-primary hover:opacity-90">
+              Create
+            </Button>
+          </div>
+          {selectedTemplate && (
+            <div className="flex items-start gap-2 text-sm text-muted-foreground">
+              <div className="flex-1 min-w-0">
+                {selectedTemplate.description && <div>{selectedTemplate.description}</div>}
+                <div className="truncate">
+                  {selectedTemplate.sections
+                    .map((s) => `${s.title}${s.wipLimit ? ` (WIP ${s.wipLimit})` : ""}`)
+                    .join(" → ")}
+                  {starterCards > 0 && ` · ${starterCards} starter card${starterCards === 1 ? "" : "s"}`}
+                </div>
+              </div>
+              {!selectedTemplate.builtIn && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 gap-1 text-muted-foreground"
+                  onClick={() => setTemplateToDelete(selectedTemplate)}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                  Delete template
+                </Button>
+              )}
+            </div>
+          )}
         </Card>
 
+        {invitations.length > 0 && (
+          <Card className="p-4 space-y-3">
+            <h2 className="font-semibold">Invitations</h2>
+            {invitations.map((inv) => (
+              <div key={inv.id} className="flex items-center gap-3 text-sm">
+                <div className="flex-1 min-w-0">
+                  <span className="font-medium">{inv.invitedBy.name}</span> invited you to{" "}
+                  <span className="font-medium">{inv.project.title}</span> as <span className="capitalize">{inv.role}</span>
+                </div>
+                <Button size="sm" onClick={() => respond(inv, "accept")} className="bg-gradient-primary hover:opacity-90">
+                  Accept
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => respond(inv, "decline")}>
+                  Decline
+                </Button>
+              </div>
+            ))}
+          </Card>
+        )}
+
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           {loading ? (
             <Card className="p-6">Loading...</Card>
@@ -78,14 +323,97 @@ const Boards = () => {
             projects.map((p) => (
               <Link key={p.id} to={`/project/${p.id}`}>
                 <Card className="p-6 hover:shadow-card-hover transition-shadow">
-                  <div className="font-semibold text-lg">{p.title}</div>
-                  <div className="text-muted-foreground text-sm mt-1">ID: {p.id}</div>
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="font-semibold text-lg">{p.title}</div>
+                    {p.role && <Badge variant="outline" className="capitalize">{p.role}</Badge>}
+                  </div>
+                  <div className="flex items-center justify-between gap-2 mt-1">
+                    <div className="text-muted-foreground text-sm flex-1">ID: {p.id}</div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 gap-1 text-muted-foreground"
+                      title="Save the board's layout as a template"
+                      onClick={(e) => {
+                        e.preventDefault();
+                        e.stopPropagation();
+                        setTemplateSource(p);
+                      }}
+                    >
+                      <LayoutTemplate className="h-3.5 w-3.5" />
+                      Template
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 gap-1 text-muted-foreground"
+                      title="Copy the board with its sections and cards"
+                      onClick={(e) => {
+                        e.preventDefault();
+                        e.stopPropagation();
+                        setDuplicateSource(p);
+                      }}
+                    >
+                      <Copy className="h-3.5 w-3.5" />
+                      Duplicate
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 gap-1 text-muted-foreground"
+                      title="Download the board as JSON"
+                      onClick={(e) => {
+                        e.preventDefault();
+                        e.stopPropagation();
+                        exportBoard(p);
+                      }}
+                    >
+                      <Download className="h-3.5 w-3.5" />
+                      Export
+                    </Button>
+                  </div>
                 </Card>
               </Link>
             ))
           )}
         </div>
       </div>
+
+      <TrelloImportDialog
+        isOpen={trelloOpen}
+        onClose={() => setTrelloOpen(false)}
+        onImported={(project) => navigate(`/project/${project.id}`)}
+      />
+
+      <SaveTemplateDialog
+        project={templateSource}
+        onClose={() => setTemplateSource(null)}
+        onSaved={(template) => setTemplates((prev) => [...prev.filter((t) => t.builtIn), template, ...prev.filter((t) => !t.builtIn)])}
+      />
+
+      <DuplicateBoardDialog
+        project={duplicateSource}
+        onClose={() => setDuplicateSource(null)}
+        onDuplicated={(project) => navigate(`/project/${project.id}`)}
+      />
+
+      <AlertDialog open={!!templateToDelete} onOpenChange={(open) => !open && setTemplateToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete template "{templateToDelete?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>Boards already created from it are not affected.</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => templateToDelete && deleteTemplate(templateToDelete)}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { format } from "date-fns";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { FilterPanel } from "@/components/board/FilterPanel";
+import { CardCalendar } from "@/components/board/CardCalendar";
+import { CardModal } from "@/components/board/CardModal";
+import { BoardView, ViewToggle } from "@/components/board/ViewToggle";
+import { undoAction } from "@/components/board/UndoAction";
+import { useBoardData } from "@/hooks/useBoardData";
+import { matchesFilters, useFilters } from "@/hooks/useFilters";
+import { CalendarMode, periodTitle, reschedule, shiftPeriod } from "@/lib/calendar";
+import { Card } from "@/types/board";
+import { toast } from "@/hooks/use-toast";
+
+const Calendar = () => {
+  const { projectId = "default" } = useParams<{ projectId: string }>();
+  const navigate = useNavigate();
+  const { board, updateCard, deleteCard, undo, loaded } = useBoardData({ live: true });
+  const {
+    filters,
+    updateFilter,
+    togglePriority,
+    toggleExecutor,
+    toggleLabel,
+    clearFilters,
+    hasActiveFilters
+  } = useFilters();
+
+  const [mode, setMode] = useState<CalendarMode>("month");
+  const [cursor, setCursor] = useState(() => new Date());
+  const [selectedCard, setSelectedCard] = useState<Card | null>(null);
+
+  const allCards = board.sections.flatMap((s) => s.cards);
+  const now = new Date();
+  const cards = allCards.filter((card) => matchesFilters(card, filters, now));
+  const availableExecutors = Array.from(new Set(allCards.map((c) => c.executor).filter((e) => e && e.trim() !== "")));
+  const canEdit = board.role !== "viewer";
+
+  const handleViewChange = (view: BoardView) => {
+    if (view === "board") navigate(`/project/${projectId}`);
+    if (view === "table") navigate(`/project/${projectId}?view=table`);
+  };
+
+  const handleReschedule = async (card: Card, day: Date | null) => {
+    try {
+      await updateCard(reschedule(card, day));
+      toast({
+        title: day ? "Card rescheduled" : "Due date cleared",
+        description: day ? `"${card.title}" is now due ${format(day, "EEE, MMM d")}` : `"${card.title}" is unscheduled`,
+      });
+    } catch (e) {
+      console.error(e);
+      toast({ title: "Reschedule failed", description: e instanceof Error ? e.message : "Please try again.", variant: "destructive" });
+    }
+  };
+
+  const handleCardSave = async (card: Card) => {
+    try {
+      await updateCard(card);
+      toast({ title: "Card updated", description: "Your changes have been saved" });
+    } catch (e) {
+      console.error(e);
+      toast({ title: "Save failed", description: e instanceof Error ? e.message : "Please try again.", variant: "destructive" });
+    }
+  };
+
+  const handleCardDelete = async (cardId: string) => {
+    try {
+      const undoId = await deleteCard(cardId);
+      toast({
+        title: "Card archived",
+        description: "Restore it from the board's archive",
+        action: undoAction(undoId, undo),
+      });
+    } catch (e) {
+      console.error(e);
+      toast({ title: "Delete failed", description: "Please try again.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-board p-6">
+      <div className="max-w-full mx-auto">
+        {/* Breadcrumb */}
+        <div className="text-sm text-muted-foreground mb-3">
+          <a href="/boards" className="hover:underline">Boards</a>
+          <span className="mx-2">/</span>
+          <a href={`/project/${projectId}`} className="hover:underline">{projectId}</a>
+          <span className="mx-2">/</span>
+          <span className="text-foreground">Calendar</span>
+        </div>
+
+        <div className="mb-6 flex flex-col md:flex-row md:items-center md:justify-between gap-3 md:gap-4">
+          <div className="min-w-0">
+            <h1 className="text-2xl sm:text-3xl md:text-4xl font-bold bg-gradient-primary bg-clip-text text-transparent truncate">
+              {loaded ? (board.title?.trim() || projectId) : ""}
+            </h1>
+            <p className="text-muted-foreground mt-1 md:mt-2">{periodTitle(cursor, mode)}</p>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 sm:gap-3">
+            <FilterPanel
+              filters={filters}
+              onUpdateFilter={updateFilter}
+              onTogglePriority={togglePriority}
+              onToggleExecutor={toggleExecutor}
+              onToggleLabel={toggleLabel}
+              onClearFilters={clearFilters}
+              hasActiveFilters={hasActiveFilters()}
+              availableExecutors={availableExecutors}
+              availableLabels={board.labels ?? []}
+            />
+            <ToggleGroup type="single" variant="outline" value={mode} onValueChange={(v) => v && setMode(v as CalendarMode)}>
+              <ToggleGroupItem value="month" className="px-3">Month</ToggleGroupItem>
+              <ToggleGroupItem value="week" className="px-3">Week</ToggleGroupItem>
+            </ToggleGroup>
+            <div className="flex items-center gap-1">
+              <Button variant="outline" size="icon" title="Previous" onClick={() => setCursor((c) => shiftPeriod(c, mode, -1))}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" onClick={() => setCursor(new Date())}>Today</Button>
+              <Button variant="outline" size="icon" title="Next" onClick={() => setCursor((c) => shiftPeriod(c, mode, 1))}>
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+            <ViewToggle view="calendar" onViewChange={handleViewChange} />
+          </div>
+        </div>
+
+        <CardCalendar
+          cards={cards}
+          cursor={cursor}
+          mode={mode}
+          onReschedule={handleReschedule}
+          onCardClick={setSelectedCard}
+          canEdit={canEdit}
+        />
+
+        <CardModal
+          card={selectedCard}
+          isOpen={!!selectedCard}
+          onClose={() => setSelectedCard(null)}
+          onSave={handleCardSave}
+          onDelete={handleCardDelete}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default Calendar;
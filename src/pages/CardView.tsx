@@ -3,11 +3,18 @@ import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { ArrowLeft, Calendar, User, MessageCircle, Edit3, Trash2, Users, Check } from "lucide-react";
+import { ArrowLeft, Calendar, User, MessageCircle, Edit3, Trash2, Users, Check, History, CalendarClock, ListChecks, Paperclip } from "lucide-react";
 import { useBoardData } from "@/hooks/useBoardData";
 import { Card as CardType, UserLite } from "@/types/board";
 import { useEffect, useMemo, useRef, useState } from "react";
 import { CardModal } from "@/components/board/CardModal";
+import { ActivityFeed } from "@/components/board/ActivityFeed";
+import { TransitionTimeline } from "@/components/board/TransitionTimeline";
+import { getDueStatus } from "@/hooks/useFilters";
+import { LabelChip } from "@/components/board/LabelChip";
+import { ChecklistPanel } from "@/components/board/ChecklistPanel";
+import { AttachmentsPanel } from "@/components/board/AttachmentsPanel";
+import { undoAction } from "@/components/board/UndoAction";
 import { toast } from "@/hooks/use-toast";
 
 const priorityConfig = {
@@ -31,7 +38,29 @@ const priorityConfig = {
 const CardView = () => {
   const { cardId, projectId: projectIdFromParams } = useParams<{ cardId: string; projectId?: string }>();
   const navigate = useNavigate();
-  const { board, updateCard, deleteCard, listUsers, assignUser, unassignUser } = useBoardData();
+  const {
+    board,
+    updateCard,
+    deleteCard,
+    undo,
+    listMembers,
+    assignUser,
+    unassignUser,
+    listActivity,
+    listCardTransitions,
+    listChecklists,
+    createChecklist,
+    renameChecklist,
+    deleteChecklist,
+    addChecklistItem,
+    updateChecklistItem,
+    deleteChecklistItem,
+    moveChecklistItem,
+    listAttachments,
+    uploadAttachment,
+    deleteAttachment,
+    downloadAttachment,
+  } = useBoardData({ live: true });
   const [editModalOpen, setEditModalOpen] = useState(false);
   const [comments, setComments] = useState<{ id: string; text: string; createdAt: Date; author?: { id: string; name: string; email: string } }[]>([]);
   const [newComment, setNewComment] = useState("");
@@ -79,8 +108,10 @@ const CardView = () => {
         const base = import.meta.env.VITE_API_BASE ?? "http://localhost:4001/api";
         const projectId = window.location.pathname.match(/^\/project\/([^\/]+)/)?.[1] || "default";
         const [commentsRes, usersRes] = await Promise.allSettled([
-          fetch(`${base}/projects/${projectId}/cards/${cardId}/comments`),
-          listUsers().then((u) => ({ ok: true, json: () => u } as any)),
+          fetch(`${base}/projects/${projectId}/cards/${cardId}/comments`, {
+            headers: { Authorization: `Bearer ${localStorage.getItem("token") ?? ""}` },
+          }),
+          listMembers().then((u) => ({ ok: true, json: () => u } as any)),
         ]);
         if (commentsRes.status === "fulfilled" && (commentsRes.value as Response).ok) {
           const data = await (commentsRes.value as Response).json();
@@ -103,13 +134,39 @@ const CardView = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [cardId]);
 
+  // Comments changed through the live board (possibly by someone else): refetch the list with authors
+  const commentsKey = foundCard?.comments.map((c) => `${c.id}:${c.text}`).join("|");
+  const seenCommentsKey = useRef<string | undefined>(undefined);
+  useEffect(() => {
+    if (commentsKey === undefined || !cardId) return;
+    const first = seenCommentsKey.current === undefined;
+    seenCommentsKey.current = commentsKey;
+    // the initial load above already fetched them
+    if (first) return;
+    (async () => {
+      try {
+        const base = import.meta.env.VITE_API_BASE ?? "http://localhost:4001/api";
+        const projectId = window.location.pathname.match(/^\/project\/([^/]+)/)?.[1] || "default";
+        const res = await fetch(`${base}/projects/${projectId}/cards/${cardId}/comments`, {
+          headers: { Authorization: `Bearer ${localStorage.getItem("token") ?? ""}` },
+        });
+        if (!res.ok) return;
+        const data = (await res.json()) as { id: string; text: string; createdAt: string; author?: { id: string; name: string; email: string } }[];
+        setComments(data.map((c) => ({ ...c, createdAt: new Date(c.createdAt) })));
+      } catch (e) {
+        console.error(e);
+      }
+    })();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [commentsKey]);
+
   // When opening picker, ensure users are loaded once
   useEffect(() => {
     (async () => {
       if (!pickerOpen) return;
       if (allUsers.length > 0) return;
       try {
-        const u = await listUsers();
+        const u = await listMembers();
         setAllUsers(u);
       } catch (e) {
         console.error(e);
@@ -137,6 +194,8 @@ const CardView = () => {
     );
   }
 
+  const dueStatus = getDueStatus(foundCard);
+
   const handleCardSave = (card: CardType) => {
     updateCard(card);
     toast({
@@ -145,13 +204,20 @@ const CardView = () => {
     });
   };
 
-  const handleCardDelete = (cardId: string) => {
-    deleteCard(cardId);
-    navigate("/");
-    toast({
-      title: "Card deleted",
-      description: "Card has been removed from the board",
-    });
+  // Back to the board, where the toast's Undo brings the card back into view
+  const handleCardDelete = async (cardId: string) => {
+    try {
+      const undoId = await deleteCard(cardId);
+      navigate(`/project/${projectIdFromParams || "default"}`);
+      toast({
+        title: "Card archived",
+        description: "Restore it from the board's archive",
+        action: undoAction(undoId, undo),
+      });
+    } catch (e) {
+      console.error(e);
+      toast({ title: "Delete failed", description: "Please try again.", variant: "destructive" });
+    }
   };
 
   return (
@@ -208,8 +274,16 @@ const CardView = () => {
             </Badge>
           </div>
 
+          {!!foundCard.labels?.length && (
+            <div className="flex flex-wrap gap-2 mb-4">
+              {foundCard.labels.map((label) => (
+                <LabelChip key={label.id} label={label} />
+              ))}
+            </div>
+          )}
+
           {/* Section and Meta Info */}
-          <div className="flex items-center gap-6 mb-6 text-sm text-muted-foreground">
+          <div className="flex flex-wrap items-center gap-x-6 gap-y-2 mb-6 text-sm text-muted-foreground">
             <div className="flex items-center gap-2">
               <div className="w-3 h-3 rounded-full bg-primary"></div>
               <span>Section: <span className="font-medium">{sectionTitle}</span></span>
@@ -218,6 +292,27 @@ const CardView = () => {
               <Calendar className="h-4 w-4" />
               <span>Created: {foundCard.createdAt.toLocaleDateString()}</span>
             </div>
+            {foundCard.startDate && (
+              <div className="flex items-center gap-2">
+                <CalendarClock className="h-4 w-4" />
+                <span>Start: {foundCard.startDate.toLocaleDateString()}</span>
+              </div>
+            )}
+            {foundCard.dueDate && (
+              <div className={`flex items-center gap-2 ${dueStatus === "overdue" ? "text-destructive font-medium" : dueStatus === "due-soon" ? "text-amber-700 font-medium" : ""}`}>
+                <CalendarClock className="h-4 w-4" />
+                <span>
+                  Due: {foundCard.dueDate.toLocaleDateString()}
+                  {dueStatus === "overdue" && " (overdue)"}
+                  {dueStatus === "due-soon" && " (due soon)"}
+                </span>
+              </div>
+            )}
+          </div>
+
+          {/* Section history */}
+          <div className="mb-6">
+            <TransitionTimeline load={() => listCardTransitions(foundCard.id)} refreshKey={foundCard} />
           </div>
 
           <Separator className="mb-6" />
@@ -242,6 +337,44 @@ const CardView = () => {
             </div>
           )}
 
+          {/* Checklists */}
+          <div className="mb-6">
+            <h3 className="font-semibold mb-3 text-lg flex items-center gap-2">
+              <ListChecks className="h-5 w-5" />
+              Checklists
+            </h3>
+            <ChecklistPanel
+              cardId={foundCard.id}
+              canEdit={board.role !== "viewer"}
+              refreshKey={foundCard.checklist}
+              actions={{
+                listChecklists,
+                createChecklist,
+                renameChecklist,
+                deleteChecklist,
+                addChecklistItem,
+                updateChecklistItem,
+                deleteChecklistItem,
+                moveChecklistItem,
+              }}
+            />
+          </div>
+
+          {/* Attachments */}
+          <div className="mb-6">
+            <h3 className="font-semibold mb-3 text-lg flex items-center gap-2">
+              <Paperclip className="h-5 w-5" />
+              Attachments
+            </h3>
+            <AttachmentsPanel
+              cardId={foundCard.id}
+              canEdit={board.role !== "viewer"}
+              isOwner={board.role === "owner"}
+              refreshKey={foundCard.attachmentCount}
+              actions={{ listAttachments, uploadAttachment, deleteAttachment, downloadAttachment }}
+            />
+          </div>
+
           {/* Assignees */}
           <div className="mb-6">
             <h3 className="font-semibold mb-3 text-lg flex items-center gap-2">
@@ -306,7 +439,7 @@ const CardView = () => {
                   <div className="p-2 border-b">
                     <input
                       className="w-full h-9 px-2 text-sm rounded-md border bg-background"
-                      placeholder="Search user..."
+                      placeholder="Search member..."
                       value={pickerQuery}
                       onChange={(e) => setPickerQuery(e.target.value)}
                       onClick={(e) => { e.preventDefault(); e.stopPropagation(); }}
@@ -355,7 +488,7 @@ const CardView = () => {
                         );
                       })}
                     {allUsers.length === 0 && (
-                      <div className="px-2 py-3 text-xs text-muted-foreground">No users</div>
+                      <div className="px-2 py-3 text-xs text-muted-foreground">No members</div>
                     )}
                   </div>
                 </div>
@@ -509,7 +642,10 @@ const CardView = () => {
                       const projectId = window.location.pathname.match(/^\/project\/([^\/]+)/)?.[1] || "default";
                       const res = await fetch(`${import.meta.env.VITE_API_BASE ?? "http://localhost:4001/api"}/projects/${projectId}/cards/${cardId}/comments`, {
                         method: "POST",
-                        headers: { "Content-Type": "application/json" },
+                        headers: {
+                          "Content-Type": "application/json",
+                          Authorization: `Bearer ${localStorage.getItem("token") ?? ""}`,
+                        },
                         body: JSON.stringify({ text: newComment.trim() }),
                       });
                       if (res.ok) {
@@ -559,6 +695,21 @@ const CardView = () => {
               </Button>
             </div>
           </div>
+
+          <Separator className="my-6" />
+
+          {/* Activity */}
+          <div>
+            <h3 className="font-semibold mb-4 text-lg flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Activity
+            </h3>
+            <ActivityFeed
+              load={(cursor) => listActivity({ cardId: foundCard!.id, cursor })}
+              refreshKey={foundCard}
+              emptyText="No activity recorded for this card yet"
+            />
+          </div>
         </Card>
 
         <CardModal
@@ -19,7 +19,9 @@ export default function Customers() {
   useEffect(() => {
     const load = async () => {
       try {
-        const res = await fetch(`${API_BASE}/users`);
+        const res = await fetch(`${API_BASE}/users`, {
+          headers: { Authorization: `Bearer ${localStorage.getItem("token") ?? ""}` },
+        });
         const data = (await res.json()) as User[];
         setUsers(data);
       } catch (e) {
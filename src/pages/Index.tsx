@@ -1,15 +1,27 @@
-import { useState } from "react";
-import { DndContext, DragEndEvent, closestCorners } from "@dnd-kit/core";
+import { useEffect, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { DndContext, DragEndEvent, CollisionDetection, closestCenter, closestCorners } from "@dnd-kit/core";
+import { SortableContext, horizontalListSortingStrategy } from "@dnd-kit/sortable";
 import { BoardHeader } from "@/components/board/BoardHeader";
+import { BoardView } from "@/components/board/ViewToggle";
 import { BoardSection } from "@/components/board/BoardSection";
 import { CardModal } from "@/components/board/CardModal";
+import { MembersPanel } from "@/components/board/MembersPanel";
+import { ActivityPanel } from "@/components/board/ActivityPanel";
+import { ArchivePanel } from "@/components/board/ArchivePanel";
+import { undoAction } from "@/components/board/UndoAction";
+import { DeleteSectionDialog } from "@/components/board/DeleteSectionDialog";
+import { SwimlaneBoard, SwimlaneDrop } from "@/components/board/SwimlaneBoard";
+import { CardTable } from "@/components/board/CardTable";
+import { SwimlaneGrouping, buildLanes, describeLaneChange, laneKeyOf, moveToLane } from "@/lib/swimlanes";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { useBoardData } from "@/hooks/useBoardData";
-import { useFilters } from "@/hooks/useFilters";
-import { Card, Priority } from "@/types/board";
+import { matchesFilters, useFilters } from "@/hooks/useFilters";
+import { Card, Priority, Section, SectionCardsChoice, UserLite } from "@/types/board";
 import { toast } from "@/hooks/use-toast";
+import { saveBlob } from "@/lib/utils";
 
 const Index = () => {
   const {
@@ -18,18 +30,36 @@ const Index = () => {
     deleteSection,
     clearSection,
     deleteAllSections,
+    updateSection,
+    moveSection,
+    undo,
     addCard,
     updateCard,
     deleteCard,
     moveCard,
+    listMembers,
+    updateMemberRole,
+    removeMember,
+    listInvitations,
+    inviteMember,
+    cancelInvitation,
+    listActivity,
+    searchCards,
+    exportCardsCsv,
+    listArchive,
+    restoreArchivedCard,
+    restoreArchivedSection,
+    purgeArchivedCard,
+    purgeArchivedSection,
     loaded,
-  } = useBoardData();
+  } = useBoardData({ live: true });
 
   const {
     filters,
     updateFilter,
     togglePriority,
     toggleExecutor,
+    toggleLabel,
     clearFilters,
     hasActiveFilters
   } = useFilters();
@@ -39,32 +69,153 @@ const Index = () => {
   const [newCardSectionId, setNewCardSectionId] = useState<string>("");
   const [addSectionModalOpen, setAddSectionModalOpen] = useState(false);
   const [newSectionTitle, setNewSectionTitle] = useState("");
+  const [membersOpen, setMembersOpen] = useState(false);
+  const [activityOpen, setActivityOpen] = useState(false);
+  const [archiveOpen, setArchiveOpen] = useState(false);
+  const [sectionToDelete, setSectionToDelete] = useState<Section | null>(null);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [groupBy, setGroupBy] = useState<SwimlaneGrouping>("none");
+  // The table view lives in the URL (?view=table) so it survives reloads and can be shared
+  const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const view: BoardView = searchParams.get("view") === "table" ? "table" : "board";
+  // Board members, for the assignee lanes
+  const [members, setMembers] = useState<UserLite[]>([]);
+  // Ids of the cards matching the search, null while the search box is empty
+  const [searchHits, setSearchHits] = useState<Set<string> | null>(null);
 
-  const handleDragEnd = (event: DragEndEvent) => {
+  // Debounced; board changes re-run the search so new and edited cards are picked up
+  useEffect(() => {
+    const q = searchQuery.trim();
+    if (!q) {
+      setSearchHits(null);
+      return;
+    }
+    let active = true;
+    const timer = setTimeout(() => {
+      searchCards(q)
+        .then((results) => active && setSearchHits(new Set(results.map((r) => r.cardId))))
+        .catch((e) => console.error(e));
+    }, 250);
+    return () => {
+      active = false;
+      clearTimeout(timer);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [searchQuery, board]);
+
+  useEffect(() => {
+    if (groupBy !== "assignee") return;
+    listMembers().then(setMembers).catch((e) => console.error(e));
+  }, [groupBy, listMembers]);
+
+  const searchTerms = searchQuery.trim() ? searchQuery.trim().toLowerCase().split(/\s+/) : undefined;
+
+  // Columns only collide with other columns; cards use every droppable (columns and cards)
+  const collisionDetection: CollisionDetection = (args) => {
+    if (args.active.data.current?.type === "section") {
+      return closestCenter({
+        ...args,
+        droppableContainers: args.droppableContainers.filter((c) => c.data.current?.type === "section"),
+      });
+    }
+    return closestCorners(args);
+  };
+
+  const handleSectionDragEnd = async (sectionId: string, overId: string) => {
+    const from = board.sections.findIndex((s) => s.id === sectionId);
+    const to = board.sections.findIndex((s) => s.id === overId);
+    if (from === -1 || to === -1 || from === to) return;
+    try {
+      await moveSection(sectionId, to);
+    } catch (e) {
+      console.error(e);
+      toast({ title: "Move failed", description: "Please try again.", variant: "destructive" });
+    }
+  };
+
+  const handleDragEnd = async (event: DragEndEvent) => {
     const { active, over } = event;
     if (!over) return;
 
+    if (active.data.current?.type === "section") {
+      return handleSectionDragEnd(String(active.id), String(over.id));
+    }
+
     const cardId = String(active.id);
     const dropId = String(over.id);
 
     // Find the section that currently contains the card
     const currentSection = board.sections.find((s) => s.cards.some((c) => c.id === cardId));
-    const currentSectionId = currentSection?.id;
+    if (!currentSection) return;
+
+    // A drop lands either on a section (append) or on a card (take that card's slot).
+    // Indexes come from the unfiltered board so they match the persisted order.
+    let targetSection = board.sections.find((s) => s.id === dropId);
+    let index: number;
+    if (targetSection) {
+      index = targetSection.cards.filter((c) => c.id !== cardId).length;
+    } else {
+      targetSection = board.sections.find((s) => s.cards.some((c) => c.id === dropId));
+      if (!targetSection) return;
+      index = targetSection.cards.findIndex((c) => c.id === dropId);
+    }
 
-    // Only allow moves when dropping onto a section, not onto a card
-    const targetSection = board.sections.find((s) => s.id === dropId);
-    const targetSectionId = targetSection?.id;
+    const currentIndex = currentSection.cards.findIndex((c) => c.id === cardId);
+    const sameSection = targetSection.id === currentSection.id;
+    if (sameSection && index === currentIndex) return;
 
-    // If not dropped on a valid section or no change, do nothing
-    if (!targetSectionId || targetSectionId === currentSectionId) {
+    let undoId: string | undefined;
+    try {
+      undoId = await moveCard(cardId, targetSection.id, index);
+    } catch (e) {
+      console.error(e);
+      // A strict WIP limit explains itself in the message
+      toast({ title: "Move failed", description: e instanceof Error ? e.message : "Please try again.", variant: "destructive" });
       return;
     }
+    if (!sameSection) {
+      toast({
+        title: "Card moved",
+        description: `Card moved to "${targetSection.title}"`,
+        action: undoAction(undoId, undo),
+      });
+    }
+  };
 
-    moveCard(cardId, targetSectionId);
-    toast({
-      title: "Card moved",
-      description: `Card moved to "${targetSection.title}"`,
-    });
+  // Swimlane drops may change the section (a move) and the lane (a card field, saved through updateCard)
+  const handleLaneDrop = async ({ cardId, sectionId, lane, overCardId }: SwimlaneDrop) => {
+    const currentSection = board.sections.find((s) => s.cards.some((c) => c.id === cardId));
+    const targetSection = board.sections.find((s) => s.id === sectionId);
+    const card = currentSection?.cards.find((c) => c.id === cardId);
+    if (!currentSection || !targetSection || !card) return;
+
+    const others = targetSection.cards.filter((c) => c.id !== cardId);
+    const overIndex = overCardId ? targetSection.cards.findIndex((c) => c.id === overCardId) : -1;
+    const index = overIndex === -1 ? others.length : overIndex;
+    const sameSection = targetSection.id === currentSection.id;
+    const moves = !sameSection || index !== currentSection.cards.findIndex((c) => c.id === cardId);
+    const fromLane = laneKeyOf(card, groupBy);
+
+    try {
+      let undoId: string | undefined;
+      if (moves) undoId = await moveCard(cardId, targetSection.id, index);
+      if (lane !== fromLane) {
+        const next = moveToLane({ ...card, sectionId: targetSection.id }, groupBy, fromLane, lane);
+        await updateCard(next.card, { assigneeIds: next.assigneeIds });
+        const change = describeLaneChange(groupBy, lanes.find((l) => l.key === lane));
+        toast({ title: "Card updated", description: sameSection ? change : `${change}, moved to "${targetSection.title}"` });
+      } else if (!sameSection) {
+        toast({
+          title: "Card moved",
+          description: `Card moved to "${targetSection.title}"`,
+          action: undoAction(undoId, undo),
+        });
+      }
+    } catch (e) {
+      console.error(e);
+      toast({ title: "Move failed", description: e instanceof Error ? e.message : "Please try again.", variant: "destructive" });
+    }
   };
 
   const handleAddCard = (sectionId: string) => {
@@ -78,28 +229,146 @@ const Index = () => {
     setCardModalOpen(true);
   };
 
-  const handleCardSave = (card: Card) => {
-    if (selectedCard) {
-      updateCard(card);
+  const handleCardSave = async (card: Card) => {
+    try {
+      if (selectedCard) {
+        await updateCard(card);
+        toast({
+          title: "Card updated",
+          description: "Your changes have been saved",
+        });
+      } else {
+        await addCard(newCardSectionId, card);
+        toast({
+          title: "Card created",
+          description: "New card has been added to the board",
+        });
+      }
+    } catch (e) {
+      console.error(e);
+      toast({ title: "Save failed", description: e instanceof Error ? e.message : "Please try again.", variant: "destructive" });
+    }
+  };
+
+  const handleUpdateWipLimit = async (sectionId: string, updates: Pick<Section, "wipLimit" | "wipStrict">) => {
+    try {
+      await updateSection(sectionId, updates);
       toast({
-        title: "Card updated",
-        description: "Your changes have been saved",
+        title: updates.wipLimit === null ? "WIP limit removed" : "WIP limit saved",
+        description: updates.wipLimit === null
+          ? undefined
+          : `At most ${updates.wipLimit} cards${updates.wipStrict ? ", enforced" : ", with a warning beyond that"}`,
       });
-    } else {
-      addCard(newCardSectionId, card);
+    } catch (e) {
+      console.error(e);
+      toast({ title: "Update failed", description: e instanceof Error ? e.message : "Please try again.", variant: "destructive" });
+    }
+  };
+
+  const handleCardDelete = async (cardId: string) => {
+    try {
+      const undoId = await deleteCard(cardId);
       toast({
-        title: "Card created",
-        description: "New card has been added to the board",
+        title: "Card archived",
+        description: "Restore it from the board's archive",
+        action: undoAction(undoId, undo),
       });
+    } catch (e) {
+      console.error(e);
+      toast({ title: "Delete failed", description: "Please try again.", variant: "destructive" });
+    }
+  };
+
+  const setView = (next: BoardView) => {
+    if (next === "calendar") {
+      navigate(`/project/${projectId}/calendar`);
+      return;
     }
+    setSearchParams((prev) => {
+      const params = new URLSearchParams(prev);
+      if (next === "table") params.set("view", "table");
+      else params.delete("view");
+      return params;
+    }, { replace: true });
   };
 
-  const handleCardDelete = (cardId: string) => {
-    deleteCard(cardId);
-    toast({
-      title: "Card deleted",
-      description: "Card has been removed from the board",
-    });
+  const findCard = (cardId: string) => board.sections.flatMap((s) => s.cards).find((c) => c.id === cardId);
+
+  const handleTablePriority = async (card: Card, priority: Priority) => {
+    try {
+      await updateCard({ ...card, priority });
+      toast({ title: "Card updated", description: `Priority set to ${priority}` });
+    } catch (e) {
+      console.error(e);
+      toast({ title: "Update failed", description: e instanceof Error ? e.message : "Please try again.", variant: "destructive" });
+    }
+  };
+
+  // Table moves append the card to the end of the target section
+  const handleTableSection = async (card: Card, sectionId: string) => {
+    const target = board.sections.find((s) => s.id === sectionId);
+    if (!target || card.sectionId === sectionId) return;
+    try {
+      const undoId = await moveCard(card.id, sectionId, target.cards.length);
+      toast({ title: "Card moved", description: `Card moved to "${target.title}"`, action: undoAction(undoId, undo) });
+    } catch (e) {
+      console.error(e);
+      toast({ title: "Move failed", description: e instanceof Error ? e.message : "Please try again.", variant: "destructive" });
+    }
+  };
+
+  // Bulk actions run card by card, so one refusal (a strict WIP limit, say) leaves the others applied
+  const runBulk = async (cardIds: string[], action: (card: Card) => Promise<unknown>) => {
+    let failed = 0;
+    let lastError: unknown;
+    for (const cardId of cardIds) {
+      const card = findCard(cardId);
+      if (!card) continue;
+      try {
+        await action(card);
+      } catch (e) {
+        console.error(e);
+        failed++;
+        lastError = e;
+      }
+    }
+    if (failed) {
+      toast({
+        title: `${failed} of ${cardIds.length} cards not updated`,
+        description: lastError instanceof Error ? lastError.message : "Please try again.",
+        variant: "destructive",
+      });
+    }
+    return cardIds.length - failed;
+  };
+
+  const cardsLabel = (n: number) => `${n} card${n === 1 ? "" : "s"}`;
+
+  const handleBulkPriority = async (cardIds: string[], priority: Priority) => {
+    const done = await runBulk(cardIds, (card) => card.priority !== priority && updateCard({ ...card, priority }));
+    if (done) toast({ title: "Cards updated", description: `Priority set to ${priority} on ${cardsLabel(done)}` });
+  };
+
+  const handleBulkMove = async (cardIds: string[], sectionId: string) => {
+    const target = board.sections.find((s) => s.id === sectionId);
+    if (!target) return;
+    let index = target.cards.length;
+    const done = await runBulk(cardIds, (card) => card.sectionId !== sectionId && moveCard(card.id, sectionId, index++));
+    if (done) toast({ title: "Cards moved", description: `${cardsLabel(done)} moved to "${target.title}"` });
+  };
+
+  const handleBulkArchive = async (cardIds: string[]) => {
+    const done = await runBulk(cardIds, (card) => deleteCard(card.id));
+    if (done) toast({ title: "Cards archived", description: `${cardsLabel(done)} archived. Restore them from the board's archive` });
+  };
+
+  const handleExportCsv = async () => {
+    try {
+      const { blob, filename } = await exportCardsCsv(filters);
+      saveBlob(blob, filename);
+    } catch (e) {
+      toast({ title: "Export failed", description: e instanceof Error ? e.message : undefined, variant: "destructive" });
+    }
   };
 
   const handleAddSection = () => {
@@ -118,60 +387,86 @@ const Index = () => {
     }
   };
 
+  // Opens the confirmation, which asks what happens to the section's cards
   const handleDeleteSection = (sectionId: string) => {
     const section = board.sections.find(s => s.id === sectionId);
-    if (section?.canDelete) {
-      deleteSection(sectionId);
+    if (section?.canDelete) setSectionToDelete(section);
+  };
+
+  const handleDeleteSectionConfirm = async (choice: SectionCardsChoice) => {
+    const section = sectionToDelete;
+    setSectionToDelete(null);
+    if (!section) return;
+    try {
+      const { count, undoId } = await deleteSection(section.id, choice);
+      const cards = `${count} card${count === 1 ? "" : "s"}`;
+      const target = choice.cards === "move" ? board.sections.find(s => s.id === choice.targetSectionId) : undefined;
       toast({
         title: "Section deleted",
-        description: `"${section.title}" section and its cards moved to Backlog`,
+        description: !count
+          ? `"${section.title}" moved to the archive`
+          : choice.cards === "move"
+            ? `${cards} moved to "${target?.title}", "${section.title}" moved to the archive`
+            : choice.cards === "archive"
+              ? `"${section.title}" and its ${cards} moved to the archive`
+              : `${cards} permanently deleted, "${section.title}" moved to the archive`,
+        action: undoAction(undoId, undo),
       });
+    } catch (e) {
+      console.error(e);
+      toast({ title: "Delete failed", description: e instanceof Error ? e.message : "Please try again.", variant: "destructive" });
     }
   };
 
-  const handleClearSection = (sectionId: string) => {
-    clearSection(sectionId);
+  const handleClearSection = async (sectionId: string) => {
     const section = board.sections.find(s => s.id === sectionId);
-    toast({
-      title: "Section cleared",
-      description: `All cards from "${section?.title}" moved to Backlog`,
-    });
+    try {
+      const undoId = await clearSection(sectionId);
+      toast({
+        title: "Section cleared",
+        description: `All cards from "${section?.title}" moved to the archive`,
+        action: undoAction(undoId, undo),
+      });
+    } catch (e) {
+      console.error(e);
+      toast({ title: "Clear failed", description: "Please try again.", variant: "destructive" });
+    }
   };
 
-  const handleDeleteAllSections = () => {
-    deleteAllSections();
-    toast({
-      title: "All sections deleted",
-      description: "All custom sections deleted, cards moved to Backlog",
-    });
+  const handleDeleteAllSections = async () => {
+    try {
+      const undoId = await deleteAllSections();
+      toast({
+        title: "All sections archived",
+        description: "Custom sections moved to the archive, their cards to Backlog",
+        action: undoAction(undoId, undo),
+      });
+    } catch (e) {
+      console.error(e);
+      toast({ title: "Delete failed", description: e instanceof Error ? e.message : "Please try again.", variant: "destructive" });
+    }
   };
 
   // Filter and sort cards
   const getFilteredAndSortedCards = (cards: Card[]) => {
-    let filtered = [...cards];
-
     // Apply filters
-    if (filters.priorities.length > 0 || filters.executors.length > 0) {
-      filtered = cards.filter(card => {
-        const priorityMatch = filters.priorities.length === 0 || filters.priorities.includes(card.priority);
-        const executorMatch = filters.executors.length === 0 || filters.executors.includes(card.executor);
-        
-        if (filters.multiFilter) {
-          // AND logic - both conditions must be true
-          return priorityMatch && executorMatch;
-        } else {
-          // OR logic - at least one condition must be true
-          return priorityMatch || executorMatch;
-        }
-      });
+    const now = new Date();
+    let filtered = cards.filter(card => matchesFilters(card, filters, now));
+    if (searchHits) {
+      filtered = filtered.filter(card => searchHits.has(card.id));
     }
 
     // Apply sorting
     const priorityOrder = { low: 1, normal: 2, high: 3 };
     
     switch (filters.sortBy) {
+      case 'manual':
+        return filtered;
       case 'date':
         return filtered.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+      case 'due-date':
+        // Cards without a due date go last
+        return filtered.sort((a, b) => (a.dueDate?.getTime() ?? Infinity) - (b.dueDate?.getTime() ?? Infinity));
       case 'priority-low-high':
         return filtered.sort((a, b) => priorityOrder[a.priority] - priorityOrder[b.priority]);
       case 'priority-high-low':
@@ -207,6 +502,12 @@ const Index = () => {
     }))
   };
 
+  const lanes = buildLanes(board.sections.flatMap(s => s.cards), groupBy, members);
+
+  // Role gates for the UI; the API enforces the same rules
+  const canEdit = board.role !== "viewer";
+  const canManage = board.role === "owner";
+
   // Resolve current project id for breadcrumb
   const projectId = window.location.pathname.match(/^\/project\/([^\/]+)/)?.[1] || "default";
   // Compute header title robustly:
@@ -234,30 +535,77 @@ const Index = () => {
           onUpdateFilter={updateFilter}
           onTogglePriority={togglePriority}
           onToggleExecutor={toggleExecutor}
+          onToggleLabel={toggleLabel}
           onClearFilters={clearFilters}
           hasActiveFilters={hasActiveFilters()}
           availableExecutors={availableExecutors}
+          availableLabels={board.labels ?? []}
           title={headerTitle}
           subtitle={loaded ? `Project: ${projectId}` : undefined}
+          canEdit={canEdit}
+          canManage={canManage}
+          onOpenMembers={() => setMembersOpen(true)}
+          onOpenActivity={() => setActivityOpen(true)}
+          onOpenArchive={() => setArchiveOpen(true)}
+          insightsHref={`/project/${projectId}/insights`}
+          searchQuery={searchQuery}
+          onSearchChange={setSearchQuery}
+          onExportCsv={handleExportCsv}
+          searchMatchCount={searchHits ? filteredBoard.sections.reduce((n, s) => n + s.cards.length, 0) : null}
+          view={view}
+          onViewChange={setView}
+          groupBy={groupBy}
+          onGroupByChange={view === "board" ? setGroupBy : undefined}
         />
 
-        <DndContext 
-          collisionDetection={closestCorners}
-          onDragEnd={handleDragEnd}
-        >
-          <div className="flex gap-6 overflow-x-auto pb-6">
-            {filteredBoard.sections.map((section) => (
-              <BoardSection
-                key={section.id}
-                section={section}
-                onAddCard={handleAddCard}
-                onDeleteSection={handleDeleteSection}
-                onClearSection={handleClearSection}
-                onCardClick={handleCardClick}
-              />
-            ))}
-          </div>
-        </DndContext>
+        {view === "table" ? (
+          <CardTable
+            sections={filteredBoard.sections}
+            canEdit={canEdit}
+            onCardClick={handleCardClick}
+            onChangePriority={handleTablePriority}
+            onChangeSection={handleTableSection}
+            onBulkPriority={handleBulkPriority}
+            onBulkMove={handleBulkMove}
+            onBulkArchive={handleBulkArchive}
+          />
+        ) : groupBy !== "none" ? (
+          <SwimlaneBoard
+            sections={filteredBoard.sections}
+            lanes={lanes}
+            groupBy={groupBy}
+            onDrop={handleLaneDrop}
+            onAddCard={handleAddCard}
+            onCardClick={handleCardClick}
+            highlight={searchTerms}
+            canEdit={canEdit}
+          />
+        ) : (
+          <DndContext
+            collisionDetection={collisionDetection}
+            onDragEnd={handleDragEnd}
+          >
+            <SortableContext items={filteredBoard.sections.map((s) => s.id)} strategy={horizontalListSortingStrategy}>
+              <div className="flex gap-6 overflow-x-auto pb-6">
+                {filteredBoard.sections.map((section) => (
+                  <BoardSection
+                    key={section.id}
+                    section={section}
+                    onAddCard={handleAddCard}
+                    onDeleteSection={handleDeleteSection}
+                    onClearSection={handleClearSection}
+                    onCardClick={handleCardClick}
+                    onUpdateWipLimit={handleUpdateWipLimit}
+                    totalCards={board.sections.find(s => s.id === section.id)?.cards.length}
+                    highlight={searchTerms}
+                    canEdit={canEdit}
+                    canManage={canManage}
+                  />
+                ))}
+              </div>
+            </SortableContext>
+          </DndContext>
+        )}
 
         <CardModal
           card={selectedCard}
@@ -268,6 +616,45 @@ const Index = () => {
           isNew={!selectedCard}
         />
 
+        <MembersPanel
+          isOpen={membersOpen}
+          onClose={() => setMembersOpen(false)}
+          canManage={board.role === "owner"}
+          listMembers={listMembers}
+          updateMemberRole={updateMemberRole}
+          removeMember={removeMember}
+          listInvitations={listInvitations}
+          inviteMember={inviteMember}
+          cancelInvitation={cancelInvitation}
+        />
+
+        <ActivityPanel
+          isOpen={activityOpen}
+          onClose={() => setActivityOpen(false)}
+          listActivity={listActivity}
+          refreshKey={board}
+        />
+
+        <DeleteSectionDialog
+          section={sectionToDelete}
+          otherSections={board.sections.filter(s => s.id !== sectionToDelete?.id)}
+          onClose={() => setSectionToDelete(null)}
+          onConfirm={handleDeleteSectionConfirm}
+        />
+
+        <ArchivePanel
+          isOpen={archiveOpen}
+          onClose={() => setArchiveOpen(false)}
+          canEdit={canEdit}
+          canManage={canManage}
+          listArchive={listArchive}
+          restoreCard={restoreArchivedCard}
+          restoreSection={restoreArchivedSection}
+          purgeCard={purgeArchivedCard}
+          purgeSection={purgeArchivedSection}
+          refreshKey={board}
+        />
+
         <Dialog open={addSectionModalOpen} onOpenChange={setAddSectionModalOpen}>
           <DialogContent>
             <DialogHeader>
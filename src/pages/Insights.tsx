@@ -0,0 +1,295 @@
+import { useEffect, useState } from "react";
+import { useParams } from "react-router-dom";
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, Cell, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useBoardData } from "@/hooks/useBoardData";
+import { CardDistribution, CumulativeFlow, CycleTime, Throughput } from "@/types/board";
+
+// Series colors, reused in order when a board has more sections than colors
+const PALETTE = ["#6366f1", "#0ea5e9", "#22c55e", "#f59e0b", "#a855f7", "#ef4444", "#14b8a6", "#64748b"];
+
+const PRIORITY_COLORS = {
+  high: "hsl(var(--priority-high))",
+  normal: "hsl(var(--priority-normal))",
+  low: "hsl(var(--priority-low))",
+};
+
+const RANGES = [14, 30, 90];
+
+// "2026-10-19" as "Oct 19"; the API sends UTC days, shown as is
+const shortDay = (day: string) =>
+  new Date(`${day}T00:00:00Z`).toLocaleDateString(undefined, { month: "short", day: "numeric", timeZone: "UTC" });
+
+const formatDuration = (hours: number | null) => {
+  if (hours === null) return "—";
+  if (hours < 24) return `${Math.round(hours)}h`;
+  return `${Math.round((hours / 24) * 10) / 10}d`;
+};
+
+const Stat = ({ label, value, hint }: { label: string; value: string; hint?: string }) => (
+  <Card>
+    <CardHeader className="pb-2">
+      <CardDescription>{label}</CardDescription>
+      <CardTitle className="text-3xl">{value}</CardTitle>
+    </CardHeader>
+    {hint && <CardContent className="text-xs text-muted-foreground">{hint}</CardContent>}
+  </Card>
+);
+
+const Empty = ({ children }: { children: React.ReactNode }) => (
+  <div className="flex h-[260px] items-center justify-center text-sm text-muted-foreground">{children}</div>
+);
+
+const FlowChart = ({ flow }: { flow: CumulativeFlow }) => {
+  const config: ChartConfig = Object.fromEntries(
+    flow.sections.map((s, i) => [s.id, { label: s.title, color: PALETTE[i % PALETTE.length] }])
+  );
+  const data = flow.days.map((d) => ({ date: d.date, ...d.counts }));
+  // Later sections at the bottom of the stack, the usual cumulative flow layout
+  const stacked = [...flow.sections].reverse();
+
+  return (
+    <ChartContainer config={config} className="h-[300px] w-full">
+      <AreaChart data={data} margin={{ left: 0, right: 12 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="date" tickFormatter={shortDay} tickLine={false} axisLine={false} minTickGap={24} />
+        <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+        <ChartTooltip content={<ChartTooltipContent labelFormatter={(v) => shortDay(String(v))} />} />
+        <ChartLegend content={<ChartLegendContent />} />
+        {stacked.map((s) => (
+          <Area
+            key={s.id}
+            dataKey={s.id}
+            type="stepAfter"
+            stackId="flow"
+            stroke={`var(--color-${s.id})`}
+            fill={`var(--color-${s.id})`}
+            fillOpacity={0.5}
+            isAnimationActive={false}
+          />
+        ))}
+      </AreaChart>
+    </ChartContainer>
+  );
+};
+
+const throughputConfig: ChartConfig = { count: { label: "Completed", color: PALETTE[2] } };
+
+const ThroughputChart = ({ throughput }: { throughput: Throughput }) => (
+  <ChartContainer config={throughputConfig} className="h-[260px] w-full">
+    <BarChart data={throughput.weeks} margin={{ left: 0, right: 12 }}>
+      <CartesianGrid vertical={false} />
+      <XAxis dataKey="weekStart" tickFormatter={shortDay} tickLine={false} axisLine={false} minTickGap={16} />
+      <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+      <ChartTooltip content={<ChartTooltipContent labelFormatter={(v) => `Week of ${shortDay(String(v))}`} />} />
+      <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+    </BarChart>
+  </ChartContainer>
+);
+
+const cycleConfig: ChartConfig = { days: { label: "Days", color: PALETTE[0] } };
+
+const CycleTimeChart = ({ cycle }: { cycle: CycleTime }) => {
+  const data = cycle.cards.map((c) => ({ title: c.title, days: Math.round((c.hours / 24) * 10) / 10 }));
+  return (
+    <ChartContainer config={cycleConfig} className="h-[260px] w-full">
+      <BarChart data={data} margin={{ left: 0, right: 12 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="title" tick={false} tickLine={false} axisLine={false} />
+        <YAxis tickLine={false} axisLine={false} width={32} />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <Bar dataKey="days" fill="var(--color-days)" radius={4} />
+      </BarChart>
+    </ChartContainer>
+  );
+};
+
+type DistributionRow = { key: string; count: number; fill?: string };
+
+const DistributionChart = ({ data, config }: { data: DistributionRow[]; config: ChartConfig }) => (
+  <ChartContainer config={config} className="w-full" style={{ height: Math.max(120, data.length * 36) }}>
+    <BarChart data={data} layout="vertical" margin={{ left: 0, right: 12 }}>
+      <XAxis type="number" allowDecimals={false} hide />
+      <YAxis
+        type="category"
+        dataKey="key"
+        tickFormatter={(key) => String(config[key]?.label ?? key)}
+        tickLine={false}
+        axisLine={false}
+        width={110}
+      />
+      <ChartTooltip content={<ChartTooltipContent nameKey="key" hideLabel />} />
+      <Bar dataKey="count" radius={4}>
+        {data.map((row) => (
+          <Cell key={row.key} fill={row.fill ?? "var(--color-count)"} />
+        ))}
+      </Bar>
+    </BarChart>
+  </ChartContainer>
+);
+
+const Insights = () => {
+  const { projectId = "default" } = useParams<{ projectId: string }>();
+  const { board, loaded, getCumulativeFlow, getCycleTime, getThroughput, getDistribution } = useBoardData();
+  const [days, setDays] = useState(30);
+  const [flow, setFlow] = useState<CumulativeFlow | null>(null);
+  const [cycle, setCycle] = useState<CycleTime | null>(null);
+  const [throughput, setThroughput] = useState<Throughput | null>(null);
+  const [distribution, setDistribution] = useState<CardDistribution | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    setError(null);
+    Promise.all([getCumulativeFlow(days), getCycleTime(days), getThroughput(), getDistribution()])
+      .then(([f, c, t, d]) => {
+        if (!active) return;
+        setFlow(f);
+        setCycle(c);
+        setThroughput(t);
+        setDistribution(d);
+      })
+      .catch((e) => active && setError(e instanceof Error ? e.message : "Failed to load insights"));
+    return () => {
+      active = false;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [days, projectId]);
+
+  const doneTitle = cycle?.section?.title;
+  const priorityConfig: ChartConfig = {
+    count: { label: "Cards" },
+    high: { label: "High", color: PRIORITY_COLORS.high },
+    normal: { label: "Normal", color: PRIORITY_COLORS.normal },
+    low: { label: "Low", color: PRIORITY_COLORS.low },
+  };
+  const assigneeConfig: ChartConfig = Object.fromEntries([
+    ["count", { label: "Cards", color: PALETTE[1] }],
+    ...(distribution?.assignee ?? []).map((a) => [a.id ?? "none", { label: a.name }]),
+  ]);
+
+  return (
+    <div className="min-h-screen bg-gradient-board p-6">
+      <div className="max-w-6xl mx-auto">
+        {/* Breadcrumb */}
+        <div className="text-sm text-muted-foreground mb-3">
+          <a href="/boards" className="hover:underline">Boards</a>
+          <span className="mx-2">/</span>
+          <a href={`/project/${projectId}`} className="hover:underline">{projectId}</a>
+          <span className="mx-2">/</span>
+          <span className="text-foreground">Insights</span>
+        </div>
+
+        <div className="mb-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div className="min-w-0">
+            <h1 className="text-2xl sm:text-3xl md:text-4xl font-bold bg-gradient-primary bg-clip-text text-transparent truncate">
+              {loaded ? (board.title?.trim() || projectId) : ""}
+            </h1>
+            <p className="text-muted-foreground mt-1">
+              {doneTitle ? `Cards count as done once they reach "${doneTitle}", the last section` : "Flow and workload of the board"}
+            </p>
+          </div>
+          <Select value={String(days)} onValueChange={(v) => setDays(Number(v))}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RANGES.map((r) => (
+                <SelectItem key={r} value={String(r)}>Last {r} days</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {error && <p className="mb-4 text-sm text-destructive">{error}</p>}
+
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4 mb-6">
+          <Stat label="Cards on the board" value={distribution ? String(distribution.total) : "—"} />
+          <Stat label={`Completed, last ${days} days`} value={cycle ? String(cycle.count) : "—"} />
+          <Stat label="Average cycle time" value={formatDuration(cycle?.averageHours ?? null)} hint="From creation to done" />
+          <Stat label="Median cycle time" value={formatDuration(cycle?.medianHours ?? null)} />
+        </div>
+
+        <div className="grid gap-4 lg:grid-cols-2">
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>Cumulative flow</CardTitle>
+              <CardDescription>Cards in each section at the end of every day</CardDescription>
+            </CardHeader>
+            <CardContent>{flow ? <FlowChart flow={flow} /> : <Empty>Loading…</Empty>}</CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Throughput</CardTitle>
+              <CardDescription>Cards completed per week</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {!throughput ? (
+                <Empty>Loading…</Empty>
+              ) : !throughput.section ? (
+                <Empty>Add a second section to track completed cards</Empty>
+              ) : (
+                <ThroughputChart throughput={throughput} />
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Cycle time</CardTitle>
+              <CardDescription>Days from creation to done, per completed card</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {!cycle ? (
+                <Empty>Loading…</Empty>
+              ) : cycle.cards.length === 0 ? (
+                <Empty>No cards completed in the last {days} days</Empty>
+              ) : (
+                <CycleTimeChart cycle={cycle} />
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>By priority</CardTitle>
+              <CardDescription>Cards on the board</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {distribution ? (
+                <DistributionChart
+                  data={distribution.priority.map((p) => ({ key: p.priority, count: p.count, fill: `var(--color-${p.priority})` }))}
+                  config={priorityConfig}
+                />
+              ) : (
+                <Empty>Loading…</Empty>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>By assignee</CardTitle>
+              <CardDescription>Cards with several assignees count for each of them</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {distribution ? (
+                <DistributionChart
+                  data={distribution.assignee.map((a) => ({ key: a.id ?? "none", count: a.count }))}
+                  config={assigneeConfig}
+                />
+              ) : (
+                <Empty>Loading…</Empty>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Insights;
@@ -1,5 +1,7 @@
 export type Priority = 'low' | 'normal' | 'high';
 
+export type ProjectRole = 'owner' | 'editor' | 'viewer';
+
 export interface CommentAuthor {
   id: string;
   name: string;
@@ -19,6 +21,97 @@ export interface UserLite {
   email: string;
 }
 
+export interface Member extends UserLite {
+  role: ProjectRole;
+  joinedAt: Date;
+}
+
+export interface Invitation {
+  id: string;
+  role: ProjectRole;
+  status: 'pending' | 'accepted' | 'declined';
+  createdAt: Date;
+  project: { id: string; title: string };
+  invitee: UserLite;
+  invitedBy: UserLite;
+}
+
+// Project-defined category; color is a hex string like #22c55e
+export interface Label {
+  id: string;
+  name: string;
+  color: string;
+}
+
+// File stored on the server; download it through useBoardData's downloadAttachment
+export interface Attachment {
+  id: string;
+  cardId: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  createdAt: Date;
+  uploader: UserLite | null;
+}
+
+export interface ChecklistItem {
+  id: string;
+  text: string;
+  done: boolean;
+}
+
+export interface Checklist {
+  id: string;
+  title: string;
+  items: ChecklistItem[];
+}
+
+// Item counts over all checklists of a card
+export interface ChecklistProgress {
+  done: number;
+  total: number;
+}
+
+// Entry of the board's audit trail; before/after hold the changed values as sent by the API
+export interface Activity {
+  id: string;
+  type: string;
+  summary: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  cardId: string | null;
+  sectionId: string | null;
+  createdAt: Date;
+  actor: UserLite | null;
+}
+
+// A card entering a section; from is null when the card was created there
+export interface CardTransition {
+  id: string;
+  from: { id: string; title: string } | null;
+  to: { id: string; title: string };
+  actor: UserLite | null;
+  createdAt: Date;
+}
+
+export interface ActivityPage {
+  items: Activity[];
+  nextCursor: string | null;
+}
+
+// Card found by the search endpoints; snippet shows the description/comment text around the match
+export interface SearchResult {
+  cardId: string;
+  title: string;
+  priority: Priority;
+  projectId: string;
+  projectTitle: string;
+  sectionId: string;
+  sectionTitle: string;
+  matches: ('title' | 'description' | 'comments')[];
+  snippet: string | null;
+}
+
 export interface Card {
   id: string;
   title: string;
@@ -27,8 +120,14 @@ export interface Card {
   executor: string;
   comments: Comment[];
   createdAt: Date;
+  // Planning dates, null when not set
+  startDate?: Date | null;
+  dueDate?: Date | null;
   sectionId: string;
   assignees?: UserLite[];
+  labels?: Label[];
+  checklist?: ChecklistProgress;
+  attachmentCount?: number;
 }
 
 export interface Section {
@@ -36,10 +135,116 @@ export interface Section {
   title: string;
   cards: Card[];
   canDelete: boolean;
+  // Work-in-progress limit, null when unset; strict limits make the API refuse cards beyond it
+  wipLimit?: number | null;
+  wipStrict?: boolean;
 }
 
+// What deleting a section does with its cards; the section itself goes to the archive
+export type SectionCardsChoice = { cards: 'move'; targetSectionId: string } | { cards: 'archive' | 'delete' };
+
+// Server-sent board changes; dates arrive as ISO strings and are revived by useBoardData
+export type BoardEvent =
+  | { type: 'card.created' | 'card.updated'; card: Card }
+  | { type: 'card.moved'; card: Card; cardIds: string[] }
+  | { type: 'card.deleted'; cardId: string }
+  | { type: 'cards.deleted'; cardIds: string[] }
+  | { type: 'section.created'; section: Section }
+  | { type: 'section.updated'; section: Omit<Section, 'cards'> }
+  | { type: 'section.moved'; sectionIds: string[] }
+  | { type: 'section.deleted' | 'section.cleared'; sectionId: string }
+  | { type: 'comment.created' | 'comment.updated'; cardId: string; comment: Comment }
+  | { type: 'comment.deleted'; cardId: string; commentId: string }
+  | { type: 'assignees.updated'; cardId: string; assignees: UserLite[] }
+  | { type: 'label.created' | 'label.updated'; label: Label }
+  | { type: 'label.deleted'; labelId: string }
+  | { type: 'checklists.updated'; cardId: string; checklists: Checklist[]; progress: ChecklistProgress }
+  | { type: 'attachments.updated'; cardId: string; count: number }
+  | { type: 'board.invalidated' };
+
 export interface Board {
   id: string;
   title: string;
   sections: Section[];
+  // Current user's role on the board (set by the API)
+  role?: ProjectRole;
+  // The board's label palette
+  labels?: Label[];
+}
+
+// Board archive: what delete/clear actions removed from the board, until restored or deleted for good
+export interface ArchivedCard {
+  id: string;
+  title: string;
+  priority: Priority;
+  sectionId: string;
+  sectionTitle: string;
+  archivedAt: Date;
+}
+
+export interface ArchivedSection {
+  id: string;
+  title: string;
+  // Cards archived together with the section; they come back with it
+  cardCount: number;
+  archivedAt: Date;
+}
+
+export interface ArchiveListing {
+  sections: ArchivedSection[];
+  cards: ArchivedCard[];
+}
+
+// What a board import creates (or would create, for a dry run) and which people could not be mapped
+export interface ImportReport {
+  title: string;
+  sections: number;
+  cards: number;
+  comments: number;
+  checklists: number;
+  labels: number;
+  // Emails of people invited to the new board; the importer is its only member until they accept
+  invited: string[];
+  unknownEmails: string[];
+  skippedAssignees: string[];
+}
+
+// Board insights, computed by the API from card transitions; days are UTC "yyyy-mm-dd" strings
+export interface CumulativeFlow {
+  // Live sections in board order
+  sections: { id: string; title: string }[];
+  // Cards per section id at the end of each day, oldest first
+  days: { date: string; counts: Record<string, number> }[];
+}
+
+// The section counting as done is the board's last one; null with fewer than two sections
+export interface CycleTime {
+  section: { id: string; title: string } | null;
+  count: number;
+  averageHours: number | null;
+  medianHours: number | null;
+  cards: { id: string; title: string; completedAt: string; hours: number }[];
+}
+
+export interface Throughput {
+  section: { id: string; title: string } | null;
+  // Cards completed per week; weeks start on Monday
+  weeks: { weekStart: string; count: number }[];
+}
+
+export interface CardDistribution {
+  total: number;
+  priority: { priority: Priority; count: number }[];
+  // id is null for the unassigned cards
+  assignee: { id: string | null; name: string; count: number }[];
+}
+
+// A board template as listed by the API; starter cards are only counted
+export interface BoardTemplate {
+  id: string;
+  name: string;
+  description: string;
+  // Built-in templates are shared by everyone and cannot be deleted
+  builtIn: boolean;
+  sections: { title: string; wipLimit: number | null; cards: number }[];
 }